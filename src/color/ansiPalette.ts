@@ -0,0 +1,108 @@
+import { Vector3, linearToOklab, rgbToLinear } from "./colorSpaces.js";
+
+/**
+ * Internal xterm palette math used by {@link Color#toAnsiForeground} and the ANSI conversion methods of {@link Color}.
+ */
+
+/**
+ * The default xterm values of the 16 basic colors. Most terminals let users change these, so they are only an approximation.
+ */
+const ANSI_16_PALETTE: readonly Vector3[] = [
+    [0, 0, 0],
+    [205, 0, 0],
+    [0, 205, 0],
+    [205, 205, 0],
+    [0, 0, 238],
+    [205, 0, 205],
+    [0, 205, 205],
+    [229, 229, 229],
+    [127, 127, 127],
+    [255, 0, 0],
+    [0, 255, 0],
+    [255, 255, 0],
+    [92, 92, 255],
+    [255, 0, 255],
+    [0, 255, 255],
+    [255, 255, 255],
+];
+
+/**
+ * The channel values of the 6x6x6 color cube (indices 16 to 231).
+ */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * Returns the RGB value of an xterm 256-color palette index.
+ */
+export function ansi256ToRgb(index: number): Vector3 {
+    if (index < 16) {
+        return [...ANSI_16_PALETTE[index]];
+    }
+    if (index < 232) {
+        const cube = index - 16;
+        return [CUBE_LEVELS[Math.floor(cube / 36)], CUBE_LEVELS[Math.floor(cube / 6) % 6], CUBE_LEVELS[cube % 6]];
+    }
+    const gray = 8 + (index - 232) * 10;
+    return [gray, gray, gray];
+}
+
+function toOklab(rgb: Vector3): Vector3 {
+    return linearToOklab(rgbToLinear(rgb));
+}
+
+let ansi256Oklab: Vector3[] | undefined;
+let ansi16Oklab: Vector3[] | undefined;
+
+/**
+ * Returns the index of the palette entry that is perceptually closest to the color, measured as the distance in OKLab.
+ */
+function nearestIndex(palette: readonly Vector3[], rgb: Vector3): number {
+    const [l, a, b] = toOklab(rgb);
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    palette.forEach(([l2, a2, b2], index) => {
+        const distance = (l - l2) ** 2 + (a - a2) ** 2 + (b - b2) ** 2;
+        if (distance < nearestDistance) {
+            nearest = index;
+            nearestDistance = distance;
+        }
+    });
+    return nearest;
+}
+
+/**
+ * Returns the xterm 256-color palette index closest to an RGB color.
+ * The first 16 entries are skipped because terminals commonly customize them.
+ */
+export function rgbToAnsi256(rgb: Vector3): number {
+    ansi256Oklab ??= Array.from({ length: 240 }, (_, index) => toOklab(ansi256ToRgb(index + 16)));
+    return nearestIndex(ansi256Oklab, rgb) + 16;
+}
+
+/**
+ * Returns the index (0 to 15) of the basic color closest to an RGB color.
+ */
+export function rgbToAnsi16(rgb: Vector3): number {
+    ansi16Oklab ??= ANSI_16_PALETTE.map(toOklab);
+    return nearestIndex(ansi16Oklab, rgb);
+}
+
+/**
+ * Returns the SGR parameter that sets one of the 16 basic colors, such as `31` for a red foreground or `101` for a bright red background.
+ */
+export function ansi16ToSgr(index: number, background: boolean): number {
+    return (index < 8 ? 30 + index : 82 + index) + (background ? 10 : 0);
+}
+
+/**
+ * Returns the basic color index (0 to 15) of an SGR color parameter, or `undefined` if the parameter does not set a basic color.
+ */
+export function sgrToAnsi16(code: number): number | undefined {
+    if ((code >= 30 && code <= 37) || (code >= 40 && code <= 47)) {
+        return code % 10;
+    }
+    if ((code >= 90 && code <= 97) || (code >= 100 && code <= 107)) {
+        return (code % 10) + 8;
+    }
+    return undefined;
+}
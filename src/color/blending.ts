@@ -0,0 +1,108 @@
+import { BlendMode } from "./color.js";
+import { Vector3 } from "./colorSpaces.js";
+
+/**
+ * Internal blend mode math used by {@link Color#blend}. Every function works on gamma-encoded channels from 0 to 1.
+ */
+
+type SeparableBlendFunction = (backdrop: number, source: number) => number;
+
+function hardLight(backdrop: number, source: number): number {
+    return source <= 0.5 ? backdrop * 2 * source : screen(backdrop, 2 * source - 1);
+}
+
+function screen(backdrop: number, source: number): number {
+    return backdrop + source - backdrop * source;
+}
+
+const SEPARABLE_BLEND_FUNCTIONS: Record<Exclude<BlendMode, "hue" | "saturation" | "color" | "luminosity">, SeparableBlendFunction> = {
+    normal: (_, source) => source,
+    multiply: (backdrop, source) => backdrop * source,
+    screen,
+    overlay: (backdrop, source) => hardLight(source, backdrop),
+    darken: Math.min,
+    lighten: Math.max,
+    colorDodge: (backdrop, source) => {
+        if (backdrop === 0) {
+            return 0;
+        }
+        return source === 1 ? 1 : Math.min(1, backdrop / (1 - source));
+    },
+    colorBurn: (backdrop, source) => {
+        if (backdrop === 1) {
+            return 1;
+        }
+        return source === 0 ? 0 : 1 - Math.min(1, (1 - backdrop) / source);
+    },
+    hardLight,
+    softLight: (backdrop, source) => {
+        if (source <= 0.5) {
+            return backdrop - (1 - 2 * source) * backdrop * (1 - backdrop);
+        }
+        const d = backdrop <= 0.25 ? ((16 * backdrop - 12) * backdrop + 4) * backdrop : Math.sqrt(backdrop);
+        return backdrop + (2 * source - 1) * (d - backdrop);
+    },
+    difference: (backdrop, source) => Math.abs(backdrop - source),
+    exclusion: (backdrop, source) => backdrop + source - 2 * backdrop * source,
+};
+
+function luminosity([r, g, b]: Vector3): number {
+    return 0.3 * r + 0.59 * g + 0.11 * b;
+}
+
+function clipColor(color: Vector3): Vector3 {
+    const l = luminosity(color);
+    const min = Math.min(...color);
+    const max = Math.max(...color);
+    return color.map((channel) => {
+        if (min < 0) {
+            channel = l + ((channel - l) * l) / (l - min);
+        }
+        if (max > 1) {
+            channel = l + ((channel - l) * (1 - l)) / (max - l);
+        }
+        return channel;
+    }) as Vector3;
+}
+
+function setLuminosity(color: Vector3, l: number): Vector3 {
+    const delta = l - luminosity(color);
+    return clipColor(color.map((channel) => channel + delta) as Vector3);
+}
+
+function saturation(color: Vector3): number {
+    return Math.max(...color) - Math.min(...color);
+}
+
+function setSaturation(color: Vector3, s: number): Vector3 {
+    const max = Math.max(...color);
+    const min = Math.min(...color);
+    if (max === min) {
+        return [0, 0, 0];
+    }
+    return color.map((channel) => ((channel - min) * s) / (max - min)) as Vector3;
+}
+
+/**
+ * Blends two colors with gamma-encoded channels from 0 to 1, ignoring alpha. This is the `B(Cb, Cs)` function from the specification.
+ *
+ * @param mode     The blend mode to use.
+ * @param backdrop The color that is being blended onto.
+ * @param source   The color that is being blended.
+ */
+export function blendChannels(mode: BlendMode, backdrop: Vector3, source: Vector3): Vector3 {
+    switch (mode) {
+        case "hue":
+            return setLuminosity(setSaturation(source, saturation(backdrop)), luminosity(backdrop));
+        case "saturation":
+            return setLuminosity(setSaturation(backdrop, saturation(source)), luminosity(backdrop));
+        case "color":
+            return setLuminosity(source, luminosity(backdrop));
+        case "luminosity":
+            return setLuminosity(backdrop, luminosity(source));
+        default: {
+            const blend = SEPARABLE_BLEND_FUNCTIONS[mode];
+            return [blend(backdrop[0], source[0]), blend(backdrop[1], source[1]), blend(backdrop[2], source[2])];
+        }
+    }
+}
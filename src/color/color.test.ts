@@ -1,4 +1,5 @@
-import { Color } from "./color.js";
+import { Color, ColorFrozenError } from "./color.js";
+import { deltaE2000, deltaE76, deltaE94 } from "./colorDifference.js";
 
 test("color randomized rgba test", () => {
     const r = Math.floor(Math.random() * 256);
@@ -134,3 +135,390 @@ test("color setters test", () => {
     expect(color.blue).toEqual(255);
     expect(color.alpha).toEqual(1);
 })
+
+test("color perceptual color space conversion test", () => {
+    const white = Color.WHITE.toLab();
+    expect(white.l).toBeCloseTo(100, 2);
+    expect(white.a).toBeCloseTo(0, 2);
+    expect(white.b).toBeCloseTo(0, 2);
+
+    const red = Color.RED.toLab();
+    expect(red.l).toBeCloseTo(53.24, 1);
+    expect(red.a).toBeCloseTo(80.09, 1);
+    expect(red.b).toBeCloseTo(67.2, 1);
+
+    const redXYZ = Color.RED.toXYZ();
+    expect(redXYZ.x).toBeCloseTo(0.4125, 3);
+    expect(redXYZ.y).toBeCloseTo(0.2127, 3);
+    expect(redXYZ.z).toBeCloseTo(0.0193, 3);
+
+    const redOKLab = Color.RED.toOKLab();
+    expect(redOKLab.l).toBeCloseTo(0.628, 3);
+    expect(redOKLab.a).toBeCloseTo(0.2249, 3);
+    expect(redOKLab.b).toBeCloseTo(0.1258, 3);
+
+    const redOKLCh = Color.RED.toOKLCh();
+    expect(redOKLCh.c).toBeCloseTo(0.2577, 3);
+    expect(redOKLCh.h).toBeCloseTo(29.23, 1);
+
+    expect(Color.GRAY.toLCh().h).toEqual(0);
+});
+
+test("color perceptual color space round trip test", () => {
+    const color = new Color(Math.floor(Math.random() * 256), Math.floor(Math.random() * 256), Math.floor(Math.random() * 256), 0.5);
+    const { x, y, z } = color.toXYZ();
+    expect(Color.fromXYZ(x, y, z, 0.5)).toEqual(color);
+    const lab = color.toLab();
+    expect(Color.fromLab(lab.l, lab.a, lab.b, 0.5)).toEqual(color);
+    const lch = color.toLCh();
+    expect(Color.fromLCh(lch.l, lch.c, lch.h, 0.5)).toEqual(color);
+    const oklab = color.toOKLab();
+    expect(Color.fromOKLab(oklab.l, oklab.a, oklab.b, 0.5)).toEqual(color);
+    const oklch = color.toOKLCh();
+    expect(Color.fromOKLCh(oklch.l, oklch.c, oklch.h, 0.5).equals(color)).toEqual(true);
+});
+
+test("color perceptual color space gamut clipping test", () => {
+    const color = Color.fromOKLCh(0.7, 0.5, 150);
+    for (const channel of [color.red, color.green, color.blue]) {
+        expect(Number.isInteger(channel)).toEqual(true);
+        expect(channel).toBeGreaterThanOrEqual(0);
+        expect(channel).toBeLessThanOrEqual(255);
+    }
+    expect(Color.fromLab(100, 0, 0)).toEqual(Color.WHITE);
+    expect(Color.fromLab(0, 0, 0)).toEqual(Color.BLACK);
+});
+
+test("color delta E reference values test", () => {
+    // Reference pairs from Sharma, Wu, and Dalal (2005)
+    expect(deltaE2000([50, 2.6772, -79.7751], [50, 0, -82.7485])).toBeCloseTo(2.0425, 4);
+    expect(deltaE2000([50, -1.3802, -84.2814], [50, 0, -82.7485])).toBeCloseTo(1.0, 4);
+    expect(deltaE2000([50, 2.5, 0], [73, 25, -18])).toBeCloseTo(27.1492, 4);
+    expect(deltaE2000([2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514])).toBeCloseTo(0.9082, 4);
+    expect(deltaE76([50, 0, 0], [53, 4, 0])).toEqual(5);
+    expect(deltaE94([50, 2.6772, -79.7751], [50, 0, -82.7485])).toBeCloseTo(1.395, 3);
+});
+
+test("color deltaE test", () => {
+    expect(Color.RED.deltaE(new Color(255, 0, 0))).toEqual(0);
+    expect(Color.BLACK.deltaE(Color.WHITE, "CIE76")).toBeCloseTo(100, 2);
+    expect(Color.RED.deltaE(Color.BLUE)).toBeCloseTo(Color.BLUE.deltaE(Color.RED), 10);
+    expect(Color.RED.deltaE(Color.ORANGE)).toBeLessThan(Color.RED.deltaE(Color.CYAN));
+});
+
+test("color nearest test", () => {
+    const nearest = new Color(250, 10, 20).nearest(Color.BASIC_COLORS).get();
+    expect(nearest.key).toEqual("RED");
+    expect(nearest.color).toBe(Color.RED);
+    expect(nearest.distance).toBeGreaterThan(0);
+
+    expect(new Color(240, 160, 10).nearest(Color.BASIC_COLORS).get().key).toEqual("ORANGE");
+    expect(new Color(10, 10, 240).nearest([Color.RED, Color.BLUE], "CIE76").get().key).toEqual(1);
+    expect(Color.RED.nearest([]).isEmpty()).toEqual(true);
+});
+
+test("color parseCss hex test", () => {
+    expect(Color.parseCss("#f00").get()).toEqual(new Color(255, 0, 0));
+    expect(Color.parseCss("#F008").get()).toEqual(new Color(255, 0, 0, 0x88 / 255));
+    expect(Color.parseCss("#00ff00").get()).toEqual(new Color(0, 255, 0));
+    expect(Color.parseCss("  #0000ff80 ").get()).toEqual(new Color(0, 0, 255, 0x80 / 255));
+    expect(Color.parseCss("#12345").getError().position).toEqual(0);
+    expect(Color.parseCss("#ggg").isError()).toEqual(true);
+});
+
+test("color parseCss named colors test", () => {
+    expect(Color.parseCss("rebeccapurple").get()).toEqual(new Color(102, 51, 153));
+    expect(Color.parseCss("AliceBlue").get()).toEqual(new Color(240, 248, 255));
+    expect(Color.parseCss("transparent").get()).toEqual(new Color(0, 0, 0, 0));
+    expect(Color.parseCss("notacolor").getError().message).toContain('Unknown color name "notacolor"');
+    expect(Color.parseCss("constructor").getError().message).toContain('Unknown color name "constructor"');
+    expect(Color.parseCss("__proto__").getError().message).toContain('Unknown color name "__proto__"');
+});
+
+test("color parseCss rgb test", () => {
+    expect(Color.parseCss("rgb(255, 0, 0)").get()).toEqual(Color.RED);
+    expect(Color.parseCss("rgba(255, 0, 0, 0.5)").get()).toEqual(new Color(255, 0, 0, 0.5));
+    expect(Color.parseCss("rgb(255 0 0 / 50%)").get()).toEqual(new Color(255, 0, 0, 0.5));
+    expect(Color.parseCss("rgb(100% 50% 0%)").get()).toEqual(new Color(255, 128, 0));
+    expect(Color.parseCss("RGB(300 -5 none)").get()).toEqual(new Color(255, 0, 0));
+    expect(Color.parseCss("rgb(255, 0 0)").getError().position).toEqual(11);
+    expect(Color.parseCss("rgb(255 0 0, 1)").getError().position).toEqual(11);
+    expect(Color.parseCss("rgb(255 0 foo)").getError().position).toEqual(10);
+    expect(Color.parseCss("rgb(255 0)").getError().position).toEqual(9);
+    expect(Color.parseCss("rgb(255 0 0").getError().position).toEqual(11);
+    expect(Color.parseCss("rgb(255 0 0 1)").getError().position).toEqual(12);
+    expect(Color.parseCss("rgb(1 2 3) red").getError().position).toEqual(11);
+    expect(Color.parseCss("rgb(1 2 3deg)").getError().position).toEqual(8);
+    expect(Color.parseCss("foo(1 2 3)").getError().position).toEqual(0);
+    expect(Color.parseCss("rgb(1 2 3 ; 4)").getError().position).toEqual(10);
+    expect(Color.parseCss("").isError()).toEqual(true);
+});
+
+test("color parseCss hsl and hwb test", () => {
+    expect(Color.parseCss("hsl(120, 100%, 50%)").get()).toEqual(Color.GREEN);
+    expect(Color.parseCss("hsla(240deg 100% 50% / 0.25)").get()).toEqual(new Color(0, 0, 255, 0.25));
+    expect(Color.parseCss("hsl(0.5turn 100% 50%)").get()).toEqual(Color.CYAN);
+    expect(Color.parseCss("hsl(-120 100% 50%)").get()).toEqual(Color.BLUE);
+    expect(Color.parseCss("hwb(0 0% 0%)").get()).toEqual(Color.RED);
+    expect(Color.parseCss("hwb(0 100% 100%)").get()).toEqual(Color.GRAY);
+    expect(Color.parseCss("hsl(10foo 1% 1%)").getError().position).toEqual(4);
+});
+
+test("color parseCss lab and oklch test", () => {
+    expect(Color.parseCss("lab(53.24 80.09 67.2)").get()).toEqual(Color.RED);
+    expect(Color.parseCss("lch(100% 0 0)").get()).toEqual(Color.WHITE);
+    expect(Color.parseCss("oklab(0.628 0.2249 0.1258)").get()).toEqual(Color.RED);
+    expect(Color.parseCss("oklch(62.8% 0.2577 29.23 / 0.5)").get()).toEqual(new Color(255, 0, 0, 0.5));
+});
+
+test("color toCss formats round trip test", () => {
+    const color = new Color(Math.floor(Math.random() * 256), Math.floor(Math.random() * 256), Math.floor(Math.random() * 256), 0.5);
+    for (const format of ["rgba", "rgb", "hsl", "hwb", "lab", "oklch"] as const) {
+        expect(Color.parseCss(color.toCss(format)).get()).toEqual(color);
+    }
+    expect(Color.RED.toCss("hsl")).toEqual("hsl(0 100% 50%)");
+    expect(Color.RED.toCss("hex")).toEqual("#ff0000");
+    expect(new Color(255, 0, 0, 0.5).toCss("rgb")).toEqual("rgb(255 0 0 / 0.5)");
+});
+
+test("color parseHex alpha test", () => {
+    expect(Color.parseHex("#ff0000").get().alpha).toEqual(1);
+    expect(Color.parseHex("#ff000080").get().alpha).toEqual(0x80 / 255);
+    expect(new Color(255, 0, 0, 0.5).toHex(true)).toEqual("#ff000080");
+});
+
+test("color compositing test", () => {
+    expect(new Color(255, 0, 0, 0.5).over(Color.WHITE)).toEqual(new Color(255, 128, 128, 1));
+    expect(Color.RED.over(Color.BLUE)).toEqual(Color.RED);
+    expect(new Color(0, 0, 255, 0).over(Color.RED)).toEqual(Color.RED);
+    expect(new Color(0, 0, 0, 0).over(new Color(0, 0, 0, 0))).toEqual(new Color(0, 0, 0, 0));
+    const translucent = new Color(255, 0, 0, 0.5).over(new Color(0, 0, 255, 0.5));
+    expect(translucent.alpha).toEqual(0.75);
+    expect(translucent).toEqual(new Color(170, 0, 85, 0.75));
+});
+
+test("color blend modes test", () => {
+    const gray = new Color(128, 128, 128);
+    expect(Color.RED.blend(Color.BLUE, "screen")).toEqual(Color.MAGENTA);
+    expect(gray.blend(Color.ORANGE, "multiply")).toEqual(new Color(128, 83, 0));
+    expect(Color.WHITE.blend(Color.RED, "multiply")).toEqual(Color.RED);
+    expect(Color.BLACK.blend(Color.RED, "screen")).toEqual(Color.RED);
+    expect(Color.RED.blend(Color.WHITE, "difference")).toEqual(Color.CYAN);
+    expect(gray.blend(Color.RED, "darken")).toEqual(new Color(128, 0, 0));
+    expect(gray.blend(Color.RED, "lighten")).toEqual(new Color(255, 128, 128));
+    expect(gray.blend(gray, "overlay")).toEqual(new Color(128, 128, 128));
+    expect(gray.blend(Color.WHITE, "softLight")).toEqual(Color.WHITE);
+    expect(Color.WHITE.blend(gray, "exclusion")).toEqual(new Color(127, 127, 127));
+    expect(Color.BLUE.blend(gray, "hue").hue).toBeCloseTo(0, 5);
+    expect(gray.blend(Color.RED, "luminosity")).toEqual(new Color(255, 74, 74));
+    expect(new Color(255, 0, 0, 0.5).blend(Color.WHITE, "multiply")).toEqual(new Color(255, 128, 128));
+});
+
+test("color mix test", () => {
+    expect(Color.RED.mix(Color.BLUE)).toEqual(new Color(128, 0, 128));
+    expect(Color.RED.mix(Color.BLUE, 0)).toEqual(Color.RED);
+    expect(Color.RED.mix(Color.BLUE, 1)).toEqual(Color.BLUE);
+    expect(Color.RED.mix(Color.BLUE, 0.5, "hsl")).toEqual(Color.MAGENTA);
+    expect(Color.RED.mix(Color.GRAY, 0.5, "hsl").hue).toEqual(0);
+    expect(Color.BLACK.mix(Color.WHITE, 0.5, "linearRgb")).toEqual(new Color(188, 188, 188));
+    expect(Color.BLACK.mix(Color.WHITE, 0.5, "lab").red).toEqual(119);
+    expect(Color.BLACK.mix(Color.WHITE, 0.25, "oklab")).toEqual(new Color(34, 34, 34));
+    expect(Color.RED.mix(Color.GREEN, 0.5, "oklch").toOKLCh().h).toBeGreaterThan(Color.RED.toOKLCh().h);
+    expect(new Color(0, 0, 0, 0).mix(new Color(0, 0, 0, 1)).alpha).toEqual(0.5);
+});
+
+test("color luminance and WCAG contrast test", () => {
+    expect(Color.WHITE.luminance).toBeCloseTo(1, 5);
+    expect(Color.BLACK.luminance).toEqual(0);
+    expect(Color.RED.luminance).toBeCloseTo(0.2126, 4);
+    expect(Color.BLACK.contrastRatio(Color.WHITE)).toBeCloseTo(21, 5);
+    expect(Color.WHITE.contrastRatio(Color.BLACK)).toBeCloseTo(21, 5);
+    expect(Color.RED.contrastRatio(Color.RED)).toEqual(1);
+    expect(new Color(118, 118, 118).contrastRatio(Color.WHITE)).toBeCloseTo(4.54, 2);
+
+    const gray = new Color(118, 118, 118);
+    expect(gray.meetsContrast(Color.WHITE)).toEqual(true);
+    expect(gray.meetsContrast(Color.WHITE, "AAA")).toEqual(false);
+    expect(gray.meetsContrast(Color.WHITE, "AAA", "large")).toEqual(true);
+    expect(new Color(140, 140, 140).meetsContrast(Color.WHITE, "AA", "normal")).toEqual(false);
+    expect(new Color(140, 140, 140).meetsContrast(Color.WHITE, "AA", "large")).toEqual(true);
+});
+
+test("color APCA contrast test", () => {
+    expect(Color.BLACK.apcaContrast(Color.WHITE)).toBeCloseTo(106.04, 1);
+    expect(Color.WHITE.apcaContrast(Color.BLACK)).toBeCloseTo(-107.88, 1);
+    expect(new Color(136, 136, 136).apcaContrast(Color.WHITE)).toBeCloseTo(63.06, 1);
+    expect(Color.WHITE.apcaContrast(new Color(136, 136, 136))).toBeCloseTo(-68.54, 1);
+    expect(Color.GRAY.apcaContrast(Color.GRAY)).toEqual(0);
+});
+
+test("color ensureContrast test", () => {
+    const orange = Color.ORANGE.ensureContrast(Color.WHITE);
+    expect(orange.meetsContrast(Color.WHITE)).toEqual(true);
+    expect(orange.contrastRatio(Color.WHITE)).toBeLessThan(4.7);
+    expect(orange.toOKLCh().l).toBeLessThan(Color.ORANGE.toOKLCh().l);
+    expect(Math.abs(orange.toOKLCh().h - Color.ORANGE.toOKLCh().h)).toBeLessThan(3);
+
+    const blue = Color.BLUE.ensureContrast(Color.BLACK, 7);
+    expect(blue.contrastRatio(Color.BLACK)).toBeGreaterThanOrEqual(7);
+    expect(blue.luminance).toBeGreaterThan(Color.BLUE.luminance);
+
+    const black = Color.BLACK.ensureContrast(Color.WHITE);
+    expect(black).toEqual(Color.BLACK);
+    expect(black).not.toBe(Color.BLACK);
+
+    expect(Color.GRAY.ensureContrast(Color.GRAY, 30).contrastRatio(Color.GRAY)).toBeGreaterThan(4);
+});
+
+test("color harmony test", () => {
+    expect(Color.RED.complementary()).toEqual(Color.CYAN);
+    expect(Color.BLUE.complementary()).toEqual(Color.YELLOW);
+    expect(Color.RED.analogous()).toEqual([new Color(255, 0, 128), Color.RED, new Color(255, 128, 0)]);
+    expect(Color.RED.analogous(5, 15).length).toEqual(5);
+    expect(Color.RED.triadic()).toEqual([Color.RED, Color.GREEN, Color.BLUE]);
+    expect(Color.RED.tetradic()).toEqual([Color.RED, new Color(128, 255, 0), Color.CYAN, new Color(128, 0, 255)]);
+    expect(Color.RED.splitComplementary()).toEqual([Color.RED, new Color(0, 255, 128), new Color(0, 128, 255)]);
+    expect(new Color(255, 0, 0, 0.5).complementary().alpha).toEqual(0.5);
+    expect(new Color(255, 0, 64).complementary().hue).toBeCloseTo(165, 0);
+});
+
+test("color tints, shades, and tones test", () => {
+    const tints = Color.RED.tints(3);
+    expect(tints.length).toEqual(3);
+    expect(tints.map((color) => color.green)).toEqual([64, 128, 191]);
+    expect(tints.every((color) => color.hue === 0)).toEqual(true);
+
+    const shades = Color.RED.shades(4);
+    expect(shades[0].lightness).toBeLessThan(Color.RED.lightness);
+    expect(shades[3].lightness).toBeGreaterThan(0);
+    expect(shades.map((color) => color.red)).toEqual([204, 153, 102, 51]);
+
+    const tones = Color.RED.tones(1);
+    expect(tones).toEqual([new Color(191, 64, 64)]);
+    expect(Color.RED.tints(0)).toEqual([]);
+});
+
+test("color tonal scale test", () => {
+    const scale = Color.PURPLE.tonalScale();
+    expect(scale[500]).toEqual(Color.PURPLE);
+    expect(scale[500]).not.toBe(Color.PURPLE);
+    const order = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+    for (let i = 1; i < order.length; i++) {
+        expect(scale[order[i]].lightness).toBeLessThan(scale[order[i - 1]].lightness);
+    }
+    expect(scale[50].hue).toBeCloseTo(Color.PURPLE.hue, 0);
+});
+
+test("color ansi color depth test", () => {
+    expect(Color.ORANGE.toAnsiForeground()).toEqual("\x1b[38;2;255;165;0m");
+    expect(Color.ORANGE.toAnsiForeground("ansi256")).toEqual("\x1b[38;5;214m");
+    expect(Color.ORANGE.toAnsiBackground("ansi256")).toEqual("\x1b[48;5;214m");
+    expect(Color.RED.toAnsiForeground("ansi16")).toEqual("\x1b[91m");
+    expect(Color.RED.toAnsiBackground("ansi16")).toEqual("\x1b[101m");
+    expect(Color.PURPLE.toAnsiForeground("ansi16")).toEqual("\x1b[35m");
+    expect(Color.RED.toAnsiForeground("none")).toEqual("");
+});
+
+test("color ansi palette test", () => {
+    expect(Color.RED.toAnsi256()).toEqual(196);
+    expect(Color.GRAY.toAnsi256()).toEqual(244);
+    expect(Color.BLACK.toAnsi16()).toEqual(0);
+    expect(Color.WHITE.toAnsi16()).toEqual(15);
+    for (let index = 16; index < 256; index++) {
+        expect(Color.fromAnsi256(index).toAnsi256()).toEqual(index);
+    }
+    for (let index = 0; index < 16; index++) {
+        expect(Color.fromAnsi16(index).toAnsi16()).toEqual(index);
+    }
+    expect(Color.fromAnsi256(16)).toEqual(Color.BLACK);
+    expect(Color.fromAnsi256(232)).toEqual(new Color(8, 8, 8));
+    expect(() => Color.fromAnsi256(256)).toThrow(RangeError);
+    expect(() => Color.fromAnsi16(1.5)).toThrow(RangeError);
+});
+
+test("color parse ansi test", () => {
+    expect(Color.parseAnsi(Color.ORANGE.toAnsiForeground()).get()).toEqual(Color.ORANGE);
+    expect(Color.parseAnsi(Color.ORANGE.toAnsiBackground("ansi256")).get()).toEqual(Color.fromAnsi256(214));
+    expect(Color.parseAnsi("58;2;1;2;3").get()).toEqual(new Color(1, 2, 3));
+    expect(Color.parseAnsi(31).get()).toEqual(new Color(205, 0, 0));
+    expect(Color.parseAnsi("\x1b[104m").get()).toEqual(Color.fromAnsi16(12));
+    expect(Color.parseAnsi("1").isError()).toEqual(true);
+    expect(Color.parseAnsi("38;5;256").isError()).toEqual(true);
+    expect(Color.parseAnsi("38;2;1;2").isError()).toEqual(true);
+    expect(Color.parseAnsi("38;5;").isError()).toEqual(true);
+});
+
+test("color vision deficiency simulation test", () => {
+    expect(Color.RED.simulateColorBlindness("protanopia")).toEqual(new Color(109, 95, 0));
+    expect(Color.RED.simulateColorBlindness("achromatopsia")).toEqual(new Color(127, 127, 127));
+    expect(Color.RED.simulateColorBlindness("deuteranopia", 0)).toEqual(Color.RED);
+    expect(new Color(0, 0, 255, 0.5).simulateColorBlindness("tritanopia").alpha).toEqual(0.5);
+    expect(Color.WHITE.simulateColorBlindness("deuteranopia")).toEqual(Color.WHITE);
+    const partial = Color.RED.simulateColorBlindness("deuteranopia", 0.5);
+    expect(partial.deltaE(Color.RED)).toBeLessThan(Color.RED.simulateColorBlindness("deuteranopia").deltaE(Color.RED));
+});
+
+test("color daltonize test", () => {
+    const simulate = (color: Color): Color => color.simulateColorBlindness("deuteranopia");
+    const before = simulate(Color.RED).deltaE(simulate(Color.ORANGE));
+    const after = simulate(Color.RED.daltonize("deuteranopia")).deltaE(simulate(Color.ORANGE.daltonize("deuteranopia")));
+    expect(after).toBeGreaterThan(before);
+    expect(Color.GRAY.daltonize("protanopia")).toEqual(Color.GRAY);
+    expect(Color.GREEN.daltonize("achromatopsia")).toEqual(Color.GREEN);
+    expect(Color.GREEN.daltonize("achromatopsia")).not.toBe(Color.GREEN);
+    expect(Color.GREEN.daltonize("tritanopia", 0)).toEqual(Color.GREEN);
+});
+
+test("color find indistinguishable pairs test", () => {
+    const theme = { error: new Color(220, 50, 47), success: new Color(133, 153, 0), warning: new Color(181, 137, 0), info: new Color(38, 139, 210) };
+    const pairs = Color.findIndistinguishablePairs(theme, "deuteranopia");
+    expect(pairs.map((pair) => pair.keys)).toEqual([
+        ["success", "warning"],
+        ["error", "success"],
+        ["error", "warning"],
+    ]);
+    expect(pairs.every((pair) => pair.originalDistance >= 10 && pair.distance < 10)).toEqual(true);
+    expect(Color.findIndistinguishablePairs(theme, "tritanopia")).toEqual([]);
+    expect(Color.findIndistinguishablePairs(Object.values(theme), "deuteranopia", { threshold: 2 })[0].keys).toEqual([1, 2]);
+    expect(Color.findIndistinguishablePairs(Object.values(theme), "deuteranopia", { severity: 0 })).toEqual([]);
+});
+
+test("color freeze test", () => {
+    expect(Color.RED.isFrozen()).toEqual(true);
+    expect(() => Color.RED.setAlpha(0.5)).toThrow(ColorFrozenError);
+    expect(() => {
+        (Color.RED as { red: number }).red = 0;
+    }).toThrow(TypeError);
+    expect(Color.RED).toEqual(new Color(255, 0, 0));
+    expect(Object.isFrozen(Color.BASIC_COLORS)).toEqual(true);
+
+    const color = new Color(1, 2, 3);
+    expect(color.isFrozen()).toEqual(false);
+    expect(color.freeze()).toBe(color);
+    expect(() => color.setRed(0)).toThrow(ColorFrozenError);
+
+    const copy = Color.RED.deepClone();
+    expect(copy.isFrozen()).toEqual(false);
+    copy.setGreen(255);
+    expect(copy).toEqual(Color.YELLOW);
+});
+
+test("color non-mutating transforms test", () => {
+    expect(Color.RED.withRed(0)).toEqual(new Color(0, 0, 0));
+    expect(Color.RED.withGreen(255)).toEqual(Color.YELLOW);
+    expect(Color.RED.withBlue(255)).toEqual(Color.MAGENTA);
+    expect(Color.RED.withAlpha(0.5)).toEqual(new Color(255, 0, 0, 0.5));
+    expect(Color.RED.withAlpha(0.5).isFrozen()).toEqual(false);
+    expect(Color.RED.lighten(0.25)).toEqual(new Color(255, 128, 128));
+    expect(Color.RED.lighten(1)).toEqual(Color.WHITE);
+    expect(Color.RED.darken(0.25)).toEqual(new Color(128, 0, 0));
+    expect(Color.RED.darken(1)).toEqual(Color.BLACK);
+    expect(new Color(191, 64, 64).saturate(0.5)).toEqual(Color.RED);
+    expect(Color.RED.desaturate(1)).toEqual(Color.GRAY);
+    expect(Color.RED.rotateHue(120)).toEqual(Color.GREEN);
+    expect(Color.RED.rotateHue(-120)).toEqual(Color.BLUE);
+    expect(new Color(255, 0, 0, 0.5).invert()).toEqual(new Color(0, 255, 255, 0.5));
+    expect(Color.WHITE.grayscale()).toEqual(Color.WHITE);
+    expect(Color.GREEN.grayscale().contrastRatio(Color.GREEN)).toBeCloseTo(1, 2);
+    expect(Color.RED).toEqual(new Color(255, 0, 0));
+});
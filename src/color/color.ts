@@ -1,28 +1,327 @@
-import { Cloneable, DeepEquals, Result, foregroundColor, fromSGR } from "../index.js";
+import { StructuredError } from "../errors/errors.js";
+import { Cloneable, ColorDepth, DeepEquals, Optional, Result, detectColorDepth, foregroundColor, fromSGR } from "../index.js";
+import { ansi16ToSgr, ansi256ToRgb, rgbToAnsi16, rgbToAnsi256, sgrToAnsi16 } from "./ansiPalette.js";
+import { blendChannels } from "./blending.js";
+import { daltonizeCorrection, simulateDeficiency } from "./colorVision.js";
+import { deltaE2000, deltaE76, deltaE94 } from "./colorDifference.js";
+import { parseCssColor } from "./cssParser.js";
+import {
+    ACHROMATIC_THRESHOLD,
+    Vector3,
+    isLinearInGamut,
+    labToXyz,
+    linearToOklab,
+    linearToRgb,
+    linearToSrgb,
+    linearToXyz,
+    oklabToLinear,
+    polarToRectangular,
+    rectangularToPolar,
+    normalizeHue,
+    rgbToLinear,
+    xyzToLab,
+    xyzToLinear,
+} from "./colorSpaces.js";
 
-export class ColorHexParseError extends Error {}
+/**
+ * An error that occurs when {@link Color.parseHex} is given an invalid hex color.
+ *
+ * @category Color
+ */
+export class ColorHexParseError extends StructuredError<"ColorHexParse"> {
+    constructor(message: string) {
+        super("ColorHexParse", message);
+    }
+}
+
+/**
+ * An error that occurs when trying to mutate a color that was frozen with {@link Color#freeze}, such as the built-in constants.
+ *
+ * @category Color
+ */
+export class ColorFrozenError extends StructuredError<"ColorFrozen"> {
+    constructor(message: string) {
+        super("ColorFrozen", message);
+    }
+}
+
+/**
+ * An error that occurs when {@link Color.parseAnsi} is given an SGR code that does not set a color.
+ *
+ * @category Color
+ */
+export class ColorAnsiParseError extends StructuredError<"ColorAnsiParse"> {
+    constructor(message: string) {
+        super("ColorAnsiParse", message);
+    }
+}
+
+/**
+ * An error that occurs when {@link Color.parseCss} is given an invalid CSS color.
+ *
+ * @category Color
+ */
+export class ColorCssParseError extends StructuredError<"ColorCssParse"> {
+    constructor(
+        message: string,
+        /**
+         * The string that was being parsed.
+         */
+        public readonly input: string,
+        /**
+         * The index of the character in the input where the error was found.
+         */
+        public readonly position: number,
+    ) {
+        super("ColorCssParse", `${message} at position ${position} in "${input}"`);
+    }
+}
+
+/**
+ * The formats that {@link Color#toCss} can output.
+ *
+ * @category Color
+ */
+export type CssColorFormat = "rgba" | "rgb" | "hex" | "hsl" | "hwb" | "lab" | "oklch";
+
+/**
+ * A color in the CIE 1931 XYZ color space, using the D65 white point with Y normalized to 1.
+ *
+ * @see https://en.wikipedia.org/wiki/CIE_1931_color_space
+ * @category Color
+ */
+export type XYZColor = { x: number; y: number; z: number };
+/**
+ * A color in the CIELAB color space. Lightness is a number from 0 to 100.
+ *
+ * @see https://en.wikipedia.org/wiki/CIELAB_color_space
+ * @category Color
+ */
+export type LabColor = { l: number; a: number; b: number };
+/**
+ * A color in the CIE LCh color space, the polar form of CIELAB. Lightness is a number from 0 to 100 and hue is in degrees.
+ *
+ * @see https://en.wikipedia.org/wiki/CIELAB_color_space#Cylindrical_model
+ * @category Color
+ */
+export type LChColor = { l: number; c: number; h: number };
+/**
+ * A color in the OKLab color space. Lightness is a number from 0 to 1.
+ *
+ * @see https://bottosson.github.io/posts/oklab/
+ * @category Color
+ */
+export type OKLabColor = { l: number; a: number; b: number };
+/**
+ * A color in the OKLCh color space, the polar form of OKLab. Lightness is a number from 0 to 1 and hue is in degrees.
+ *
+ * @see https://bottosson.github.io/posts/oklab/
+ * @category Color
+ */
+export type OKLChColor = { l: number; c: number; h: number };
+
+/**
+ * The formula used to calculate the perceptual difference between two colors.
+ *
+ * - `"CIE76"` is the euclidean distance in CIELAB. Fast, but inaccurate for saturated colors.
+ * - `"CIE94"` weights the chroma and hue differences. It is not symmetric: the color the method is called on is the reference.
+ * - `"CIEDE2000"` is the most perceptually accurate formula, and the default.
+ *
+ * @see https://en.wikipedia.org/wiki/Color_difference
+ * @category Color
+ */
+export type DeltaEMethod = "CIE76" | "CIE94" | "CIEDE2000";
+
+/**
+ * The result of {@link Color#nearest}.
+ *
+ * @template K The type of the key of the matched color in the palette (an index for arrays, a name for records).
+ * @category Color
+ */
+export type NearestColor<K> = {
+    /**
+     * The key of the matched color in the palette.
+     */
+    key: K;
+    /**
+     * The matched color.
+     */
+    color: Color;
+    /**
+     * The Delta E distance between the matched color and the color {@link Color#nearest} was called on.
+     */
+    distance: number;
+};
+
+/**
+ * The blend modes supported by {@link Color#blend}, following the W3C Compositing and Blending specification.
+ *
+ * - Separable modes work on each channel independently: `normal`, `multiply`, `screen`, `overlay`, `darken`, `lighten`,
+ *   `colorDodge`, `colorBurn`, `hardLight`, `softLight`, `difference`, and `exclusion`.
+ * - Non-separable modes work on the color as a whole: `hue`, `saturation`, `color`, and `luminosity`.
+ *
+ * @see https://www.w3.org/TR/compositing-1/#blending
+ * @category Color
+ */
+export type BlendMode =
+    | "normal"
+    | "multiply"
+    | "screen"
+    | "overlay"
+    | "darken"
+    | "lighten"
+    | "colorDodge"
+    | "colorBurn"
+    | "hardLight"
+    | "softLight"
+    | "difference"
+    | "exclusion"
+    | "hue"
+    | "saturation"
+    | "color"
+    | "luminosity";
+
+/**
+ * The color spaces that {@link Color#mix} can interpolate in.
+ *
+ * - `"rgb"` interpolates the gamma-encoded sRGB channels, which is what most software does.
+ * - `"linearRgb"` interpolates linear-light sRGB channels, which is physically accurate for mixing light.
+ * - `"hsl"` and `"oklch"` interpolate the hue along the shortest arc, keeping mixes of saturated colors saturated.
+ * - `"lab"` and `"oklab"` are perceptually uniform, so the midpoint looks halfway between the two colors.
+ *
+ * @category Color
+ */
+export type ColorMixSpace = "rgb" | "linearRgb" | "hsl" | "lab" | "oklab" | "oklch";
+
+/**
+ * A WCAG 2.x conformance level for contrast. Level AA is the usual target, and AAA is the enhanced level.
+ *
+ * @see https://www.w3.org/TR/WCAG21/#contrast-minimum
+ * @category Color
+ */
+export type ContrastLevel = "AA" | "AAA";
+
+/**
+ * The text size used for WCAG 2.x contrast requirements. Large text is at least 18pt, or 14pt and bold.
+ *
+ * @category Color
+ */
+export type TextSize = "normal" | "large";
+
+/**
+ * A Material Design-style tonal scale, from the lightest tint (50) to the darkest shade (900). The 500 tone is the base color.
+ *
+ * @see https://m2.material.io/design/color/the-color-system.html#color-theme-creation
+ * @category Color
+ */
+export type TonalScale = Record<50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900, Color>;
+
+/**
+ * The color vision deficiencies that {@link Color#simulateColorBlindness} can simulate.
+ *
+ * - `"protanopia"`: No working red cones. With a severity below 1, this simulates protanomaly.
+ * - `"deuteranopia"`: No working green cones, the most common form of color blindness. With a severity below 1, this simulates deuteranomaly.
+ * - `"tritanopia"`: No working blue cones. With a severity below 1, this simulates tritanomaly.
+ * - `"achromatopsia"`: No color vision at all, only lightness. With a severity below 1, this simulates achromatomaly.
+ *
+ * @see https://en.wikipedia.org/wiki/Color_blindness
+ * @category Color
+ */
+export type ColorVisionDeficiency = "protanopia" | "deuteranopia" | "tritanopia" | "achromatopsia";
+
+/**
+ * A pair of palette colors that are hard to tell apart with a color vision deficiency, as found by {@link Color.findIndistinguishablePairs}.
+ *
+ * @template K The type of the keys of the colors in the palette (indices for arrays, names for records).
+ * @category Color
+ */
+export type IndistinguishablePair<K> = {
+    /**
+     * The keys of the two colors in the palette, in palette order.
+     */
+    keys: [K, K];
+    /**
+     * The CIEDE2000 difference between the two colors with normal vision.
+     */
+    originalDistance: number;
+    /**
+     * The CIEDE2000 difference between the two colors as seen with the deficiency.
+     */
+    distance: number;
+};
+
+/**
+ * Options for {@link Color.findIndistinguishablePairs}.
+ *
+ * @category Color
+ */
+export type IndistinguishablePairOptions = {
+    /**
+     * The severity of the deficiency as a number from 0 to 1. Defaults to 1.
+     */
+    severity?: number;
+    /**
+     * The CIEDE2000 difference below which two colors are considered indistinguishable. Defaults to 10,
+     * which flags pairs that are still technically different but too similar to tell apart at a glance (for example in terminal output).
+     */
+    threshold?: number;
+};
+
+/**
+ * The control sequence introducer that starts every SGR escape sequence.
+ */
+const CSI = "\x1b[";
+
+/**
+ * The minimum WCAG 2.x contrast ratios for each level and text size.
+ */
+const WCAG_MINIMUM_CONTRAST = {
+    AA: { normal: 4.5, large: 3 },
+    AAA: { normal: 7, large: 4.5 },
+} as const satisfies Record<ContrastLevel, Record<TextSize, number>>;
 
 /**
  * A color represented by red, green, blue, and alpha values from 0 to 255.
  * Useful for converting between color spaces as well as representing colors in different formats.
  *
+ * Colors are mutable by default, but can be made immutable with {@link Color#freeze}. The built-in constants such as {@link Color.RED} are frozen,
+ * so use the non-mutating methods such as {@link Color#withAlpha} or {@link Color#lighten} to derive new colors from them.
+ *
  * @see https://en.wikipedia.org/wiki/RGBA_color_space
  * @category Color
  */
 export class Color implements Cloneable<Color>, DeepEquals {
-    static readonly RED = new Color(255, 0, 0);
-    static readonly GREEN = new Color(0, 255, 0);
-    static readonly BLUE = new Color(0, 0, 255);
-    static readonly WHITE = new Color(255, 255, 255);
-    static readonly CYAN = new Color(0, 255, 255);
-    static readonly MAGENTA = new Color(255, 0, 255);
-    static readonly YELLOW = new Color(255, 255, 0);
-    static readonly BLACK = new Color(0, 0, 0);
-    static readonly BROWN = new Color(165, 42, 42);
-    static readonly ORANGE = new Color(255, 165, 0);
-    static readonly PINK = new Color(255, 192, 203);
-    static readonly PURPLE = new Color(128, 0, 128);
-    static readonly GRAY = new Color(128, 128, 128);
+    static readonly RED = new Color(255, 0, 0).freeze();
+    static readonly GREEN = new Color(0, 255, 0).freeze();
+    static readonly BLUE = new Color(0, 0, 255).freeze();
+    static readonly WHITE = new Color(255, 255, 255).freeze();
+    static readonly CYAN = new Color(0, 255, 255).freeze();
+    static readonly MAGENTA = new Color(255, 0, 255).freeze();
+    static readonly YELLOW = new Color(255, 255, 0).freeze();
+    static readonly BLACK = new Color(0, 0, 0).freeze();
+    static readonly BROWN = new Color(165, 42, 42).freeze();
+    static readonly ORANGE = new Color(255, 165, 0).freeze();
+    static readonly PINK = new Color(255, 192, 203).freeze();
+    static readonly PURPLE = new Color(128, 0, 128).freeze();
+    static readonly GRAY = new Color(128, 128, 128).freeze();
+    /**
+     * All of the color constants above, keyed by their name. Useful as a palette for {@link Color#nearest}.
+     */
+    static readonly BASIC_COLORS = Object.freeze({
+        RED: Color.RED,
+        GREEN: Color.GREEN,
+        BLUE: Color.BLUE,
+        WHITE: Color.WHITE,
+        CYAN: Color.CYAN,
+        MAGENTA: Color.MAGENTA,
+        YELLOW: Color.YELLOW,
+        BLACK: Color.BLACK,
+        BROWN: Color.BROWN,
+        ORANGE: Color.ORANGE,
+        PINK: Color.PINK,
+        PURPLE: Color.PURPLE,
+        GRAY: Color.GRAY,
+    } as const);
     constructor(
         /**
          * The red value of this color as a number from 0 to 255.
@@ -59,7 +358,32 @@ export class Color implements Cloneable<Color>, DeepEquals {
             return Result.error(new ColorHexParseError(`Invalid hex color: ${hex}`));
         }
         const [, r, g, b, a] = match;
-        return Result.ok(new Color(parseInt(r, 16), parseInt(g, 16), parseInt(b, 16), a ? parseInt(a, 16) : 255));
+        return Result.ok(new Color(parseInt(r, 16), parseInt(g, 16), parseInt(b, 16), a ? parseInt(a, 16) / 255 : 1));
+    }
+    /**
+     * Parses any CSS color value into a color. Supports:
+     *
+     * - Hex colors in all four forms (`#rgb`, `#rgba`, `#rrggbb`, and `#rrggbbaa`).
+     * - The `rgb()`, `rgba()`, `hsl()`, `hsla()`, `hwb()`, `lab()`, `lch()`, `oklab()`, and `oklch()` functions,
+     *   using either the legacy comma-separated syntax or the modern space-separated syntax with an optional `/ alpha`.
+     * - All 148 CSS named colors, as well as `transparent`.
+     *
+     * Colors outside of the sRGB gamut are clipped to the nearest displayable color.
+     *
+     * @example
+     * ```ts
+     * Color.parseCss("#f00").get(); // red
+     * Color.parseCss("rgb(255 0 0 / 50%)").get(); // red with an alpha of 0.5
+     * Color.parseCss("rebeccapurple").get(); // new Color(102, 51, 153)
+     * Color.parseCss("rgb(255, 0 0)").getError().position; // 11
+     * ```
+     *
+     * @see https://developer.mozilla.org/en-US/docs/Web/CSS/color_value
+     * @param css The CSS color string to parse. Case-insensitive.
+     * @returns A Result containing the parsed color, or an error pointing at the offending position in the string.
+     */
+    static parseCss(css: string): Result<Color, ColorCssParseError> {
+        return parseCssColor(css);
     }
     /**
      * Constructs a new color from the specified CMYK values with an optional alpha value.
@@ -137,15 +461,309 @@ export class Color implements Cloneable<Color>, DeepEquals {
         }
         return new Color(rgb(c), rgb(0), rgb(x), alpha);
     }
+    /**
+     * Constructs a new color from the specified CIE XYZ values (D65 white point) with an optional alpha value.
+     * Colors outside of the sRGB gamut are clipped to the nearest displayable color.
+     *
+     * @see https://en.wikipedia.org/wiki/CIE_1931_color_space
+     * @param x     The X value of the color, where the white point is 0.95047.
+     * @param y     The Y (luminance) value of the color as a number from 0 to 1.
+     * @param z     The Z value of the color, where the white point is 1.08883.
+     * @param alpha The alpha value of the color as a number from 0 to 1.
+     */
+    static fromXYZ(x: number, y: number, z: number, alpha = 1): Color {
+        return Color.#fromLinear(xyzToLinear([x, y, z]), alpha);
+    }
+    /**
+     * Constructs a new color from the specified CIELAB values (D65 white point) with an optional alpha value.
+     * Colors outside of the sRGB gamut are clipped to the nearest displayable color.
+     *
+     * @see https://en.wikipedia.org/wiki/CIELAB_color_space
+     * @param lightness The lightness value of the color as a number from 0 to 100.
+     * @param a         The green-red axis value of the color, usually between -128 and 127.
+     * @param b         The blue-yellow axis value of the color, usually between -128 and 127.
+     * @param alpha     The alpha value of the color as a number from 0 to 1.
+     */
+    static fromLab(lightness: number, a: number, b: number, alpha = 1): Color {
+        return Color.fromXYZ(...labToXyz([lightness, a, b]), alpha);
+    }
+    /**
+     * Constructs a new color from the specified CIE LCh values with an optional alpha value.
+     * Colors outside of the sRGB gamut are clipped to the nearest displayable color.
+     *
+     * @see https://en.wikipedia.org/wiki/CIELAB_color_space#Cylindrical_model
+     * @param lightness The lightness value of the color as a number from 0 to 100.
+     * @param chroma    The chroma value of the color, usually between 0 and 150.
+     * @param hue       The hue value of the color as a number from 0 to 360.
+     * @param alpha     The alpha value of the color as a number from 0 to 1.
+     */
+    static fromLCh(lightness: number, chroma: number, hue: number, alpha = 1): Color {
+        return Color.fromLab(...polarToRectangular([lightness, chroma, hue]), alpha);
+    }
+    /**
+     * Constructs a new color from the specified OKLab values with an optional alpha value.
+     * Colors outside of the sRGB gamut are clipped to the nearest displayable color.
+     *
+     * @see https://bottosson.github.io/posts/oklab/
+     * @param lightness The lightness value of the color as a number from 0 to 1.
+     * @param a         The green-red axis value of the color, usually between -0.4 and 0.4.
+     * @param b         The blue-yellow axis value of the color, usually between -0.4 and 0.4.
+     * @param alpha     The alpha value of the color as a number from 0 to 1.
+     */
+    static fromOKLab(lightness: number, a: number, b: number, alpha = 1): Color {
+        return Color.#fromLinear(oklabToLinear([lightness, a, b]), alpha);
+    }
+    /**
+     * Constructs a new color from the specified OKLCh values with an optional alpha value.
+     * Colors outside of the sRGB gamut are clipped to the nearest displayable color.
+     *
+     * @see https://bottosson.github.io/posts/oklab/
+     * @param lightness The lightness value of the color as a number from 0 to 1.
+     * @param chroma    The chroma value of the color, usually between 0 and 0.4.
+     * @param hue       The hue value of the color as a number from 0 to 360.
+     * @param alpha     The alpha value of the color as a number from 0 to 1.
+     */
+    static fromOKLCh(lightness: number, chroma: number, hue: number, alpha = 1): Color {
+        return Color.fromOKLab(...polarToRectangular([lightness, chroma, hue]), alpha);
+    }
+    /**
+     * Like {@link fromOKLCh}, but reduces the chroma until the color fits in the sRGB gamut instead of clipping each channel.
+     * This keeps the lightness and hue intact, whereas clipping can shift them noticeably.
+     */
+    static #fromOKLChInGamut(lightness: number, chroma: number, hue: number, alpha: number): Color {
+        const toLinear = (c: number): Vector3 => oklabToLinear(polarToRectangular([lightness, c, hue]));
+        if (isLinearInGamut(toLinear(chroma))) {
+            return Color.#fromLinear(toLinear(chroma), alpha);
+        }
+        let low = 0;
+        let high = chroma;
+        for (let i = 0; i < 20; i++) {
+            const middle = (low + high) / 2;
+            if (isLinearInGamut(toLinear(middle))) {
+                low = middle;
+            } else {
+                high = middle;
+            }
+        }
+        return Color.#fromLinear(toLinear(low), alpha);
+    }
+    static #fromLinear(linear: Vector3, alpha: number): Color {
+        return new Color(...linearToRgb(linear), alpha);
+    }
+    /**
+     * Constructs a new color from an index in the xterm 256-color palette.
+     * Indices 0 to 15 are the basic colors (see {@link fromAnsi16}), 16 to 231 are a 6x6x6 color cube, and 232 to 255 are a grayscale ramp.
+     *
+     * @see https://en.wikipedia.org/wiki/ANSI_escape_code#8-bit
+     * @param index The palette index as an integer from 0 to 255.
+     * @throws {RangeError} If the index is not an integer from 0 to 255.
+     */
+    static fromAnsi256(index: number): Color {
+        if (!Number.isInteger(index) || index < 0 || index > 255) {
+            throw new RangeError(`Invalid xterm 256-color index: ${index}`);
+        }
+        return new Color(...ansi256ToRgb(index));
+    }
+    /**
+     * Constructs a new color from one of the 16 basic terminal colors, using the default xterm values.
+     * Indices 0 to 7 are black, red, green, yellow, blue, magenta, cyan, and white, and 8 to 15 are their bright variants.
+     * Keep in mind that most terminals let users change these colors.
+     *
+     * @see https://en.wikipedia.org/wiki/ANSI_escape_code#3-bit_and_4-bit
+     * @param index The color index as an integer from 0 to 15.
+     * @throws {RangeError} If the index is not an integer from 0 to 15.
+     */
+    static fromAnsi16(index: number): Color {
+        if (!Number.isInteger(index) || index < 0 || index > 15) {
+            throw new RangeError(`Invalid basic terminal color index: ${index}`);
+        }
+        return new Color(...ansi256ToRgb(index));
+    }
+    /**
+     * Parses an SGR color code back into a color. This is the reverse of {@link toAnsiForeground} and {@link toAnsiBackground}, and supports:
+     *
+     * - The basic foreground and background colors (`30`-`37`, `40`-`47`, `90`-`97`, and `100`-`107`).
+     * - 256-color codes (`38;5;n`, `48;5;n`, and `58;5;n`).
+     * - 24-bit codes (`38;2;r;g;b`, `48;2;r;g;b`, and `58;2;r;g;b`).
+     *
+     * @example
+     * ```ts
+     * Color.parseAnsi("\x1b[38;2;255;0;0m").get(); // red
+     * Color.parseAnsi("38;5;196").get(); // red
+     * Color.parseAnsi(31).get(); // new Color(205, 0, 0)
+     * ```
+     *
+     * @param code A full escape sequence such as `"\x1b[31m"`, just its parameters (`"31"`), or a single parameter as a number.
+     * @returns A Result containing the parsed color or an error.
+     */
+    static parseAnsi(code: string | number): Result<Color, ColorAnsiParseError> {
+        const text = String(code);
+        const parameters = /^(\d+(?:;\d+)*)m?$/
+            .exec(text.startsWith(CSI) ? text.slice(CSI.length) : text)?.[1]
+            .split(";")
+            .map(Number);
+        if (parameters !== undefined) {
+            const [kind, mode, ...values] = parameters;
+            const basic = sgrToAnsi16(kind);
+            if (parameters.length === 1 && basic !== undefined) {
+                return Result.ok(Color.fromAnsi16(basic));
+            }
+            const isByte = (value: number): boolean => value <= 255;
+            if ([38, 48, 58].includes(kind)) {
+                if (mode === 5 && values.length === 1 && isByte(values[0])) {
+                    return Result.ok(Color.fromAnsi256(values[0]));
+                }
+                if (mode === 2 && values.length === 3 && values.every(isByte)) {
+                    return Result.ok(new Color(values[0], values[1], values[2]));
+                }
+            }
+        }
+        return Result.error(new ColorAnsiParseError(`Invalid ANSI color code: ${JSON.stringify(String(code))}`));
+    }
     equals(other: unknown): boolean {
         if (!(other instanceof Color)) {
             return false;
         }
         return this.red === other.red && this.green === other.green && this.blue === other.blue && this.alpha === other.alpha;
     }
+    /**
+     * Returns a mutable copy of this color, even if this color is frozen.
+     */
     deepClone(): Color {
         return new Color(this.red, this.green, this.blue, this.alpha);
     }
+    /**
+     * Freezes this color so that it can no longer be changed. The setters such as {@link setRed} throw a {@link ColorFrozenError},
+     * and assigning to the fields directly throws a `TypeError`. This cannot be undone, but {@link deepClone} returns a mutable copy.
+     *
+     * @example
+     * ```ts
+     * const brand = new Color(255, 102, 0).freeze();
+     * brand.setAlpha(0.5); // throws ColorFrozenError
+     * brand.withAlpha(0.5); // a new color
+     * ```
+     *
+     * @returns The object itself, for method chaining.
+     */
+    freeze(): this {
+        return Object.freeze(this);
+    }
+    /**
+     * Returns whether this color was frozen with {@link freeze}.
+     */
+    isFrozen(): boolean {
+        return Object.isFrozen(this);
+    }
+    /**
+     * Composites this color on top of a backdrop color using the source-over operator, taking both alpha values into account.
+     * Equivalent to `this.blend(backdrop, "normal")`.
+     *
+     * @example
+     * ```ts
+     * new Color(255, 0, 0, 0.5).over(Color.WHITE); // new Color(255, 128, 128)
+     * ```
+     *
+     * @see https://www.w3.org/TR/compositing-1/#porterduffcompositingoperators_srcover
+     * @param backdrop The color underneath this color.
+     */
+    over(backdrop: Color): Color {
+        return this.blend(backdrop, "normal");
+    }
+    /**
+     * Blends this color on top of a backdrop color with a blend mode, and composites the result using the source-over operator.
+     * Blending happens on the gamma-encoded channels, just like in CSS and most image editors.
+     *
+     * @example
+     * ```ts
+     * Color.RED.blend(Color.BLUE, "screen"); // Color.MAGENTA
+     * new Color(128, 128, 128).blend(Color.ORANGE, "multiply"); // new Color(128, 83, 0)
+     * ```
+     *
+     * @see https://www.w3.org/TR/compositing-1/#blending
+     * @param backdrop The color underneath this color.
+     * @param mode     The blend mode to use. Defaults to `"normal"`.
+     */
+    blend(backdrop: Color, mode: BlendMode = "normal"): Color {
+        const alpha = this.alpha + backdrop.alpha * (1 - this.alpha);
+        if (alpha === 0) {
+            return new Color(0, 0, 0, 0);
+        }
+        const source: Vector3 = [this.red / 255, this.green / 255, this.blue / 255];
+        const back: Vector3 = [backdrop.red / 255, backdrop.green / 255, backdrop.blue / 255];
+        const blended = blendChannels(mode, back, source);
+        const channel = (index: number): number => {
+            const composited =
+                this.alpha * (1 - backdrop.alpha) * source[index] +
+                this.alpha * backdrop.alpha * blended[index] +
+                (1 - this.alpha) * backdrop.alpha * back[index];
+            return Math.round(Math.min(Math.max(composited / alpha, 0), 1) * 255);
+        };
+        return new Color(channel(0), channel(1), channel(2), alpha);
+    }
+    /**
+     * Mixes this color with another color by interpolating between them in a color space.
+     * The alpha values are interpolated linearly.
+     *
+     * @example
+     * ```ts
+     * Color.RED.mix(Color.BLUE); // new Color(128, 0, 128)
+     * Color.RED.mix(Color.BLUE, 0.5, "hsl"); // new Color(255, 0, 255)
+     * Color.BLACK.mix(Color.WHITE, 0.25, "oklab"); // new Color(34, 34, 34)
+     * ```
+     *
+     * @param other The color to mix with.
+     * @param ratio How much of the other color to use, as a number from 0 (only this color) to 1 (only the other color). Defaults to 0.5.
+     * @param space The color space to interpolate in. Defaults to `"rgb"`.
+     */
+    mix(other: Color, ratio = 0.5, space: ColorMixSpace = "rgb"): Color {
+        const lerp = (from: number, to: number): number => from + (to - from) * ratio;
+        // Hues are interpolated along the shortest arc. Achromatic colors have no meaningful hue, so the other color's hue is used instead.
+        const lerpHue = (from: number, to: number, fromIsAchromatic: boolean, toIsAchromatic: boolean): number => {
+            if (fromIsAchromatic) {
+                return to;
+            }
+            if (toIsAchromatic) {
+                return from;
+            }
+            const difference = ((((to - from) % 360) + 540) % 360) - 180;
+            return normalizeHue(from + difference * ratio);
+        };
+        const alpha = lerp(this.alpha, other.alpha);
+        switch (space) {
+            case "rgb":
+                return new Color(
+                    Math.round(lerp(this.red, other.red)),
+                    Math.round(lerp(this.green, other.green)),
+                    Math.round(lerp(this.blue, other.blue)),
+                    alpha,
+                );
+            case "linearRgb": {
+                const from = this.#toLinear();
+                const to = other.#toLinear();
+                return Color.#fromLinear([lerp(from[0], to[0]), lerp(from[1], to[1]), lerp(from[2], to[2])], alpha);
+            }
+            case "hsl": {
+                const hue = lerpHue(normalizeHue(this.hue), normalizeHue(other.hue), this.delta === 0, other.delta === 0);
+                return Color.fromHSL(hue, lerp(this.hslSaturation, other.hslSaturation), lerp(this.lightness, other.lightness), alpha);
+            }
+            case "lab": {
+                const from = this.toLab();
+                const to = other.toLab();
+                return Color.fromLab(lerp(from.l, to.l), lerp(from.a, to.a), lerp(from.b, to.b), alpha);
+            }
+            case "oklab": {
+                const from = this.toOKLab();
+                const to = other.toOKLab();
+                return Color.fromOKLab(lerp(from.l, to.l), lerp(from.a, to.a), lerp(from.b, to.b), alpha);
+            }
+            case "oklch": {
+                const from = this.toOKLCh();
+                const to = other.toOKLCh();
+                const hue = lerpHue(from.h, to.h, from.c < ACHROMATIC_THRESHOLD, to.c < ACHROMATIC_THRESHOLD);
+                return Color.fromOKLCh(lerp(from.l, to.l), lerp(from.c, to.c), hue, alpha);
+            }
+        }
+    }
     /**
      * Returns the color as a hex string, optionally including the alpha value.
      *
@@ -153,16 +771,474 @@ export class Color implements Cloneable<Color>, DeepEquals {
      */
     toHex(supportsAlpha = false): string {
         const hex = (n: number): string => n.toString(16).padStart(2, "0");
-        return `#${hex(this.red)}${hex(this.green)}${hex(this.blue)}${supportsAlpha ? hex(this.alpha) : ""}`;
+        return `#${hex(this.red)}${hex(this.green)}${hex(this.blue)}${supportsAlpha ? hex(Math.round(this.alpha * 255)) : ""}`;
     }
     /**
      * Returns the color as a CSS string, including the alpha value.
-     * Format is `rgba(r, g, b, a)`.
+     * By default, the format is `rgba(r, g, b, a)`. Other formats use the modern space-separated syntax, and only include the alpha value if it is not 1.
+     * The output of every format can be parsed back with {@link Color.parseCss}.
      *
-     * @see https://developer.mozilla.org/en-US/docs/Web/CSS/color_value#rgb()_and_rgba()
+     * @example
+     * ```ts
+     * Color.RED.toCss(); // "rgba(255, 0, 0, 1)"
+     * Color.RED.toCss("hsl"); // "hsl(0 100% 50%)"
+     * new Color(255, 0, 0, 0.5).toCss("oklch"); // "oklch(0.62796 0.25768 29.234 / 0.5)"
+     * ```
+     *
+     * @see https://developer.mozilla.org/en-US/docs/Web/CSS/color_value
+     * @param format The format to output. Defaults to `"rgba"`.
+     */
+    toCss(format: CssColorFormat = "rgba"): string {
+        const round = (n: number, digits: number): number => Number(n.toFixed(digits));
+        const alpha = this.alpha === 1 ? "" : ` / ${round(this.alpha, 3)}`;
+        switch (format) {
+            case "rgba":
+                return `rgba(${this.red}, ${this.green}, ${this.blue}, ${this.alpha})`;
+            case "rgb":
+                return `rgb(${this.red} ${this.green} ${this.blue}${alpha})`;
+            case "hex":
+                return this.toHex(this.alpha !== 1);
+            case "hsl":
+                return `hsl(${round(normalizeHue(this.hue), 2)} ${round(this.hslSaturation * 100, 2)}% ${round(this.lightness * 100, 2)}%${alpha})`;
+            case "hwb":
+                return `hwb(${round(normalizeHue(this.hue), 2)} ${round(this.cMin * 100, 2)}% ${round((1 - this.cMax) * 100, 2)}%${alpha})`;
+            case "lab": {
+                const { l, a, b } = this.toLab();
+                return `lab(${round(l, 2)} ${round(a, 2)} ${round(b, 2)}${alpha})`;
+            }
+            case "oklch": {
+                const { l, c, h } = this.toOKLCh();
+                return `oklch(${round(l, 5)} ${round(c, 5)} ${round(h, 3)}${alpha})`;
+            }
+        }
+    }
+    /**
+     * Converts the color to the CIE XYZ color space (D65 white point), removing the sRGB gamma first.
+     *
+     * @see https://en.wikipedia.org/wiki/CIE_1931_color_space
+     */
+    toXYZ(): XYZColor {
+        const [x, y, z] = linearToXyz(this.#toLinear());
+        return { x, y, z };
+    }
+    /**
+     * Converts the color to the CIELAB color space (D65 white point).
+     *
+     * @see https://en.wikipedia.org/wiki/CIELAB_color_space
+     */
+    toLab(): LabColor {
+        const { x, y, z } = this.toXYZ();
+        const [l, a, b] = xyzToLab([x, y, z]);
+        return { l, a, b };
+    }
+    /**
+     * Converts the color to the CIE LCh color space. Achromatic colors have a hue of 0.
+     *
+     * @see https://en.wikipedia.org/wiki/CIELAB_color_space#Cylindrical_model
+     */
+    toLCh(): LChColor {
+        const { l, a, b } = this.toLab();
+        const [, c, h] = rectangularToPolar([l, a, b]);
+        return { l, c, h };
+    }
+    /**
+     * Converts the color to the OKLab color space.
+     *
+     * @see https://bottosson.github.io/posts/oklab/
+     */
+    toOKLab(): OKLabColor {
+        const [l, a, b] = linearToOklab(this.#toLinear());
+        return { l, a, b };
+    }
+    /**
+     * Converts the color to the OKLCh color space. Achromatic colors have a hue of 0.
+     *
+     * @see https://bottosson.github.io/posts/oklab/
+     */
+    toOKLCh(): OKLChColor {
+        const { l, a, b } = this.toOKLab();
+        const [, c, h] = rectangularToPolar([l, a, b]);
+        return { l, c, h };
+    }
+    /**
+     * Calculates the perceptual difference (Delta E) between this color and another color. Alpha values are ignored.
+     * A difference of around 2.3 is generally considered to be the smallest noticeable difference.
+     *
+     * @example
+     * ```ts
+     * Color.RED.deltaE(Color.RED); // 0
+     * Color.RED.deltaE(Color.ORANGE, "CIE76"); // ~61.3
+     * ```
+     *
+     * @see https://en.wikipedia.org/wiki/Color_difference
+     * @param other  The color to compare to.
+     * @param method The formula to use. Defaults to `"CIEDE2000"`.
+     */
+    deltaE(other: Color, method: DeltaEMethod = "CIEDE2000"): number {
+        const { l: l1, a: a1, b: b1 } = this.toLab();
+        const { l: l2, a: a2, b: b2 } = other.toLab();
+        const formula = method === "CIE76" ? deltaE76 : method === "CIE94" ? deltaE94 : deltaE2000;
+        return formula([l1, a1, b1], [l2, a2, b2]);
+    }
+    /**
+     * Finds the color in a palette that is perceptually closest to this color.
+     * The palette can either be an array of colors or a record of named colors.
+     *
+     * @example
+     * ```ts
+     * new Color(250, 10, 20).nearest(Color.BASIC_COLORS).get(); // { key: "RED", color: Color.RED, distance: ~2.17 }
+     * new Color(250, 10, 20).nearest([Color.BLUE, Color.RED]).get().key; // 1
+     * ```
+     *
+     * @param palette The colors to search through.
+     * @param method  The Delta E formula to use. Defaults to `"CIEDE2000"`.
+     * @returns An Optional containing the closest color, or an empty Optional if the palette is empty.
+     */
+    nearest(palette: readonly Color[], method?: DeltaEMethod): Optional<NearestColor<number>>;
+    nearest<K extends string>(palette: Readonly<Record<K, Color>>, method?: DeltaEMethod): Optional<NearestColor<K>>;
+    nearest(
+        palette: readonly Color[] | Readonly<Record<string, Color>>,
+        method: DeltaEMethod = "CIEDE2000",
+    ): Optional<NearestColor<number | string>> {
+        const entries: [number | string, Color][] = Array.isArray(palette) ? palette.map((color, index) => [index, color]) : Object.entries(palette);
+        let nearest: NearestColor<number | string> | undefined = undefined;
+        for (const [key, color] of entries) {
+            const distance = this.deltaE(color, method);
+            if (nearest === undefined || distance < nearest.distance) {
+                nearest = { key, color, distance };
+            }
+        }
+        return Optional.of(nearest);
+    }
+    /**
+     * Calculates the WCAG 2.x contrast ratio between this color and another color, from 1 (no contrast) to 21 (black on white).
+     * The order of the colors does not matter. Alpha values are ignored, so composite translucent colors with {@link over} first.
+     *
+     * @example
+     * ```ts
+     * Color.BLACK.contrastRatio(Color.WHITE); // 21
+     * Color.RED.contrastRatio(Color.WHITE); // ~4
+     * ```
+     *
+     * @see https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio
+     * @param other The color to compare to.
+     */
+    contrastRatio(other: Color): number {
+        const lighter = Math.max(this.luminance, other.luminance);
+        const darker = Math.min(this.luminance, other.luminance);
+        return (lighter + 0.05) / (darker + 0.05);
+    }
+    /**
+     * Checks whether this color, used as text, has enough contrast against a background to pass a WCAG 2.x conformance level.
+     *
+     * | Level | Normal text | Large text |
+     * | ----- | ----------- | ---------- |
+     * | AA    | 4.5:1       | 3:1        |
+     * | AAA   | 7:1         | 4.5:1      |
+     *
+     * @see https://www.w3.org/TR/WCAG21/#contrast-minimum
+     * @param background The background color.
+     * @param level      The conformance level to check. Defaults to `"AA"`.
+     * @param size       The size of the text. Defaults to `"normal"`.
+     */
+    meetsContrast(background: Color, level: ContrastLevel = "AA", size: TextSize = "normal"): boolean {
+        return this.contrastRatio(background) >= WCAG_MINIMUM_CONTRAST[level][size];
+    }
+    /**
+     * Calculates the APCA lightness contrast (Lc) of this color used as text on a background.
+     * Unlike the WCAG 2.x contrast ratio, APCA depends on which color is the text: the result is positive for dark text on a light background and negative for light text on a dark background.
+     * As a rough guide, an absolute value of 75 is needed for body text, 60 for content text, and 45 for large headlines.
+     * Alpha values are ignored.
+     *
+     * @example
+     * ```ts
+     * Color.BLACK.apcaContrast(Color.WHITE); // ~106.04
+     * Color.WHITE.apcaContrast(Color.BLACK); // ~-107.88
+     * ```
+     *
+     * @see https://github.com/Myndex/SAPC-APCA
+     * @param background The background color.
+     */
+    apcaContrast(background: Color): number {
+        // Constants from APCA-W3 0.0.98G-4g
+        const screenLuminance = ({ red, green, blue }: Color): number => {
+            const y = 0.2126729 * (red / 255) ** 2.4 + 0.7151522 * (green / 255) ** 2.4 + 0.072175 * (blue / 255) ** 2.4;
+            return y < 0.022 ? y + (0.022 - y) ** 1.414 : y;
+        };
+        const text = screenLuminance(this);
+        const back = screenLuminance(background);
+        if (Math.abs(back - text) < 0.0005) {
+            return 0;
+        }
+        if (back > text) {
+            const contrast = (back ** 0.56 - text ** 0.57) * 1.14;
+            return contrast < 0.1 ? 0 : (contrast - 0.027) * 100;
+        }
+        const contrast = (back ** 0.65 - text ** 0.62) * 1.14;
+        return contrast > -0.1 ? 0 : (contrast + 0.027) * 100;
+    }
+    /**
+     * Returns a new color with the lightness of this color adjusted as little as possible so that it reaches a WCAG 2.x contrast ratio against a background.
+     * The lightness is changed in the OKLCh color space, so the hue stays the same. The chroma is reduced if needed to stay within the sRGB gamut. If this color already has enough contrast, an identical copy is returned.
+     * If the target cannot be reached in either direction, the color with the highest possible contrast is returned.
+     *
+     * @example
+     * ```ts
+     * const text = Color.ORANGE.ensureContrast(Color.WHITE); // a darker orange
+     * text.meetsContrast(Color.WHITE); // true
+     * ```
+     *
+     * @param background    The background color.
+     * @param minimumRatio  The contrast ratio to reach. Defaults to 4.5, which is level AA for normal text.
+     */
+    ensureContrast(background: Color, minimumRatio: number = WCAG_MINIMUM_CONTRAST.AA.normal): Color {
+        if (this.contrastRatio(background) >= minimumRatio) {
+            return this.deepClone();
+        }
+        const { l, c, h } = this.toOKLCh();
+        const withLightness = (lightness: number): Color => Color.#fromOKLChInGamut(lightness, c, h, this.alpha);
+        // Moving away from the background's luminance only increases the contrast, so each direction can be binary searched.
+        const search = (lighter: boolean): Color | undefined => {
+            const satisfies = (lightness: number): boolean => {
+                const candidate = withLightness(lightness);
+                const isOnCorrectSide = lighter ? candidate.luminance >= background.luminance : candidate.luminance <= background.luminance;
+                return isOnCorrectSide && candidate.contrastRatio(background) >= minimumRatio;
+            };
+            let low = lighter ? l : 0;
+            let high = lighter ? 1 : l;
+            if (!satisfies(lighter ? high : low)) {
+                return undefined;
+            }
+            for (let i = 0; i < 32; i++) {
+                const middle = (low + high) / 2;
+                if (satisfies(middle) === lighter) {
+                    high = middle;
+                } else {
+                    low = middle;
+                }
+            }
+            return withLightness(lighter ? high : low);
+        };
+        const candidates = [search(true), search(false)].filter((candidate): candidate is Color => candidate !== undefined);
+        if (candidates.length === 0) {
+            const white = withLightness(1);
+            const black = withLightness(0);
+            return white.contrastRatio(background) >= black.contrastRatio(background) ? white : black;
+        }
+        return candidates.reduce((best, candidate) => (Math.abs(candidate.toOKLCh().l - l) < Math.abs(best.toOKLCh().l - l) ? candidate : best));
+    }
+    /**
+     * Returns the complementary color, which is on the opposite side of the color wheel (rotated by 180 degrees in HSL).
+     *
+     * @example
+     * ```ts
+     * Color.RED.complementary(); // Color.CYAN
+     * ```
+     */
+    complementary(): Color {
+        return this.#rotateHSLHue(180);
+    }
+    /**
+     * Returns a palette of analogous colors, which are next to each other on the color wheel, centered on this color.
+     *
+     * @example
+     * ```ts
+     * Color.RED.analogous(); // [new Color(255, 0, 128), Color.RED, new Color(255, 128, 0)]
+     * ```
+     *
+     * @param count The number of colors in the palette, including this color. Defaults to 3.
+     * @param angle The hue difference between neighbouring colors in degrees. Defaults to 30.
+     */
+    analogous(count = 3, angle = 30): Color[] {
+        const start = -((count - 1) / 2) * angle;
+        return Array.from({ length: count }, (_, index) => this.#rotateHSLHue(start + index * angle));
+    }
+    /**
+     * Returns a palette of three colors evenly spaced around the color wheel, starting with this color.
+     *
+     * @example
+     * ```ts
+     * Color.RED.triadic(); // [Color.RED, Color.GREEN, Color.BLUE]
+     * ```
+     */
+    triadic(): Color[] {
+        return [0, 120, 240].map((degrees) => this.#rotateHSLHue(degrees));
+    }
+    /**
+     * Returns a palette of four colors evenly spaced around the color wheel (also known as a square palette), starting with this color.
+     *
+     * @example
+     * ```ts
+     * Color.RED.tetradic(); // [Color.RED, new Color(128, 255, 0), Color.CYAN, new Color(128, 0, 255)]
+     * ```
+     */
+    tetradic(): Color[] {
+        return [0, 90, 180, 270].map((degrees) => this.#rotateHSLHue(degrees));
+    }
+    /**
+     * Returns a palette of this color and the two colors on either side of its complementary color.
+     *
+     * @example
+     * ```ts
+     * Color.RED.splitComplementary(); // [Color.RED, new Color(0, 255, 128), new Color(0, 128, 255)]
+     * ```
+     *
+     * @param angle The hue difference between the complementary color and the two returned colors in degrees. Defaults to 30.
+     */
+    splitComplementary(angle = 30): Color[] {
+        return [0, 180 - angle, 180 + angle].map((degrees) => this.#rotateHSLHue(degrees));
+    }
+    /**
+     * Returns progressively lighter versions of this color, made by increasing the HSL lightness towards white.
+     * Neither this color nor pure white are included.
+     *
+     * @param count The number of tints to return. Defaults to 5.
+     */
+    tints(count = 5): Color[] {
+        return Array.from({ length: count }, (_, index) =>
+            this.#withHSLLightness(this.lightness + (1 - this.lightness) * ((index + 1) / (count + 1))),
+        );
+    }
+    /**
+     * Returns progressively darker versions of this color, made by decreasing the HSL lightness towards black.
+     * Neither this color nor pure black are included.
+     *
+     * @param count The number of shades to return. Defaults to 5.
      */
-    toCss(): string {
-        return `rgba(${this.red}, ${this.green}, ${this.blue}, ${this.alpha})`;
+    shades(count = 5): Color[] {
+        return Array.from({ length: count }, (_, index) => this.#withHSLLightness(this.lightness * (1 - (index + 1) / (count + 1))));
+    }
+    /**
+     * Returns progressively grayer versions of this color, made by decreasing the HSL saturation towards gray.
+     * Neither this color nor the fully desaturated gray are included.
+     *
+     * @param count The number of tones to return. Defaults to 5.
+     */
+    tones(count = 5): Color[] {
+        return Array.from({ length: count }, (_, index) =>
+            Color.fromHSL(normalizeHue(this.hue), this.hslSaturation * (1 - (index + 1) / (count + 1)), this.lightness, this.alpha),
+        );
+    }
+    /**
+     * Generates a Material Design-style tonal scale from this color.
+     * The 500 tone is a copy of this color; lighter tones move the HSL lightness towards white and darker tones move it towards black.
+     *
+     * @example
+     * ```ts
+     * const scale = Color.PURPLE.tonalScale();
+     * scale[500]; // Color.PURPLE
+     * scale[50]; // a very light purple, for backgrounds
+     * scale[900]; // a very dark purple
+     * ```
+     */
+    tonalScale(): TonalScale {
+        const tint = (ratio: number): Color => this.#withHSLLightness(this.lightness + (1 - this.lightness) * ratio);
+        const shade = (ratio: number): Color => this.#withHSLLightness(this.lightness * (1 - ratio));
+        return {
+            50: tint(0.9),
+            100: tint(0.75),
+            200: tint(0.55),
+            300: tint(0.35),
+            400: tint(0.15),
+            500: this.deepClone(),
+            600: shade(0.15),
+            700: shade(0.3),
+            800: shade(0.45),
+            900: shade(0.6),
+        };
+    }
+    /**
+     * Simulates how this color appears to someone with a color vision deficiency, using the model by Machado, Oliveira, and Fernandes (2009).
+     * The alpha value is kept.
+     *
+     * @example
+     * ```ts
+     * Color.RED.simulateColorBlindness("protanopia"); // a dark olive
+     * Color.RED.simulateColorBlindness("deuteranopia", 0.5); // deuteranomaly
+     * ```
+     *
+     * @see https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html
+     * @param deficiency The color vision deficiency to simulate.
+     * @param severity   The severity of the deficiency as a number from 0 (normal vision) to 1 (complete deficiency).
+     *                   Severities in between simulate anomalous trichromacy by interpolating towards normal vision.
+     * @returns A new color.
+     */
+    simulateColorBlindness(deficiency: ColorVisionDeficiency, severity = 1): Color {
+        return Color.#fromLinear(simulateDeficiency(deficiency, severity, this.#toLinear()), this.alpha);
+    }
+    /**
+     * Adjusts this color so that it stays distinguishable for someone with a color vision deficiency, using Fidaner's daltonization algorithm.
+     * The information that is lost in the simulated color is shifted into channels that can still be seen.
+     * Daltonizing for achromatopsia has no effect, since there are no channels left to shift into.
+     *
+     * @see https://daltonize.org/
+     * @param deficiency The color vision deficiency to correct for.
+     * @param severity   The severity of the deficiency as a number from 0 to 1.
+     * @returns A new color.
+     */
+    daltonize(deficiency: ColorVisionDeficiency, severity = 1): Color {
+        if (deficiency === "achromatopsia") {
+            return this.deepClone();
+        }
+        const original: Vector3 = [this.red / 255, this.green / 255, this.blue / 255];
+        const simulated = simulateDeficiency(deficiency, severity, this.#toLinear()).map(linearToSrgb) as Vector3;
+        const correction = daltonizeCorrection(deficiency, [0, 1, 2].map((i) => original[i] - simulated[i]) as Vector3);
+        const channel = (i: number): number => Math.round(255 * Math.min(Math.max(original[i] + correction[i], 0), 1));
+        return new Color(channel(0), channel(1), channel(2), this.alpha);
+    }
+    /**
+     * Finds the pairs of colors in a palette that are distinguishable with normal vision, but become hard to tell apart with a color vision deficiency.
+     * Useful for checking themes and terminal palettes for accessibility.
+     *
+     * @example
+     * ```ts
+     * const theme = { error: new Color(220, 50, 47), success: new Color(133, 153, 0), warning: new Color(181, 137, 0), info: new Color(38, 139, 210) };
+     * Color.findIndistinguishablePairs(theme, "deuteranopia").map((pair) => pair.keys);
+     * // [["success", "warning"], ["error", "success"], ["error", "warning"]]
+     * ```
+     *
+     * @param palette    The colors to check.
+     * @param deficiency The color vision deficiency to check for.
+     * @param options    Options for the check.
+     * @returns The pairs that become indistinguishable, sorted from the hardest to distinguish to the easiest.
+     */
+    static findIndistinguishablePairs(
+        palette: readonly Color[],
+        deficiency: ColorVisionDeficiency,
+        options?: IndistinguishablePairOptions,
+    ): IndistinguishablePair<number>[];
+    static findIndistinguishablePairs<K extends string>(
+        palette: Readonly<Record<K, Color>>,
+        deficiency: ColorVisionDeficiency,
+        options?: IndistinguishablePairOptions,
+    ): IndistinguishablePair<K>[];
+    static findIndistinguishablePairs(
+        palette: readonly Color[] | Readonly<Record<string, Color>>,
+        deficiency: ColorVisionDeficiency,
+        { severity = 1, threshold = 10 }: IndistinguishablePairOptions = {},
+    ): IndistinguishablePair<number | string>[] {
+        const entries: [number | string, Color][] = Array.isArray(palette) ? palette.map((color, index) => [index, color]) : Object.entries(palette);
+        const simulated = entries.map(([, color]) => color.simulateColorBlindness(deficiency, severity));
+        const pairs: IndistinguishablePair<number | string>[] = [];
+        for (let i = 0; i < entries.length; i++) {
+            for (let j = i + 1; j < entries.length; j++) {
+                const originalDistance = entries[i][1].deltaE(entries[j][1]);
+                const distance = simulated[i].deltaE(simulated[j]);
+                if (originalDistance >= threshold && distance < threshold) {
+                    pairs.push({ keys: [entries[i][0], entries[j][0]], originalDistance, distance });
+                }
+            }
+        }
+        return pairs.sort((a, b) => a.distance - b.distance);
+    }
+    #rotateHSLHue(degrees: number): Color {
+        return Color.fromHSL(normalizeHue(this.hue + degrees), this.hslSaturation, this.lightness, this.alpha);
+    }
+    #withHSLLightness(lightness: number): Color {
+        return Color.fromHSL(normalizeHue(this.hue), this.hslSaturation, lightness, this.alpha);
+    }
+    #toLinear(): Vector3 {
+        return rgbToLinear([this.red, this.green, this.blue]);
     }
     /**
      * @deprecated Use {@link toAnsiForeground} instead.
@@ -177,27 +1253,72 @@ export class Color implements Cloneable<Color>, DeepEquals {
     }
     /**
      * Returns the color as an ANSI foreground color code, stripping the alpha value.
+     * Terminals that do not support 24-bit colors display these codes incorrectly, so pass a lower color depth (or `"auto"`) for those.
+     *
+     * @example
+     * ```ts
+     * Color.ORANGE.toAnsiForeground(); // "\x1b[38;2;255;165;0m"
+     * Color.ORANGE.toAnsiForeground("ansi256"); // "\x1b[38;5;214m"
+     * Color.ORANGE.toAnsiForeground("ansi16"); // "\x1b[33m"
+     * Color.ORANGE.toAnsiForeground("none"); // ""
+     * ```
      *
      * @see https://en.wikipedia.org/wiki/ANSI_escape_code#SGR_(Select_Graphic_Rendition)_parameters
+     * @param depth The color depth to output. `"auto"` uses {@link detectColorDepth}. Defaults to `"truecolor"`.
+     * @returns The color code, or an empty string if the depth is `"none"`.
      */
-    toAnsiForeground(): string {
-        return fromSGR(`38;2;${this.red};${this.green};${this.blue}`);
+    toAnsiForeground(depth: ColorDepth | "auto" = "truecolor"): string {
+        return this.#toAnsi(depth, false);
     }
     /**
      * Returns the color as an ANSI background color code, stripping the alpha value.
      *
      * @see https://en.wikipedia.org/wiki/ANSI_escape_code#SGR_(Select_Graphic_Rendition)_parameters
+     * @see {@link toAnsiForeground}
+     * @param depth The color depth to output. `"auto"` uses {@link detectColorDepth}. Defaults to `"truecolor"`.
+     * @returns The color code, or an empty string if the depth is `"none"`.
      */
-    toAnsiBackground(): string {
-        return fromSGR(`48;2;${this.red};${this.green};${this.blue}`);
+    toAnsiBackground(depth: ColorDepth | "auto" = "truecolor"): string {
+        return this.#toAnsi(depth, true);
+    }
+    /**
+     * Returns the index of the perceptually closest color in the xterm 256-color palette, ignoring alpha.
+     * Only the color cube and grayscale ramp (16 to 255) are considered, since terminals commonly customize the first 16 colors.
+     *
+     * @see {@link fromAnsi256}
+     */
+    toAnsi256(): number {
+        return rgbToAnsi256([this.red, this.green, this.blue]);
+    }
+    /**
+     * Returns the index (0 to 15) of the perceptually closest basic terminal color, ignoring alpha.
+     *
+     * @see {@link fromAnsi16}
+     */
+    toAnsi16(): number {
+        return rgbToAnsi16([this.red, this.green, this.blue]);
+    }
+    #toAnsi(depth: ColorDepth | "auto", background: boolean): string {
+        switch (depth === "auto" ? detectColorDepth() : depth) {
+            case "none":
+                return "";
+            case "ansi16":
+                return fromSGR(ansi16ToSgr(this.toAnsi16(), background));
+            case "ansi256":
+                return fromSGR(`${background ? 48 : 38};5;${this.toAnsi256()}`);
+            case "truecolor":
+                return fromSGR(`${background ? 48 : 38};2;${this.red};${this.green};${this.blue}`);
+        }
     }
     /**
      * Sets the red value of the color.
      *
      * @param r The red value of the color as a number from 0 to 255.
      * @returns The object itself, for method chaining.
+     * @throws {ColorFrozenError} If the color is frozen.
      */
     setRed(r: number): this {
+        this.#assertMutable();
         this.red = r;
         return this;
     }
@@ -206,8 +1327,10 @@ export class Color implements Cloneable<Color>, DeepEquals {
      *
      * @param g The green value of the color as a number from 0 to 255.
      * @returns The object itself, for method chaining.
+     * @throws {ColorFrozenError} If the color is frozen.
      */
     setGreen(g: number): this {
+        this.#assertMutable();
         this.green = g;
         return this;
     }
@@ -216,8 +1339,10 @@ export class Color implements Cloneable<Color>, DeepEquals {
      *
      * @param b The blue value of the color as a number from 0 to 255.
      * @returns The object itself, for method chaining.
+     * @throws {ColorFrozenError} If the color is frozen.
      */
     setBlue(b: number): this {
+        this.#assertMutable();
         this.blue = b;
         return this;
     }
@@ -226,11 +1351,133 @@ export class Color implements Cloneable<Color>, DeepEquals {
      *
      * @param a The alpha value of the color as a number from 0 to 1.
      * @returns The object itself, for method chaining.
+     * @throws {ColorFrozenError} If the color is frozen.
      */
     setAlpha(a: number): this {
+        this.#assertMutable();
         this.alpha = a;
         return this;
     }
+    /**
+     * Returns a copy of this color with a different red value. Unlike {@link setRed}, this does not change the color itself.
+     *
+     * @param red The red value of the new color as a number from 0 to 255.
+     * @returns A new color.
+     */
+    withRed(red: number): Color {
+        return new Color(red, this.green, this.blue, this.alpha);
+    }
+    /**
+     * Returns a copy of this color with a different green value. Unlike {@link setGreen}, this does not change the color itself.
+     *
+     * @param green The green value of the new color as a number from 0 to 255.
+     * @returns A new color.
+     */
+    withGreen(green: number): Color {
+        return new Color(this.red, green, this.blue, this.alpha);
+    }
+    /**
+     * Returns a copy of this color with a different blue value. Unlike {@link setBlue}, this does not change the color itself.
+     *
+     * @param blue The blue value of the new color as a number from 0 to 255.
+     * @returns A new color.
+     */
+    withBlue(blue: number): Color {
+        return new Color(this.red, this.green, blue, this.alpha);
+    }
+    /**
+     * Returns a copy of this color with a different alpha value. Unlike {@link setAlpha}, this does not change the color itself.
+     *
+     * @example
+     * ```ts
+     * Color.RED.withAlpha(0.5); // new Color(255, 0, 0, 0.5)
+     * ```
+     *
+     * @param alpha The alpha value of the new color as a number from 0 to 1.
+     * @returns A new color.
+     */
+    withAlpha(alpha: number): Color {
+        return new Color(this.red, this.green, this.blue, alpha);
+    }
+    /**
+     * Returns a lighter copy of this color by increasing its HSL lightness.
+     *
+     * @example
+     * ```ts
+     * Color.RED.lighten(0.25); // new Color(255, 128, 128)
+     * ```
+     *
+     * @param amount The amount to add to the lightness, as a number from 0 to 1. The result is clamped.
+     * @returns A new color.
+     */
+    lighten(amount: number): Color {
+        return this.#withHSLLightness(Math.min(Math.max(this.lightness + amount, 0), 1));
+    }
+    /**
+     * Returns a darker copy of this color by decreasing its HSL lightness.
+     *
+     * @param amount The amount to subtract from the lightness, as a number from 0 to 1. The result is clamped.
+     * @returns A new color.
+     */
+    darken(amount: number): Color {
+        return this.lighten(-amount);
+    }
+    /**
+     * Returns a more saturated copy of this color by increasing its HSL saturation.
+     *
+     * @param amount The amount to add to the saturation, as a number from 0 to 1. The result is clamped.
+     * @returns A new color.
+     */
+    saturate(amount: number): Color {
+        return Color.fromHSL(normalizeHue(this.hue), Math.min(Math.max(this.hslSaturation + amount, 0), 1), this.lightness, this.alpha);
+    }
+    /**
+     * Returns a less saturated copy of this color by decreasing its HSL saturation.
+     *
+     * @param amount The amount to subtract from the saturation, as a number from 0 to 1. The result is clamped.
+     * @returns A new color.
+     */
+    desaturate(amount: number): Color {
+        return this.saturate(-amount);
+    }
+    /**
+     * Returns a copy of this color with its hue rotated around the HSL color wheel.
+     *
+     * @example
+     * ```ts
+     * Color.RED.rotateHue(120); // Color.GREEN
+     * ```
+     *
+     * @param degrees The number of degrees to rotate by. Negative values rotate backwards.
+     * @returns A new color.
+     */
+    rotateHue(degrees: number): Color {
+        return this.#rotateHSLHue(degrees);
+    }
+    /**
+     * Returns the inverse (negative) of this color, keeping the alpha value.
+     *
+     * @returns A new color.
+     */
+    invert(): Color {
+        return new Color(255 - this.red, 255 - this.green, 255 - this.blue, this.alpha);
+    }
+    /**
+     * Returns a gray copy of this color with the same relative {@link luminance}, so contrast ratios against other colors are preserved.
+     *
+     * @returns A new color.
+     */
+    grayscale(): Color {
+        const gray = Math.round(255 * linearToSrgb(this.luminance));
+        return new Color(gray, gray, gray, this.alpha);
+    }
+    #assertMutable(): void {
+        if (this.isFrozen()) {
+            throw new ColorFrozenError(
+                `Cannot modify the frozen color ${this.toCss()}. Use a method such as withRed or deepClone to get a modified copy instead.`,
+            );
+        }
+    }
     /**
      * The CMax value is the maximum of the red, green, and blue values divided by 255.
      * Used for converting to other color spaces such as CMYK.
@@ -304,6 +1551,16 @@ export class Color implements Cloneable<Color>, DeepEquals {
         }
         return this.delta / this.cMax;
     }
+    /**
+     * Calculates the equivalent HSL saturation value of this color as a number from 0 to 1.
+     * Unlike {@link saturation}, which is the saturation in the HSV color space, this is the saturation used by {@link Color.fromHSL}.
+     */
+    get hslSaturation(): number {
+        if (this.delta === 0) {
+            return 0;
+        }
+        return this.delta / (1 - Math.abs(2 * this.lightness - 1));
+    }
     /**
      * Calculates the equivalent *value* value of this color as a number from 0 to 1.
      * This is the same as the CMax value.
@@ -311,6 +1568,16 @@ export class Color implements Cloneable<Color>, DeepEquals {
     get value(): number {
         return this.cMax;
     }
+    /**
+     * Calculates the relative luminance of this color as a number from 0 (black) to 1 (white), as defined by WCAG 2.x.
+     * This is the same as the Y value of {@link toXYZ}.
+     *
+     * @see https://www.w3.org/TR/WCAG21/#dfn-relative-luminance
+     */
+    get luminance(): number {
+        const [r, g, b] = this.#toLinear();
+        return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    }
     /**
      * Calculates the equivalent lightness value of this color as a number from 0 to 1.
      */
@@ -0,0 +1,99 @@
+import { Vector3 } from "./colorSpaces.js";
+
+/**
+ * Internal Delta E formulas used by {@link Color#deltaE}. Every function takes two CIELAB `[l, a, b]` triples.
+ */
+
+const DEGREES = 180 / Math.PI;
+
+function hueAngle(a: number, b: number): number {
+    if (a === 0 && b === 0) {
+        return 0;
+    }
+    const hue = Math.atan2(b, a) * DEGREES;
+    return hue < 0 ? hue + 360 : hue;
+}
+
+/**
+ * The CIE76 color difference, which is the euclidean distance between the two colors in CIELAB.
+ *
+ * @see https://en.wikipedia.org/wiki/Color_difference#CIE76
+ */
+export function deltaE76([l1, a1, b1]: Vector3, [l2, a2, b2]: Vector3): number {
+    return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+/**
+ * The CIE94 color difference using the graphic arts weighting factors.
+ * Note that this formula is not symmetric: the first color is treated as the reference color.
+ *
+ * @see https://en.wikipedia.org/wiki/Color_difference#CIE94
+ */
+export function deltaE94([l1, a1, b1]: Vector3, [l2, a2, b2]: Vector3): number {
+    const c1 = Math.sqrt(a1 * a1 + b1 * b1);
+    const c2 = Math.sqrt(a2 * a2 + b2 * b2);
+    const deltaL = l1 - l2;
+    const deltaC = c1 - c2;
+    const deltaH2 = Math.max((a1 - a2) ** 2 + (b1 - b2) ** 2 - deltaC ** 2, 0);
+    const sC = 1 + 0.045 * c1;
+    const sH = 1 + 0.015 * c1;
+    return Math.sqrt(deltaL ** 2 + (deltaC / sC) ** 2 + deltaH2 / sH ** 2);
+}
+
+/**
+ * The CIEDE2000 color difference, the most perceptually accurate of the three formulas.
+ *
+ * @see https://en.wikipedia.org/wiki/Color_difference#CIEDE2000
+ * @see http://www2.ece.rochester.edu/~gsharma/ciede2000/ciede2000noteCRNA.pdf
+ */
+export function deltaE2000([l1, a1, b1]: Vector3, [l2, a2, b2]: Vector3): number {
+    const cBar = (Math.sqrt(a1 * a1 + b1 * b1) + Math.sqrt(a2 * a2 + b2 * b2)) / 2;
+    const g = 0.5 * (1 - Math.sqrt(cBar ** 7 / (cBar ** 7 + 25 ** 7)));
+    const a1Prime = (1 + g) * a1;
+    const a2Prime = (1 + g) * a2;
+    const c1Prime = Math.sqrt(a1Prime * a1Prime + b1 * b1);
+    const c2Prime = Math.sqrt(a2Prime * a2Prime + b2 * b2);
+    const h1Prime = hueAngle(a1Prime, b1);
+    const h2Prime = hueAngle(a2Prime, b2);
+
+    const deltaLPrime = l2 - l1;
+    const deltaCPrime = c2Prime - c1Prime;
+    let deltahPrime = 0;
+    if (c1Prime * c2Prime !== 0) {
+        deltahPrime = h2Prime - h1Prime;
+        if (deltahPrime > 180) {
+            deltahPrime -= 360;
+        } else if (deltahPrime < -180) {
+            deltahPrime += 360;
+        }
+    }
+    const deltaHPrime = 2 * Math.sqrt(c1Prime * c2Prime) * Math.sin(deltahPrime / DEGREES / 2);
+
+    const lBarPrime = (l1 + l2) / 2;
+    const cBarPrime = (c1Prime + c2Prime) / 2;
+    let hBarPrime = h1Prime + h2Prime;
+    if (c1Prime * c2Prime !== 0) {
+        if (Math.abs(h1Prime - h2Prime) <= 180) {
+            hBarPrime /= 2;
+        } else if (h1Prime + h2Prime < 360) {
+            hBarPrime = (hBarPrime + 360) / 2;
+        } else {
+            hBarPrime = (hBarPrime - 360) / 2;
+        }
+    }
+
+    const t =
+        1 -
+        0.17 * Math.cos((hBarPrime - 30) / DEGREES) +
+        0.24 * Math.cos((2 * hBarPrime) / DEGREES) +
+        0.32 * Math.cos((3 * hBarPrime + 6) / DEGREES) -
+        0.2 * Math.cos((4 * hBarPrime - 63) / DEGREES);
+    const deltaTheta = 30 * Math.exp(-(((hBarPrime - 275) / 25) ** 2));
+    const rC = 2 * Math.sqrt(cBarPrime ** 7 / (cBarPrime ** 7 + 25 ** 7));
+    const sL = 1 + (0.015 * (lBarPrime - 50) ** 2) / Math.sqrt(20 + (lBarPrime - 50) ** 2);
+    const sC = 1 + 0.045 * cBarPrime;
+    const sH = 1 + 0.015 * cBarPrime * t;
+    const rT = -Math.sin((2 * deltaTheta) / DEGREES) * rC;
+
+    return Math.sqrt((deltaLPrime / sL) ** 2 + (deltaCPrime / sC) ** 2 + (deltaHPrime / sH) ** 2 + rT * (deltaCPrime / sC) * (deltaHPrime / sH));
+}
@@ -0,0 +1,161 @@
+/**
+ * Internal conversion math shared by the {@link Color} class.
+ * Every function here works on plain number triples so it can be used without creating intermediate colors.
+ */
+
+export type Vector3 = [number, number, number];
+
+/**
+ * The reference white of the sRGB color space (CIE standard illuminant D65), with Y normalized to 1.
+ */
+const D65_WHITE: Vector3 = [0.95047, 1, 1.08883];
+
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+/**
+ * Colors with a chroma below this value are treated as achromatic (gray), so their hue is meaningless.
+ */
+export const ACHROMATIC_THRESHOLD = 1e-4;
+
+/**
+ * Multiplies a 3x3 matrix, given as its rows, by a vector.
+ */
+export function multiply(matrix: readonly Vector3[], [x, y, z]: Vector3): Vector3 {
+    return [
+        matrix[0][0] * x + matrix[0][1] * y + matrix[0][2] * z,
+        matrix[1][0] * x + matrix[1][1] * y + matrix[1][2] * z,
+        matrix[2][0] * x + matrix[2][1] * y + matrix[2][2] * z,
+    ];
+}
+
+const LINEAR_SRGB_TO_XYZ: readonly Vector3[] = [
+    [0.4124564, 0.3575761, 0.1804375],
+    [0.2126729, 0.7151522, 0.072175],
+    [0.0193339, 0.119192, 0.9503041],
+];
+const XYZ_TO_LINEAR_SRGB: readonly Vector3[] = [
+    [3.2404542, -1.5371385, -0.4985314],
+    [-0.969266, 1.8760108, 0.041556],
+    [0.0556434, -0.2040259, 1.0572252],
+];
+const LINEAR_SRGB_TO_LMS: readonly Vector3[] = [
+    [0.4122214708, 0.5363325363, 0.0514459929],
+    [0.2119034982, 0.6806995451, 0.1073969566],
+    [0.0883024619, 0.2817188376, 0.6299787005],
+];
+const LMS_TO_OKLAB: readonly Vector3[] = [
+    [0.2104542553, 0.793617785, -0.0040720468],
+    [1.9779984951, -2.428592205, 0.4505937099],
+    [0.0259040371, 0.7827717662, -0.808675766],
+];
+const OKLAB_TO_LMS: readonly Vector3[] = [
+    [1, 0.3963377774, 0.2158037573],
+    [1, -0.1055613458, -0.0638541728],
+    [1, -0.0894841775, -1.291485548],
+];
+const LMS_TO_LINEAR_SRGB: readonly Vector3[] = [
+    [4.0767416621, -3.3077115913, 0.2309699292],
+    [-1.2684380046, 2.6097574011, -0.3413193965],
+    [-0.0041960863, -0.7034186147, 1.707614701],
+];
+
+/**
+ * Removes the sRGB transfer function ("gamma") from a channel, converting it to linear light.
+ *
+ * @param channel The gamma-encoded channel as a number from 0 to 1.
+ */
+export function srgbToLinear(channel: number): number {
+    return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+/**
+ * Applies the sRGB transfer function ("gamma") to a linear-light channel.
+ *
+ * @param channel The linear channel as a number from 0 to 1.
+ */
+export function linearToSrgb(channel: number): number {
+    return channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055;
+}
+
+/**
+ * Converts 8-bit sRGB channels (0 to 255) into linear-light channels (0 to 1).
+ */
+export function rgbToLinear([r, g, b]: Vector3): Vector3 {
+    return [srgbToLinear(r / 255), srgbToLinear(g / 255), srgbToLinear(b / 255)];
+}
+
+/**
+ * Converts linear-light channels into 8-bit sRGB channels, clipping anything that falls outside of the sRGB gamut.
+ */
+export function linearToRgb([r, g, b]: Vector3): Vector3 {
+    const channel = (n: number): number => Math.round(255 * Math.min(Math.max(linearToSrgb(n), 0), 1));
+    return [channel(r), channel(g), channel(b)];
+}
+
+/**
+ * Checks whether linear-light channels are within the sRGB gamut, allowing for a tiny amount of floating point error.
+ */
+export function isLinearInGamut(rgb: Vector3): boolean {
+    return rgb.every((channel) => channel >= -1e-6 && channel <= 1 + 1e-6);
+}
+
+export function linearToXyz(rgb: Vector3): Vector3 {
+    return multiply(LINEAR_SRGB_TO_XYZ, rgb);
+}
+
+export function xyzToLinear(xyz: Vector3): Vector3 {
+    return multiply(XYZ_TO_LINEAR_SRGB, xyz);
+}
+
+export function xyzToLab([x, y, z]: Vector3): Vector3 {
+    const f = (t: number): number => (t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116);
+    const fx = f(x / D65_WHITE[0]);
+    const fy = f(y / D65_WHITE[1]);
+    const fz = f(z / D65_WHITE[2]);
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function labToXyz([l, a, b]: Vector3): Vector3 {
+    const fy = (l + 16) / 116;
+    const fx = a / 500 + fy;
+    const fz = fy - b / 200;
+    const inverse = (t: number): number => (t ** 3 > LAB_EPSILON ? t ** 3 : (116 * t - 16) / LAB_KAPPA);
+    const y = l > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : l / LAB_KAPPA;
+    return [inverse(fx) * D65_WHITE[0], y * D65_WHITE[1], inverse(fz) * D65_WHITE[2]];
+}
+
+export function linearToOklab(rgb: Vector3): Vector3 {
+    const [l, m, s] = multiply(LINEAR_SRGB_TO_LMS, rgb);
+    return multiply(LMS_TO_OKLAB, [Math.cbrt(l), Math.cbrt(m), Math.cbrt(s)]);
+}
+
+export function oklabToLinear(lab: Vector3): Vector3 {
+    const [l, m, s] = multiply(OKLAB_TO_LMS, lab);
+    return multiply(LMS_TO_LINEAR_SRGB, [l ** 3, m ** 3, s ** 3]);
+}
+
+/**
+ * Normalizes an angle in degrees to the range [0, 360).
+ */
+export function normalizeHue(hue: number): number {
+    const normalized = hue % 360;
+    return normalized < 0 ? normalized + 360 : normalized;
+}
+
+/**
+ * Converts a rectangular `[lightness, a, b]` triple (Lab or OKLab) into its polar `[lightness, chroma, hue]` form.
+ * Achromatic colors (including those with a tiny chroma caused by floating point error) get a hue of 0.
+ */
+export function rectangularToPolar([l, a, b]: Vector3): Vector3 {
+    const chroma = Math.sqrt(a * a + b * b);
+    const hue = chroma < ACHROMATIC_THRESHOLD ? 0 : normalizeHue((Math.atan2(b, a) * 180) / Math.PI);
+    return [l, chroma, hue];
+}
+
+/**
+ * Converts a polar `[lightness, chroma, hue]` triple (LCh or OKLCh) into its rectangular `[lightness, a, b]` form.
+ */
+export function polarToRectangular([l, c, h]: Vector3): Vector3 {
+    const radians = (h * Math.PI) / 180;
+    return [l, c * Math.cos(radians), c * Math.sin(radians)];
+}
@@ -0,0 +1,77 @@
+import { ColorVisionDeficiency } from "./color.js";
+import { Vector3, multiply } from "./colorSpaces.js";
+
+/**
+ * Internal color vision deficiency math used by {@link Color#simulateColorBlindness} and {@link Color#daltonize}.
+ */
+
+/**
+ * The simulation matrices for a severity of 1 from Machado, Oliveira, and Fernandes (2009), which operate on linear sRGB.
+ * Achromatopsia is modeled as seeing only the relative luminance.
+ *
+ * @see https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html
+ */
+const SIMULATION_MATRICES: Record<ColorVisionDeficiency, readonly Vector3[]> = {
+    protanopia: [
+        [0.152286, 1.052583, -0.204868],
+        [0.114503, 0.786281, 0.099216],
+        [-0.003882, -0.048116, 1.051998],
+    ],
+    deuteranopia: [
+        [0.367322, 0.860646, -0.227968],
+        [0.280085, 0.672501, 0.047413],
+        [-0.01182, 0.04294, 0.968881],
+    ],
+    tritanopia: [
+        [1.255528, -0.076749, -0.178779],
+        [-0.078411, 0.930809, 0.147602],
+        [0.004733, 0.691367, 0.3039],
+    ],
+    achromatopsia: [
+        [0.2126729, 0.7151522, 0.072175],
+        [0.2126729, 0.7151522, 0.072175],
+        [0.2126729, 0.7151522, 0.072175],
+    ],
+};
+
+/**
+ * How the error between a color and its simulation is redistributed by Fidaner's daltonization algorithm.
+ * Information lost on the red-green axis is shifted towards green and blue, and information lost on the blue-yellow axis towards red and green.
+ */
+const DALTONIZE_SHIFT: Record<"redGreen" | "blueYellow", readonly Vector3[]> = {
+    redGreen: [
+        [0, 0, 0],
+        [0.7, 1, 0],
+        [0.7, 0, 1],
+    ],
+    blueYellow: [
+        [1, 0, 0.7],
+        [0, 1, 0.7],
+        [0, 0, 0],
+    ],
+};
+
+/**
+ * Simulates how a linear sRGB color appears with a color vision deficiency.
+ * Severities below 1 (anomalous trichromacy) interpolate between normal vision and the full deficiency.
+ *
+ * @param deficiency The color vision deficiency to simulate.
+ * @param severity   The severity as a number from 0 (normal vision) to 1.
+ * @param linear     The linear sRGB color.
+ */
+export function simulateDeficiency(deficiency: ColorVisionDeficiency, severity: number, linear: Vector3): Vector3 {
+    const simulated = multiply(SIMULATION_MATRICES[deficiency], linear);
+    const t = Math.min(Math.max(severity, 0), 1);
+    return [0, 1, 2].map((i) => linear[i] + (simulated[i] - linear[i]) * t) as Vector3;
+}
+
+/**
+ * Returns the correction that Fidaner's daltonization algorithm adds to a gamma-encoded color, given the difference between the color and its simulation.
+ *
+ * @see https://daltonize.org/
+ * @param deficiency The color vision deficiency being corrected.
+ * @param error      The original color minus the simulated color, with gamma-encoded channels from 0 to 1.
+ */
+export function daltonizeCorrection(deficiency: Exclude<ColorVisionDeficiency, "achromatopsia">, error: Vector3): Vector3 {
+    return multiply(DALTONIZE_SHIFT[deficiency === "tritanopia" ? "blueYellow" : "redGreen"], error);
+}
@@ -0,0 +1,290 @@
+import { Result } from "../resultsAndOptionals/results.js";
+import { Color, ColorCssParseError } from "./color.js";
+import { normalizeHue } from "./colorSpaces.js";
+import { CSS_NAMED_COLORS } from "./cssNamedColors.js";
+
+type TokenType = "number" | "percentage" | "dimension" | "ident" | "function" | "hash" | "comma" | "slash" | "close" | "end";
+
+type Token = {
+    type: TokenType;
+    /**
+     * The raw text of the token, lowercased. For numeric tokens this is the unit (if any).
+     */
+    text: string;
+    value: number;
+    position: number;
+};
+
+/**
+ * A color function argument. The `none` keyword is the only identifier allowed and is treated as 0.
+ */
+type Component = Token & { type: "number" | "percentage" | "dimension" | "ident" };
+
+const NUMBER_REGEX = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i;
+const IDENT_REGEX = /^-?[a-z_][a-z0-9_-]*/i;
+const COLOR_FUNCTIONS = ["rgb", "rgba", "hsl", "hsla", "hwb", "lab", "lch", "oklab", "oklch"];
+const ANGLE_UNITS: Record<string, number> = {
+    deg: 1,
+    grad: 360 / 400,
+    rad: 180 / Math.PI,
+    turn: 360,
+};
+
+function tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+    while (position < input.length) {
+        const rest = input.slice(position);
+        const char = input[position];
+        if (/\s/.test(char)) {
+            position++;
+            continue;
+        }
+        if (char === "," || char === "/" || char === ")") {
+            tokens.push({ type: char === "," ? "comma" : char === "/" ? "slash" : "close", text: char, value: 0, position });
+            position++;
+            continue;
+        }
+        if (char === "#") {
+            const hash = /^[0-9a-z]*/i.exec(rest.slice(1))?.[0] ?? "";
+            tokens.push({ type: "hash", text: hash.toLowerCase(), value: 0, position });
+            position += hash.length + 1;
+            continue;
+        }
+        const number = NUMBER_REGEX.exec(rest);
+        if (number) {
+            const value = parseFloat(number[0]);
+            const afterNumber = rest.slice(number[0].length);
+            const unit = /^%|^[a-z]+/i.exec(afterNumber)?.[0] ?? "";
+            tokens.push({
+                type: unit === "" ? "number" : unit === "%" ? "percentage" : "dimension",
+                text: unit.toLowerCase(),
+                value,
+                position,
+            });
+            position += number[0].length + unit.length;
+            continue;
+        }
+        const ident = IDENT_REGEX.exec(rest);
+        if (ident) {
+            const isFunction = rest[ident[0].length] === "(";
+            tokens.push({ type: isFunction ? "function" : "ident", text: ident[0].toLowerCase(), value: 0, position });
+            position += ident[0].length + (isFunction ? 1 : 0);
+            continue;
+        }
+        throw new ColorCssParseError(`Unexpected character "${char}"`, input, position);
+    }
+    tokens.push({ type: "end", text: "", value: 0, position });
+    return tokens;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * A small recursive descent parser for a single CSS `<color>` value.
+ */
+class CssColorParser {
+    readonly #input: string;
+    readonly #tokens: Token[];
+    #index = 0;
+    constructor(input: string) {
+        this.#input = input;
+        this.#tokens = tokenize(input);
+    }
+    parse(): Color {
+        const token = this.#next();
+        let color: Color;
+        switch (token.type) {
+            case "hash":
+                color = this.#parseHash(token);
+                break;
+            case "ident":
+                color = this.#parseKeyword(token);
+                break;
+            case "function":
+                color = this.#parseFunction(token);
+                break;
+            case "end":
+                throw this.#error("Expected a color", token);
+            default:
+                throw this.#error(`Unexpected "${token.text}"`, token);
+        }
+        const end = this.#next();
+        if (end.type !== "end") {
+            throw this.#error("Unexpected content after the color", end);
+        }
+        return color;
+    }
+    #next(): Token {
+        return this.#tokens[this.#index++];
+    }
+    #error(message: string, token: Token): ColorCssParseError {
+        return new ColorCssParseError(message, this.#input, token.position);
+    }
+    #parseHash(token: Token): Color {
+        const hex = token.text;
+        if (!/^[0-9a-f]*$/.test(hex) || ![3, 4, 6, 8].includes(hex.length)) {
+            throw this.#error(`Invalid hex color "#${hex}", expected 3, 4, 6, or 8 hexadecimal digits`, token);
+        }
+        const digits = hex.length <= 4 ? hex.split("").map((digit) => digit + digit) : hex.match(/../g) ?? [];
+        const [r, g, b, a] = digits.map((digit) => parseInt(digit, 16));
+        return new Color(r, g, b, a === undefined ? 1 : a / 255);
+    }
+    #parseKeyword(token: Token): Color {
+        if (token.text === "transparent") {
+            return new Color(0, 0, 0, 0);
+        }
+        const named = CSS_NAMED_COLORS.get(token.text);
+        if (named === undefined) {
+            throw this.#error(`Unknown color name "${token.text}"`, token);
+        }
+        return new Color((named >> 16) & 0xff, (named >> 8) & 0xff, named & 0xff);
+    }
+    #parseFunction(token: Token): Color {
+        if (!COLOR_FUNCTIONS.includes(token.text)) {
+            throw this.#error(`Unknown color function "${token.text}()"`, token);
+        }
+        const [c1, c2, c3, alphaComponent] = this.#parseArguments(token);
+        const alpha = alphaComponent === undefined ? 1 : clamp(this.#alpha(alphaComponent), 0, 1);
+        switch (token.text) {
+            case "rgb":
+            case "rgba":
+                return new Color(this.#rgbChannel(c1), this.#rgbChannel(c2), this.#rgbChannel(c3), alpha);
+            case "hsl":
+            case "hsla":
+                return Color.fromHSL(this.#hue(c1), clamp(this.#percent(c2), 0, 1), clamp(this.#percent(c3), 0, 1), alpha);
+            case "hwb": {
+                let whiteness = clamp(this.#percent(c2), 0, 1);
+                let blackness = clamp(this.#percent(c3), 0, 1);
+                if (whiteness + blackness > 1) {
+                    const sum = whiteness + blackness;
+                    whiteness /= sum;
+                    blackness /= sum;
+                }
+                const value = 1 - blackness;
+                return Color.fromHSV(this.#hue(c1), value === 0 ? 0 : 1 - whiteness / value, value, alpha);
+            }
+            case "lab":
+                return Color.fromLab(this.#scaled(c1, 100), this.#scaled(c2, 125), this.#scaled(c3, 125), alpha);
+            case "lch":
+                return Color.fromLCh(this.#scaled(c1, 100), this.#scaled(c2, 150), this.#hue(c3), alpha);
+            case "oklab":
+                return Color.fromOKLab(this.#scaled(c1, 1), this.#scaled(c2, 0.4), this.#scaled(c3, 0.4), alpha);
+            default: // oklch
+                return Color.fromOKLCh(this.#scaled(c1, 1), this.#scaled(c2, 0.4), this.#hue(c3), alpha);
+        }
+    }
+    /**
+     * Parses the arguments of a color function up to and including the closing parenthesis.
+     * Supports both the legacy comma-separated syntax and the modern space-separated syntax with an optional `/ alpha`.
+     */
+    #parseArguments(func: Token): Component[] {
+        const components: Component[] = [];
+        let legacy: boolean | undefined = undefined;
+        let hasAlpha = false;
+        for (;;) {
+            let token = this.#next();
+            if (token.type === "end") {
+                throw this.#error(`Expected ")" to close "${func.text}("`, token);
+            }
+            if (token.type === "close") {
+                if (components.length < 3) {
+                    throw this.#error(`Expected 3 color components but got ${components.length}`, token);
+                }
+                return components;
+            }
+            if (components.length > 0) {
+                // Every component after the first has to be preceded by the separator matching the syntax in use.
+                if (token.type === "comma") {
+                    if (legacy === false) {
+                        throw this.#error("Cannot mix commas with the space-separated syntax", token);
+                    }
+                    legacy = true;
+                    token = this.#next();
+                } else if (token.type === "slash") {
+                    if (legacy || components.length !== 3) {
+                        throw this.#error('Unexpected "/"', token);
+                    }
+                    legacy = false;
+                    hasAlpha = true;
+                    token = this.#next();
+                } else if (legacy) {
+                    throw this.#error('Expected ","', token);
+                } else {
+                    legacy = false;
+                }
+            }
+            if (token.type !== "number" && token.type !== "percentage" && token.type !== "dimension" && token.type !== "ident") {
+                throw this.#error("Expected a color component", token);
+            }
+            if (components.length === 4 || (components.length === 3 && !legacy && !hasAlpha)) {
+                throw this.#error("Too many color components", token);
+            }
+            if (token.type === "ident" && (token.text !== "none" || legacy)) {
+                throw this.#error(`Unexpected "${token.text}"`, token);
+            }
+            components.push(token as Component);
+        }
+    }
+    /**
+     * Returns the numeric value of a component, treating `none` as 0 and rejecting units.
+     */
+    #number(component: Component, allowPercentage: boolean): number {
+        if (component.type === "ident") {
+            return 0;
+        }
+        if (component.type === "dimension" || (!allowPercentage && component.type === "percentage")) {
+            throw this.#error(`Expected a number${allowPercentage ? " or percentage" : ""}`, component);
+        }
+        return component.value;
+    }
+    #rgbChannel(component: Component): number {
+        const value = this.#number(component, true);
+        return Math.round(clamp(component.type === "percentage" ? (value / 100) * 255 : value, 0, 255));
+    }
+    #alpha(component: Component): number {
+        const value = this.#number(component, true);
+        return component.type === "percentage" ? value / 100 : value;
+    }
+    /**
+     * Returns a component as a fraction, where both `50%` and `50` become `0.5`.
+     */
+    #percent(component: Component): number {
+        return this.#number(component, true) / 100;
+    }
+    /**
+     * Returns a component where percentages are relative to `reference` (so `100%` becomes `reference`).
+     */
+    #scaled(component: Component, reference: number): number {
+        const value = this.#number(component, true);
+        return component.type === "percentage" ? (value / 100) * reference : value;
+    }
+    #hue(component: Component): number {
+        if (component.type === "dimension") {
+            const factor = ANGLE_UNITS[component.text];
+            if (factor === undefined) {
+                throw this.#error(`Unknown angle unit "${component.text}"`, component);
+            }
+            return normalizeHue(component.value * factor);
+        }
+        return normalizeHue(this.#number(component, false));
+    }
+}
+
+/**
+ * Parses a CSS color string. This is the implementation of {@link Color.parseCss}.
+ *
+ * @param input The CSS color string.
+ */
+export function parseCssColor(input: string): Result<Color, ColorCssParseError> {
+    try {
+        return Result.ok(new CssColorParser(input).parse());
+    } catch (error) {
+        if (error instanceof ColorCssParseError) {
+            return Result.error(error);
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,71 @@
+import { deepClone } from "../deepClone/deepClone.js";
+import { deepEquals } from "../deepEquals/deepEquals.js";
+import { Color } from "./color.js";
+import { EASINGS, Gradient } from "./gradient.js";
+
+test("gradient sampling test", () => {
+    const gradient = Gradient.of([Color.BLACK, Color.WHITE], { space: "rgb" });
+    expect(gradient.at(0)).toEqual(Color.BLACK);
+    expect(gradient.at(1)).toEqual(Color.WHITE);
+    expect(gradient.at(0.5)).toEqual(new Color(128, 128, 128));
+    expect(gradient.at(-1)).toEqual(Color.BLACK);
+    expect(gradient.at(2)).toEqual(Color.WHITE);
+    expect(gradient.at(0)).not.toBe(Color.BLACK);
+});
+
+test("gradient multiple stops test", () => {
+    const gradient = new Gradient(
+        [
+            { color: Color.RED, position: 1 },
+            { color: Color.BLUE, position: 0 },
+            { color: Color.GREEN, position: 0.25 },
+        ],
+        { space: "rgb" },
+    );
+    expect(gradient.stops.map((stop) => stop.position)).toEqual([0, 0.25, 1]);
+    expect(gradient.at(0.25)).toEqual(Color.GREEN);
+    expect(gradient.at(0.125)).toEqual(new Color(0, 128, 128));
+    expect(gradient.at(0.625)).toEqual(new Color(128, 128, 0));
+});
+
+test("gradient domain and easing test", () => {
+    const heat = Gradient.of([Color.BLUE, Color.YELLOW, Color.RED], { domain: [0, 100] });
+    expect(heat.at(50)).toEqual(Color.YELLOW);
+    expect(heat.at(100)).toEqual(Color.RED);
+    expect(heat.colors(3)).toEqual([Color.BLUE, Color.YELLOW, Color.RED]);
+
+    const eased = Gradient.of([Color.BLACK, Color.WHITE], { space: "rgb", easing: "easeIn" });
+    expect(eased.at(0.5)).toEqual(new Color(64, 64, 64));
+    expect(Gradient.of([Color.BLACK, Color.WHITE], { space: "rgb", easing: (t) => 1 - t }).at(0)).toEqual(Color.WHITE);
+    expect(EASINGS.easeInOut(0.5)).toEqual(0.5);
+});
+
+test("gradient colors test", () => {
+    const gradient = Gradient.of([Color.BLACK, Color.WHITE], { space: "rgb" });
+    expect(gradient.colors(5).map((color) => color.red)).toEqual([0, 64, 128, 191, 255]);
+    expect(gradient.colors(1)).toEqual([Color.BLACK]);
+    expect(gradient.colors(0)).toEqual([]);
+    expect(Gradient.of([Color.RED]).colors(3)).toEqual([Color.RED, Color.RED, Color.RED]);
+    expect(() => Gradient.of([])).toThrow(RangeError);
+});
+
+test("gradient colorize test", () => {
+    const gradient = Gradient.of([Color.RED, Color.BLUE], { space: "rgb" });
+    expect(gradient.colorize("ab")).toEqual("\x1b[38;2;255;0;0ma\x1b[38;2;0;0;255mb\x1b[0m");
+    expect(gradient.colorize("a", true)).toEqual("\x1b[48;2;255;0;0ma\x1b[0m");
+    expect(gradient.colorize("")).toEqual("");
+});
+
+test("gradient equality and cloning test", () => {
+    const gradient = Gradient.of([Color.RED, Color.BLUE]);
+    const cloned = deepClone(gradient);
+    expect(cloned).not.toBe(gradient);
+    expect(deepEquals(cloned, gradient)).toEqual(true);
+    expect(gradient.equals(Gradient.of([Color.RED, Color.BLUE], { space: "hsl" }))).toEqual(false);
+});
+
+test("gradient colorize color depth test", () => {
+    const gradient = Gradient.of([Color.RED, Color.BLUE], { space: "rgb" });
+    expect(gradient.colorize("ab", false, "ansi256")).toEqual("\x1b[38;5;196ma\x1b[38;5;21mb\x1b[0m");
+    expect(gradient.colorize("ab", false, "none")).toEqual("ab");
+});
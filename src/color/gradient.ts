@@ -0,0 +1,196 @@
+import { Cloneable } from "../deepClone/deepClone.js";
+import { DeepEquals, deepEquals } from "../deepEquals/deepEquals.js";
+import { codes } from "../terminal/ansiCodes.js";
+import { ColorDepth, detectColorDepth } from "../terminal/colorDepth.js";
+import { Color, ColorMixSpace } from "./color.js";
+
+/**
+ * A color at a specific position in a {@link Gradient}.
+ *
+ * @category Color
+ */
+export type GradientStop = {
+    /**
+     * The color of the stop.
+     */
+    color: Color;
+    /**
+     * The position of the stop as a number from 0 to 1.
+     */
+    position: number;
+};
+
+/**
+ * A function that remaps a progress value from 0 to 1 to another value from 0 to 1.
+ *
+ * @category Color
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * A few common easing functions for use with {@link Gradient}.
+ *
+ * @see https://easings.net/
+ * @category Color
+ */
+export const EASINGS = {
+    linear: (t) => t,
+    easeIn: (t) => t * t,
+    easeOut: (t) => t * (2 - t),
+    easeInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+} as const satisfies Record<string, EasingFunction>;
+
+/**
+ * Options for creating a {@link Gradient}.
+ *
+ * @category Color
+ */
+export type GradientOptions = {
+    /**
+     * The color space to interpolate in. Defaults to `"oklab"`, which produces perceptually even gradients.
+     *
+     * @see {@link Color#mix}
+     */
+    space?: ColorMixSpace;
+    /**
+     * The easing function applied to the sample position before interpolating, or the name of one of the {@link EASINGS}. Defaults to `"linear"`.
+     */
+    easing?: EasingFunction | keyof typeof EASINGS;
+    /**
+     * The range of values that maps onto the gradient. {@link Gradient#at} maps `domain[0]` to the first stop and `domain[1]` to the last stop.
+     * Useful for heatmaps, where the values have their own units. Defaults to `[0, 1]`.
+     */
+    domain?: readonly [number, number];
+};
+
+/**
+ * An immutable gradient (also known as a color scale) made of multiple color stops, which can be sampled at any position.
+ *
+ * @example
+ * ```ts
+ * const heat = Gradient.of([Color.BLUE, Color.YELLOW, Color.RED], { domain: [0, 100] });
+ * heat.at(50); // Color.YELLOW
+ *
+ * const levels = Gradient.of([Color.GRAY, Color.RED]).colors(4); // one color per log level
+ *
+ * console.log(Gradient.of([Color.GREEN, Color.CYAN]).colorize("█".repeat(20))); // a colored progress bar
+ * ```
+ *
+ * @category Color
+ */
+export class Gradient implements Cloneable<Gradient>, DeepEquals {
+    /**
+     * The color stops of the gradient, sorted by position.
+     */
+    readonly stops: readonly GradientStop[];
+    /**
+     * The color space the gradient interpolates in.
+     */
+    readonly space: ColorMixSpace;
+    /**
+     * The easing function applied to the sample position.
+     */
+    readonly easing: EasingFunction;
+    /**
+     * The range of values that maps onto the gradient.
+     */
+    readonly domain: readonly [number, number];
+    /**
+     * Creates a new gradient from color stops.
+     *
+     * @param stops   The color stops. They do not need to be sorted, and positions outside of 0 to 1 are clamped. The colors are copied.
+     * @param options Options for the gradient.
+     * @throws {RangeError} If no stops are given.
+     */
+    constructor(stops: readonly GradientStop[], options: GradientOptions = {}) {
+        if (stops.length === 0) {
+            throw new RangeError("A gradient needs at least one color stop.");
+        }
+        this.stops = stops
+            .map(({ color, position }) => ({ color: color.deepClone(), position: Math.min(Math.max(position, 0), 1) }))
+            .sort((a, b) => a.position - b.position);
+        this.space = options.space ?? "oklab";
+        this.easing = typeof options.easing === "function" ? options.easing : EASINGS[options.easing ?? "linear"];
+        this.domain = options.domain ?? [0, 1];
+    }
+    /**
+     * Creates a new gradient from colors that are evenly spaced from 0 to 1.
+     *
+     * @param colors  The colors of the gradient.
+     * @param options Options for the gradient.
+     * @throws {RangeError} If no colors are given.
+     */
+    static of(colors: readonly Color[], options: GradientOptions = {}): Gradient {
+        return new Gradient(
+            colors.map((color, index) => ({ color, position: colors.length === 1 ? 0 : index / (colors.length - 1) })),
+            options,
+        );
+    }
+    /**
+     * Samples the gradient.
+     *
+     * @param value The value to sample at, within the gradient's domain (0 to 1 by default). Values outside of the domain are clamped.
+     * @returns A new color.
+     */
+    at(value: number): Color {
+        const [min, max] = this.domain;
+        const t = this.easing(Math.min(Math.max(max === min ? 0 : (value - min) / (max - min), 0), 1));
+        const first = this.stops[0];
+        const last = this.stops[this.stops.length - 1];
+        if (t <= first.position) {
+            return first.color.deepClone();
+        }
+        if (t >= last.position) {
+            return last.color.deepClone();
+        }
+        const index = this.stops.findIndex((stop) => stop.position > t);
+        const from = this.stops[index - 1];
+        const to = this.stops[index];
+        return from.color.mix(to.color, (t - from.position) / (to.position - from.position), this.space);
+    }
+    /**
+     * Samples the gradient at evenly spaced positions, including both ends.
+     *
+     * @param count The number of colors to return.
+     * @returns An array of new colors.
+     */
+    colors(count: number): Color[] {
+        const [min, max] = this.domain;
+        return Array.from({ length: count }, (_, index) => this.at(min + (count === 1 ? 0 : index / (count - 1)) * (max - min)));
+    }
+    /**
+     * Colors each character of a string with the gradient using ANSI escape codes, and resets the color at the end.
+     *
+     * @param text       The text to color.
+     * @param background Whether to color the background instead of the foreground.
+     * @param depth      The color depth to output. `"auto"` uses {@link detectColorDepth}. Defaults to `"truecolor"`.
+     *                   If the depth is `"none"`, the text is returned unchanged.
+     */
+    colorize(text: string, background = false, depth: ColorDepth | "auto" = "truecolor"): string {
+        const resolvedDepth = depth === "auto" ? detectColorDepth() : depth;
+        const characters = Array.from(text);
+        if (characters.length === 0 || resolvedDepth === "none") {
+            return text;
+        }
+        const colors = this.colors(characters.length);
+        const colored = characters.map(
+            (char, index) => (background ? colors[index].toAnsiBackground(resolvedDepth) : colors[index].toAnsiForeground(resolvedDepth)) + char,
+        );
+        return colored.join("") + codes.reset;
+    }
+    deepClone(): Gradient {
+        return new Gradient(this.stops, { space: this.space, easing: this.easing, domain: [this.domain[0], this.domain[1]] });
+    }
+    equals(other: unknown): boolean {
+        if (!(other instanceof Gradient)) {
+            return false;
+        }
+        return (
+            this.space === other.space &&
+            this.easing === other.easing &&
+            deepEquals(this.domain, other.domain) &&
+            this.stops.length === other.stops.length &&
+            this.stops.every((stop, index) => stop.position === other.stops[index].position && stop.color.equals(other.stops[index].color))
+        );
+    }
+}
@@ -1 +1,2 @@
 export * from "./color.js";
+export * from "./gradient.js";
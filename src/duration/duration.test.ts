@@ -1,4 +1,4 @@
-import { Duration } from "./duration.js";
+import { Duration, DurationParseError, InvalidDurationError } from "./duration.js";
 
 test("duration fromUnit test", () => {
     expect(Duration.fromUnit("years", 1).as("years")).toEqual(1);
@@ -27,7 +27,7 @@ test("duration format test", () => {
     expect(new Duration(1000 * 60).format()).toEqual("1m");
     expect(new Duration(1000 * 60 * 60).format()).toEqual("1h");
     expect(new Duration(1000 * 60 * 60 * 24).format()).toEqual("1d");
-    expect(Duration.fromUnit("months", 5).addUnit("weeks", 2).format()).toEqual("5m 2w");
+    expect(Duration.fromUnit("months", 5).addUnit("weeks", 2).format()).toEqual("5mo 2w");
     expect(Duration.fromUnit("months", 5).addUnit("weeks", 2).format(true)).toEqual("5 months and 2 weeks");
 });
 
@@ -35,3 +35,196 @@ test("duration toPrimitive test", () => {
     expect(+new Duration(0)).toEqual(0);
     expect("" + new Duration(0)).toEqual("instantly");
 })
+
+
+test("duration parse compact test", () => {
+    expect(Duration.parse("1d 2h 30m").get()).toEqual(Duration.fromUnit("days", 1).addUnit("hours", 2).addUnit("minutes", 30));
+    expect(Duration.parse("1h30m").get().as("minutes")).toEqual(90);
+    expect(Duration.parse("5mo 2w").get()).toEqual(Duration.fromUnit("months", 5).addUnit("weeks", 2));
+    expect(Duration.parse("  1.5H ").get().as("minutes")).toEqual(90);
+    expect(Duration.parse("250ms").get().milliseconds).toEqual(250);
+    expect(Duration.parse("2 hrs 5 mins").get().as("minutes")).toEqual(125);
+});
+
+test("duration parse words test", () => {
+    expect(Duration.parse("2 hours and 5 minutes").get().as("minutes")).toEqual(125);
+    expect(Duration.parse("1 day, 2 hours and 30 minutes").get().as("minutes")).toEqual(24 * 60 + 150);
+    expect(Duration.parse("1 minute, and 1 second").get().as("seconds")).toEqual(61);
+    expect(Duration.parse("instantly").get()).toEqual(Duration.INSTANT);
+    expect(Duration.parse("Forever").get()).toEqual(Duration.FOREVER);
+});
+
+test("duration parse ISO 8601 test", () => {
+    expect(Duration.parse("P1DT2H30M").get()).toEqual(Duration.parse("1d 2h 30m").get());
+    expect(Duration.parse("PT0.5S").get().milliseconds).toEqual(500);
+    expect(Duration.parse("PT0,5S").get().milliseconds).toEqual(500);
+    expect(Duration.parse("P1Y2M3W").get()).toEqual(Duration.parse("1y 2mo 3w").get());
+    expect(Duration.parse("P").isError()).toEqual(true);
+    expect(Duration.parse("PT").isError()).toEqual(true);
+    expect(Duration.parse("P1DT").isError()).toEqual(true);
+    expect(Duration.parse("P1H").isError()).toEqual(true);
+});
+
+test("duration parse errors test", () => {
+    const unknownUnit = Duration.parse("5 parsecs").getError();
+    expect(unknownUnit).toBeInstanceOf(DurationParseError);
+    expect(unknownUnit.position).toEqual(2);
+    expect(unknownUnit.message).toEqual('Unknown unit "parsecs" at position 2 in "5 parsecs"');
+    expect(Duration.parse("").getError().message).toEqual('Expected a duration at position 0 in ""');
+    expect(Duration.parse("5").getError().message).toEqual('Expected a unit at position 1 in "5"');
+    expect(Duration.parse("5m and").getError().position).toEqual(6);
+    expect(Duration.parse("and 5m").getError().position).toEqual(0);
+    expect(Duration.parse("5m; 2s").getError().position).toEqual(2);
+});
+
+test("duration parse round trip test", () => {
+    const durations = [
+        Duration.fromUnit("years", 2).addUnit("months", 3).addUnit("days", 4).addUnit("milliseconds", 5),
+        Duration.fromUnit("minutes", 1),
+        Duration.fromUnit("months", 1).addUnit("minutes", 1),
+        new Duration(123456789),
+        Duration.INSTANT,
+        Duration.FOREVER,
+    ];
+    for (const duration of durations) {
+        expect(Duration.parse(duration.format()).get()).toEqual(duration);
+        expect(Duration.parse(duration.format(true)).get()).toEqual(duration);
+    }
+});
+
+test("duration format units test", () => {
+    const duration = Duration.parse("1d 2h 30m 15s 250ms").get();
+    expect(duration.format({ maxUnits: 2 })).toEqual("1d 2h");
+    expect(duration.format({ maxUnits: 2, rounding: "ceil" })).toEqual("1d 3h");
+    expect(duration.format({ style: "long", smallestUnit: "minutes", rounding: "round" })).toEqual("1 day, 2 hours and 30 minutes");
+    expect(duration.format({ largestUnit: "hours", smallestUnit: "seconds" })).toEqual("26h 30m 15s");
+    expect(new Duration(59_600).format({ smallestUnit: "seconds", rounding: "round" })).toEqual("1m");
+    expect(new Duration(0.4).format({ maxUnits: 1, smallestUnit: "milliseconds", rounding: "ceil" })).toEqual("1ms");
+    expect(new Duration(400).format({ smallestUnit: "seconds" })).toEqual("instantly");
+    expect(new Duration(-90_000).format()).toEqual("-1m 30s");
+    expect(() => duration.format({ smallestUnit: "days", largestUnit: "hours" })).toThrow(RangeError);
+    expect(() => duration.format({ maxUnits: 0 })).toThrow(RangeError);
+});
+
+test("duration format separators and relative test", () => {
+    const duration = Duration.parse("2h 5m 3s").get();
+    expect(duration.format({ separator: ":" })).toEqual("2h:5m:3s");
+    expect(duration.format({ style: "long", lastSeparator: " & " })).toEqual("2 hours, 5 minutes & 3 seconds");
+    expect(duration.format({ style: "long", maxUnits: 1, relative: true })).toEqual("in 2 hours");
+    expect(new Duration(-90_000).format({ relative: true })).toEqual("1m 30s ago");
+    expect(Duration.INSTANT.format({ relative: true })).toEqual("now");
+});
+
+test("duration format digital test", () => {
+    expect(new Duration(3_723_004).format({ style: "digital" })).toEqual("01:02:03.004");
+    expect(new Duration(3_723_600).format({ style: "digital", smallestUnit: "seconds", rounding: "round" })).toEqual("01:02:04");
+    expect(Duration.fromUnit("days", 2).format({ style: "digital" })).toEqual("48:00:00.000");
+    expect(new Duration(-3_723_004).format({ style: "digital", largestUnit: "minutes" })).toEqual("-62:03.004");
+});
+
+test("duration format locale test", () => {
+    const duration = Duration.parse("1d 2h 30m").get();
+    expect(duration.format({ style: "long", maxUnits: 2, locale: "de" })).toEqual("1 Tag und 2 Stunden");
+    expect(duration.format({ style: "long", locale: "en" })).toEqual("1 day, 2 hours, and 30 minutes");
+    expect(duration.format({ style: "long", locale: "en", separator: "; ", lastSeparator: "; " })).toEqual("1 day; 2 hours; 30 minutes");
+    expect(duration.format({ style: "long", relative: true, locale: "en" })).toEqual("in 1 day");
+    expect(new Duration(-90_000).format({ style: "long", relative: true, locale: "en" })).toEqual("1 minute ago");
+    expect(Duration.INSTANT.format({ relative: true, locale: "en" })).toEqual("now");
+});
+
+test("duration validation test", () => {
+    expect(new Duration(NaN).milliseconds).toBeNaN();
+    expect(Duration.tryFrom(NaN).getError()).toBeInstanceOf(InvalidDurationError);
+    expect(Duration.tryFrom(-5).get().milliseconds).toEqual(-5);
+    expect(Duration.tryFrom(-5, "nonNegative").getError().message).toEqual("A duration cannot be negative, got -5 milliseconds.");
+    expect(Duration.tryFrom(Infinity, "nonNegative").get()).toEqual(Duration.FOREVER);
+    expect(() => Duration.fromUnit("seconds", 1).divide(0)).toThrow(InvalidDurationError);
+    expect(() => Duration.fromUnit("seconds", 1).divide(0, "strict")).toThrow("Cannot divide a duration by zero.");
+    expect(() => Duration.fromUnit("seconds", 1).divide(NaN)).toThrow(InvalidDurationError);
+    expect(() => Duration.fromUnit("seconds", 1).divide(-2, "nonNegative")).toThrow(InvalidDurationError);
+    expect(Duration.fromUnit("seconds", 1).divide(-2, "strict").milliseconds).toEqual(-500);
+    expect(new Duration(-1).negate().milliseconds).toEqual(1);
+    expect(Duration.fromUnit("seconds", 1).divide(0, "lenient")).toEqual(Duration.FOREVER);
+});
+
+test("duration negative test", () => {
+    const duration = Duration.fromUnit("minutes", -5);
+    expect(duration.isNegative()).toBe(true);
+    expect(duration.abs()).toEqual(Duration.fromUnit("minutes", 5));
+    expect(duration.negate().isNegative()).toBe(false);
+    expect(Object.is(Duration.INSTANT.negate().milliseconds, 0)).toBe(true);
+    expect(Duration.FOREVER.negate().milliseconds).toEqual(-Infinity);
+    expect(duration.after(new Date(600_000))).toEqual(new Date(300_000));
+});
+
+test("duration high resolution test", () => {
+    expect(Duration.fromUnit("microseconds", 3).as("microseconds")).toEqual(3);
+    expect(Duration.fromUnit("nanoseconds", 1500).as("microseconds")).toEqual(1.5);
+    expect(Duration.fromNanoseconds(1_234_567_891n).toNanoseconds()).toEqual(1_234_567_891n);
+    expect(Duration.fromNanoseconds(-1_500n).milliseconds).toEqual(-0.0015);
+    expect(Duration.fromNanoseconds(8_000_000_000_000_123n).toNanoseconds()).toEqual(8_000_000_000_000_123n);
+    expect(Duration.fromMicroseconds(2_500n).toMicroseconds()).toEqual(2_500n);
+    expect(Duration.fromHrtime([1, 500])).toEqual(Duration.fromNanoseconds(1_000_000_500n));
+    expect(() => Duration.FOREVER.toNanoseconds()).toThrow(RangeError);
+    const duration = Duration.parse("1ms 2µs 3ns").get();
+    expect(duration.format({ smallestUnit: "nanoseconds" })).toEqual("1ms 2µs 3ns");
+    expect(duration.format({ style: "long", smallestUnit: "nanoseconds" })).toEqual("1 millisecond, 2 microseconds and 3 nanoseconds");
+    expect(duration.format()).toEqual("1ms");
+    expect(Duration.parse("250us").get().format({ smallestUnit: "microseconds" })).toEqual("250µs");
+    expect(new Duration(1_001.5).format({ style: "digital", smallestUnit: "microseconds" })).toEqual("00:00:01.001500");
+    expect(Duration.fromUnit("microseconds", 3).format({ smallestUnit: "microseconds" })).toEqual("3µs");
+});
+
+test("duration exact nanoseconds test", () => {
+    const hundredDays = BigInt(100 * 24 * 60 * 60) * 1_000_000_000n + 123_456_789n;
+    expect(Duration.fromNanoseconds(hundredDays).toNanoseconds()).toEqual(hundredDays);
+    const tenThousandYears = BigInt(10_000 * 365 * 24 * 60 * 60) * 1_000_000_000n + 1n;
+    const duration = Duration.fromNanoseconds(tenThousandYears);
+    expect(duration.toNanoseconds()).toEqual(tenThousandYears);
+    expect(duration.add(Duration.fromNanoseconds(1n)).toNanoseconds()).toEqual(tenThousandYears + 1n);
+    expect(duration.subtract(Duration.fromUnit("seconds", 1)).toNanoseconds()).toEqual(tenThousandYears - 1_000_000_000n);
+    expect(duration.negate().toNanoseconds()).toEqual(-tenThousandYears);
+    expect(duration.negate().abs().toNanoseconds()).toEqual(tenThousandYears);
+    expect(duration.multiply(3).toNanoseconds()).toEqual(tenThousandYears * 3n);
+    // The milliseconds are the same, but the nanoseconds are not.
+    const other = Duration.fromNanoseconds(tenThousandYears + 1n);
+    expect(other.milliseconds).toEqual(duration.milliseconds);
+    expect(other.equals(duration)).toBe(false);
+    expect(other.compareTo(duration)).toEqual(1);
+    expect(Duration.fromMicroseconds(3n).add(new Duration(0.5)).toNanoseconds()).toEqual(503_000n);
+    expect(Duration.fromNanoseconds(5n).add(Duration.FOREVER)).toEqual(Duration.FOREVER);
+});
+
+test("duration format sub-millisecond round trip test", () => {
+    expect(Duration.parse("3µs").get().format()).toEqual("3µs");
+    expect(Duration.parse("250µs 500ns").get().format(true)).toEqual("250 microseconds and 500 nanoseconds");
+    expect(Duration.parse(Duration.fromNanoseconds(1500n).format()).get().toNanoseconds()).toEqual(1500n);
+    expect(new Duration(-0.002).format()).toEqual("-2µs");
+    expect(new Duration(1.5).format()).toEqual("1ms");
+    expect(new Duration(1.5).format({ smallestUnit: "microseconds" })).toEqual("1ms 500µs");
+});
+
+test("duration parse negative test", () => {
+    expect(Duration.parse(new Duration(-90_000).format()).isOk()).toBe(true);
+    expect(Duration.parse(new Duration(-90_000).format()).get().milliseconds).toEqual(-90_000);
+    expect(Duration.parse(new Duration(-90_000).format(true)).get().milliseconds).toEqual(-90_000);
+    expect(Duration.parse("-PT1M30S").get().milliseconds).toEqual(-90_000);
+    expect(Duration.parse("+1m 30s").get().milliseconds).toEqual(90_000);
+    expect(Duration.parse(" -forever ").get()).toEqual(new Duration(-Infinity));
+    expect(Duration.parse("-0s").get().milliseconds).toBe(0);
+    expect(Duration.parse("-").getError().message).toEqual('Expected a duration at position 1 in "-"');
+    expect(Duration.parse("--5m").getError().message).toEqual('Expected a number at position 1 in "--5m"');
+    expect(Duration.parse("-P1X").getError().message).toEqual('Invalid ISO 8601 duration at position 1 in "-P1X"');
+});
+
+test("duration parse prototype unit test", () => {
+    expect(Duration.parse("5 constructor").getError().message).toEqual('Unknown unit "constructor" at position 2 in "5 constructor"');
+    expect(Duration.parse("5 __proto__").isError()).toBe(true);
+    expect(Duration.parse("5 toString").isError()).toBe(true);
+});
+
+test("duration format small largest unit test", () => {
+    expect(Duration.fromUnit("milliseconds", 5).format({ largestUnit: "microseconds" })).toEqual("5000µs");
+    expect(Duration.fromUnit("milliseconds", 5).format({ largestUnit: "nanoseconds", style: "long" })).toEqual("5000000 nanoseconds");
+    expect(() => Duration.fromUnit("milliseconds", 5).format({ largestUnit: "microseconds", smallestUnit: "milliseconds" })).toThrow(RangeError);
+});
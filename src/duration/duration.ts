@@ -1,9 +1,14 @@
-import { Comparable, ComparisonResult, DeepEquals } from "../index.js";
+import { Comparable, ComparisonResult } from "../comparisons/comparisons.js";
+import { DeepEquals } from "../deepEquals/deepEquals.js";
+import { StructuredError } from "../errors/errors.js";
+import { Result } from "../resultsAndOptionals/results.js";
 
 /**
  * A map of duration units to their millisecond equivalents.
  */
 const DURATION_MAP = {
+    nanoseconds: 1 / 1_000_000,
+    microseconds: 1 / 1000,
     milliseconds: 1,
     seconds: 1000,
     minutes: 60 * 1000,
@@ -14,20 +19,373 @@ const DURATION_MAP = {
     years: 365 * 24 * 60 * 60 * 1000,
 } as const satisfies Record<string, number>;
 
+/**
+ * A unit of time that a {@link Duration} can be expressed in.
+ *
+ * @category Duration
+ */
+export type DurationUnit = keyof typeof DURATION_MAP;
+
+/**
+ * How many of each sub-millisecond unit fit in a millisecond. Converting with these instead of the fractions in {@link DURATION_MAP}
+ * avoids floating point errors, so that 3 microseconds is exactly `3 / 1000` milliseconds and converts back to exactly 3.
+ */
+const SUBMILLISECOND_DIVISORS: Partial<Record<DurationUnit, number>> = {
+    nanoseconds: 1_000_000,
+    microseconds: 1000,
+};
+
+function unitToMilliseconds(unit: DurationUnit, amount: number): number {
+    const divisor = SUBMILLISECOND_DIVISORS[unit];
+    return divisor === undefined ? amount * DURATION_MAP[unit] : amount / divisor;
+}
+
+function millisecondsToUnit(unit: DurationUnit, milliseconds: number): number {
+    const divisor = SUBMILLISECOND_DIVISORS[unit];
+    return divisor === undefined ? milliseconds / DURATION_MAP[unit] : milliseconds * divisor;
+}
+
 const UNITS_SHORTENED = {
+    nanoseconds: "ns",
+    microseconds: "µs",
     milliseconds: "ms",
     seconds: "s",
     minutes: "m",
     hours: "h",
     days: "d",
     weeks: "w",
-    months: "m",
+    months: "mo",
     years: "y",
 } as const satisfies Record<keyof typeof DURATION_MAP, string>;
 
+/**
+ * Every unit name accepted by {@link Duration.parse}, including the shorthand emitted by {@link Duration#format}.
+ * A Map rather than an object, so that words such as `constructor` aren't found on the prototype.
+ */
+const UNIT_ALIASES: ReadonlyMap<string, DurationUnit> = new Map(
+    Object.entries<DurationUnit>({
+        ns: "nanoseconds",
+        nsec: "nanoseconds",
+        nsecs: "nanoseconds",
+        nanosecond: "nanoseconds",
+        nanoseconds: "nanoseconds",
+        us: "microseconds",
+        µs: "microseconds",
+        μs: "microseconds",
+        usec: "microseconds",
+        usecs: "microseconds",
+        microsecond: "microseconds",
+        microseconds: "microseconds",
+        ms: "milliseconds",
+        msec: "milliseconds",
+        msecs: "milliseconds",
+        millisecond: "milliseconds",
+        milliseconds: "milliseconds",
+        s: "seconds",
+        sec: "seconds",
+        secs: "seconds",
+        second: "seconds",
+        seconds: "seconds",
+        m: "minutes",
+        min: "minutes",
+        mins: "minutes",
+        minute: "minutes",
+        minutes: "minutes",
+        h: "hours",
+        hr: "hours",
+        hrs: "hours",
+        hour: "hours",
+        hours: "hours",
+        d: "days",
+        day: "days",
+        days: "days",
+        w: "weeks",
+        wk: "weeks",
+        wks: "weeks",
+        week: "weeks",
+        weeks: "weeks",
+        mo: "months",
+        mos: "months",
+        mon: "months",
+        month: "months",
+        months: "months",
+        y: "years",
+        yr: "years",
+        yrs: "years",
+        year: "years",
+        years: "years",
+    }),
+);
+
+const ISO_8601_REGEX =
+    /^P(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/i;
+const ISO_8601_UNITS = ["years", "months", "weeks", "days", "hours", "minutes", "seconds"] as const;
+
+/**
+ * An error that occurs when {@link Duration.parse} is given an invalid duration string.
+ *
+ * @category Duration
+ */
+export class DurationParseError extends StructuredError<"DurationParse"> {
+    constructor(
+        message: string,
+        /**
+         * The string that was being parsed.
+         */
+        public readonly input: string,
+        /**
+         * The index of the character in the input where the error was found.
+         */
+        public readonly position: number,
+    ) {
+        super("DurationParse", `${message} at position ${position} in "${input}"`);
+    }
+}
+
+/**
+ * How strictly a duration is checked by {@link Duration.tryFrom} and {@link Duration#divide}.
+ *
+ * - `"lenient"`: Any number is accepted, including `NaN`. This is what the constructor does, for backwards compatibility.
+ * - `"strict"`: `NaN` is rejected, and so is dividing by zero. Negative and infinite durations are allowed.
+ * - `"nonNegative"`: Like `"strict"`, but negative durations are also rejected.
+ *
+ * @category Duration
+ */
+export type DurationValidationMode = "lenient" | "strict" | "nonNegative";
+
+/**
+ * An error that occurs when a duration is checked with a {@link DurationValidationMode} that does not allow its value.
+ *
+ * @category Duration
+ */
+export class InvalidDurationError extends StructuredError<"InvalidDuration"> {
+    constructor(
+        message: string,
+        /**
+         * The number of milliseconds that was rejected.
+         */
+        public readonly value: number,
+    ) {
+        super("InvalidDuration", message);
+    }
+}
+
+function validate(milliseconds: number, mode: DurationValidationMode): InvalidDurationError | undefined {
+    if (mode === "lenient") {
+        return undefined;
+    }
+    if (Number.isNaN(milliseconds)) {
+        return new InvalidDurationError("A duration cannot be NaN.", milliseconds);
+    }
+    if (mode === "nonNegative" && milliseconds < 0) {
+        return new InvalidDurationError(`A duration cannot be negative, got ${milliseconds} milliseconds.`, milliseconds);
+    }
+    return undefined;
+}
+
+function parseIso8601(input: string): Duration | undefined {
+    const match = ISO_8601_REGEX.exec(input);
+    // "P" and "PT" on their own are not valid durations.
+    if (!match || /^P(?:T)?$/i.test(input) || /T$/i.test(input)) {
+        return undefined;
+    }
+    let milliseconds = 0;
+    ISO_8601_UNITS.forEach((unit, index) => {
+        const value = match[index + 1];
+        if (value !== undefined) {
+            milliseconds += parseFloat(value.replace(",", ".")) * DURATION_MAP[unit];
+        }
+    });
+    return new Duration(milliseconds);
+}
+
+/**
+ * Parses the compact form (`1d 2h 30m`, or `1h30m` without spaces) and the word form (`1 day, 2 hours and 30 minutes`), which can be mixed freely.
+ */
+function parseUnits(input: string, start: number): Duration {
+    const componentRegex = /(\d+(?:\.\d+)?|\.\d+)\s*([a-zµμ]*)/iy;
+    const separatorRegex = /\s*(?:,\s*(?:and\b)?|and\b|(?=\d|\.\d))\s*/iy;
+    let milliseconds = 0;
+    let position = start;
+    for (;;) {
+        componentRegex.lastIndex = position;
+        const component = componentRegex.exec(input);
+        if (!component) {
+            throw new DurationParseError("Expected a number", input, position);
+        }
+        const [, amount, unitName] = component;
+        const unit = UNIT_ALIASES.get(unitName.toLowerCase());
+        if (unit === undefined) {
+            const unitPosition = position + component[0].length - unitName.length;
+            throw new DurationParseError(unitName === "" ? "Expected a unit" : `Unknown unit "${unitName}"`, input, unitPosition);
+        }
+        milliseconds += unitToMilliseconds(unit, parseFloat(amount));
+        position = componentRegex.lastIndex;
+        if (input.slice(position).trim() === "") {
+            return new Duration(milliseconds);
+        }
+        separatorRegex.lastIndex = position;
+        const separator = separatorRegex.exec(input);
+        if (!separator) {
+            throw new DurationParseError("Expected a separator", input, position);
+        }
+        position = separatorRegex.lastIndex;
+    }
+}
+
+/**
+ * The units of a {@link Duration}, from largest to smallest.
+ */
+const UNIT_ORDER = Object.keys(DURATION_MAP).reverse() as DurationUnit[];
+
+/**
+ * Milliseconds, or nanoseconds for durations shorter than a millisecond, but never a unit larger than the largest unit.
+ */
+function defaultSmallestUnit(milliseconds: number, largestUnit: DurationUnit): DurationUnit {
+    const unit = milliseconds > 0 && milliseconds < 1 ? "nanoseconds" : "milliseconds";
+    return UNIT_ORDER.indexOf(unit) < UNIT_ORDER.indexOf(largestUnit) ? largestUnit : unit;
+}
+
+/**
+ * Options for {@link Duration#format}.
+ *
+ * @category Duration
+ */
+export type DurationFormatOptions = {
+    /**
+     * How to format the duration. Defaults to `"short"`.
+     *
+     * - `"short"`: Abbreviated units separated by spaces, such as `1d 2h 30m`.
+     * - `"long"`: Full unit names separated by commas and "and", such as `1 day, 2 hours and 30 minutes`.
+     * - `"digital"`: A clock-like format, such as `01:02:03.004`. Days and larger units are converted to hours.
+     *   Only `largestUnit`, `smallestUnit`, and `rounding` apply to this style.
+     */
+    style?: "short" | "long" | "digital";
+    /**
+     * The maximum number of units to show, counting from the largest non-zero unit. For example, a `maxUnits` of 2 formats
+     * 1 day, 2 hours, and 30 minutes as `1d 2h`. The last unit shown is rounded with the `rounding` mode. Defaults to showing every unit.
+     */
+    maxUnits?: number;
+    /**
+     * The largest unit to use. Larger amounts are expressed in this unit, so 2 days with a `largestUnit` of `"hours"` is `48h`. Defaults to `"years"`.
+     */
+    largestUnit?: DurationUnit;
+    /**
+     * The smallest unit to show. The rest is rounded with the `rounding` mode.
+     * Defaults to `"milliseconds"`, or to `"nanoseconds"` for durations shorter than a millisecond so that they are not shown as zero,
+     * or to the largest unit if that is smaller.
+     */
+    smallestUnit?: DurationUnit;
+    /**
+     * How to round the last unit shown. Rounding is applied to the absolute value, so negative durations round the same way as positive ones.
+     * Defaults to `"floor"`.
+     */
+    rounding?: "floor" | "ceil" | "round";
+    /**
+     * The separator between units. Defaults to `", "` for the long style and `" "` for the short style.
+     * With a `locale`, the separators default to the ones from `Intl.ListFormat`.
+     */
+    separator?: string;
+    /**
+     * The separator between the last two units. Defaults to `" and "` for the long style and the `separator` for the short style.
+     */
+    lastSeparator?: string;
+    /**
+     * Whether to phrase the duration relative to now, such as `in 5 minutes` for positive durations and `5 minutes ago` for negative ones.
+     * With a `locale`, only the largest unit is shown, because `Intl.RelativeTimeFormat` only supports a single unit.
+     */
+    relative?: boolean;
+    /**
+     * A BCP 47 language tag (or a list of them) to localize the unit names, list separators, and relative phrasing with `Intl`.
+     * By default, the output is always in English and can be parsed back with {@link Duration.parse}.
+     */
+    locale?: string | readonly string[];
+};
+
+/**
+ * Splits a non-negative number of milliseconds into the given units, rounding the last unit.
+ * The splitting is done in whole multiples of the last unit, so that sub-millisecond units are not affected by floating point errors.
+ */
+function decompose(milliseconds: number, units: readonly DurationUnit[], rounding: "floor" | "ceil" | "round"): [DurationUnit, number][] {
+    const smallestUnit = units[units.length - 1];
+    const scaled = millisecondsToUnit(smallestUnit, milliseconds);
+    const nearest = Math.round(scaled);
+    // Snap amounts that are only off by a rounding error, such as 0.003 milliseconds being 2.9999999999999996 microseconds.
+    let remaining = Math.abs(scaled - nearest) <= Math.max(nearest, 1) * Number.EPSILON * 16 ? nearest : Math[rounding](scaled);
+    return units.map((unit) => {
+        const factor = Math.round(millisecondsToUnit(smallestUnit, DURATION_MAP[unit]));
+        const value = Math.floor(remaining / factor);
+        remaining -= value * factor;
+        return [unit, value];
+    });
+}
+
+function joinParts(parts: readonly string[], separator: string, lastSeparator: string): string {
+    if (parts.length <= 1) {
+        return parts.join("");
+    }
+    return parts.slice(0, -1).join(separator) + lastSeparator + parts[parts.length - 1];
+}
+
+const FRACTION_UNITS: readonly DurationUnit[] = ["milliseconds", "microseconds", "nanoseconds"];
+
+function isFractionUnit(unit: DurationUnit): unit is "milliseconds" | "microseconds" | "nanoseconds" {
+    return FRACTION_UNITS.includes(unit);
+}
+
+function formatDigital(milliseconds: number, largestUnit: DurationUnit, smallestUnit: DurationUnit, rounding: "floor" | "ceil" | "round"): string {
+    // The fields are always between hours and seconds, plus an optional fraction of 3, 6, or 9 digits for the sub-second units.
+    const largest = Math.min(Math.max(UNIT_ORDER.indexOf(largestUnit), UNIT_ORDER.indexOf("hours")), UNIT_ORDER.indexOf("seconds"));
+    const smallest = isFractionUnit(smallestUnit) ? UNIT_ORDER.indexOf(smallestUnit) : Math.max(UNIT_ORDER.indexOf(smallestUnit), largest);
+    const parts = decompose(milliseconds, UNIT_ORDER.slice(largest, smallest + 1), rounding);
+    const fields = parts.filter(([unit]) => !isFractionUnit(unit)).map(([, value]) => String(value).padStart(2, "0"));
+    const fraction = parts
+        .filter(([unit]) => isFractionUnit(unit))
+        .map(([, value]) => String(value).padStart(3, "0"))
+        .join("");
+    return fields.join(":") + (fraction ? `.${fraction}` : "");
+}
+
+function formatLocalized(
+    parts: [DurationUnit, number][],
+    sign: string,
+    smallestUnit: DurationUnit,
+    options: DurationFormatOptions,
+    locale: string | string[],
+): string {
+    const { style = "short", relative = false } = options;
+    if (relative) {
+        const [unit, value] = parts[0] ?? [smallestUnit, 0];
+        const signed = sign && value !== 0 ? -value : value;
+        const formatter = new Intl.RelativeTimeFormat(locale, {
+            // "auto" turns 0 into "now", but it would also turn 1 day into "tomorrow", which is a calendar concept.
+            numeric: value === 0 ? "auto" : "always",
+            style: style === "long" ? "long" : "short",
+        });
+        return isFractionUnit(unit) ? formatter.format(unitToMilliseconds(unit, signed) / 1000, "seconds") : formatter.format(signed, unit);
+    }
+    const formatted = (parts.length === 0 ? [[smallestUnit, 0] as const] : parts).map(([unit, value], index) =>
+        new Intl.NumberFormat(locale, { style: "unit", unit: unit.slice(0, -1), unitDisplay: style === "long" ? "long" : "short" }).format(
+            index === 0 && sign ? -value : value,
+        ),
+    );
+    if (options.separator !== undefined || options.lastSeparator !== undefined) {
+        const separator = options.separator ?? (style === "long" ? ", " : " ");
+        return joinParts(formatted, separator, options.lastSeparator ?? separator);
+    }
+    return new Intl.ListFormat(locale, { type: style === "long" ? "conjunction" : "unit", style: style === "long" ? "long" : "narrow" }).format(
+        formatted,
+    );
+}
+
 /**
  * Immutable class representing a duration of time.
  *
+ * The length is available as a floating point number of {@link milliseconds}, which can have a fraction for sub-millisecond durations.
+ * Durations created from a `bigint` with {@link Duration.fromNanoseconds}, {@link Duration.fromMicroseconds}, or {@link Duration.fromHrtime}
+ * also keep their exact number of nanoseconds, which {@link toNanoseconds}, {@link add}, {@link subtract}, {@link negate}, {@link abs},
+ * {@link equals}, and {@link compareTo} use, so no nanoseconds are lost however long the duration is.
+ *
  * ## Motivation
  *
  * Durations in JavaScript are usually represented as numbers, which can be confusing.
@@ -75,7 +433,36 @@ export class Duration implements DeepEquals, Comparable<Duration> {
      * A duration that represents forever.
      */
     static readonly FOREVER = new Duration(Infinity);
+    /**
+     * The exact length in nanoseconds, for durations created from a `bigint` and the durations calculated from them without rounding.
+     */
+    #nanoseconds: bigint | undefined;
+    /**
+     * Creates a new duration.
+     *
+     * Any number is accepted, including `NaN`. Use {@link Duration.tryFrom} to check the value first.
+     *
+     * @param milliseconds The length of the duration in milliseconds. Fractions are kept, so sub-millisecond durations are supported.
+     */
     constructor(public readonly milliseconds: number) {}
+    /**
+     * Creates a new duration, checking the value with a validation mode instead of throwing.
+     *
+     * @example
+     * ```ts
+     * Duration.tryFrom(1500).get(); // 1.5 seconds
+     * Duration.tryFrom(NaN).isError(); // true
+     * Duration.tryFrom(-5, "nonNegative").getError().message; // "A duration cannot be negative, got -5 milliseconds."
+     * ```
+     *
+     * @param milliseconds The length of the duration in milliseconds.
+     * @param mode         The validation mode to check the value with. Defaults to `"strict"`.
+     * @returns A Result containing the new duration, or the reason it was rejected.
+     */
+    static tryFrom(milliseconds: number, mode: DurationValidationMode = "strict"): Result<Duration, InvalidDurationError> {
+        const error = validate(milliseconds, mode);
+        return error ? Result.error(error) : Result.ok(new Duration(milliseconds));
+    }
     /**
      * Constructs a new Duration from a unit and an amount.
      *
@@ -89,7 +476,109 @@ export class Duration implements DeepEquals, Comparable<Duration> {
      * @returns A new Duration object.
      */
     static fromUnit(unit: keyof typeof DURATION_MAP, amount: number): Duration {
-        return new Duration(amount * DURATION_MAP[unit]);
+        return new Duration(unitToMilliseconds(unit, amount));
+    }
+    /**
+     * Creates a duration from a whole number of nanoseconds, such as the difference between two `process.hrtime.bigint()` readings.
+     * The exact number of nanoseconds is kept as a `bigint`, and {@link milliseconds} is the nearest floating point value.
+     *
+     * @example
+     * ```ts
+     * const start = process.hrtime.bigint();
+     * doWork();
+     * const elapsed = Duration.fromNanoseconds(process.hrtime.bigint() - start);
+     * ```
+     *
+     * @param nanoseconds The number of nanoseconds.
+     * @returns A new Duration object.
+     */
+    static fromNanoseconds(nanoseconds: bigint): Duration {
+        // Splitting off the whole milliseconds first keeps the fraction accurate, which a single Number(nanoseconds) / 1e6 would not.
+        const duration = new Duration(Number(nanoseconds / 1_000_000n) + Number(nanoseconds % 1_000_000n) / 1_000_000);
+        duration.#nanoseconds = nanoseconds;
+        return duration;
+    }
+    /**
+     * Creates a duration from a whole number of microseconds. Like {@link fromNanoseconds}, the exact value is kept.
+     *
+     * @param microseconds The number of microseconds.
+     * @returns A new Duration object.
+     */
+    static fromMicroseconds(microseconds: bigint): Duration {
+        return Duration.fromNanoseconds(microseconds * 1000n);
+    }
+    /**
+     * Creates a duration from a reading of `process.hrtime()` or `process.hrtime.bigint()`, or from the difference between two readings.
+     *
+     * @example
+     * ```ts
+     * const start = process.hrtime();
+     * doWork();
+     * const elapsed = Duration.fromHrtime(process.hrtime(start));
+     * ```
+     *
+     * @param hrtime Either a bigint number of nanoseconds, or a tuple of seconds and nanoseconds.
+     * @returns A new Duration object.
+     */
+    static fromHrtime(hrtime: bigint | readonly [seconds: number, nanoseconds: number]): Duration {
+        if (typeof hrtime === "bigint") {
+            return Duration.fromNanoseconds(hrtime);
+        }
+        return Duration.fromNanoseconds(BigInt(hrtime[0]) * 1_000_000_000n + BigInt(hrtime[1]));
+    }
+    /**
+     * Parses a duration string. Supports:
+     *
+     * - ISO 8601 durations, such as `P1DT2H30M` or `PT0.5S`. Months are 30 days and years are 365 days, like in the rest of this class.
+     * - The compact form emitted by {@link format}, such as `1d 2h 30m`. Months are `mo` and minutes are `m`.
+     * - The word form emitted by `format(true)`, such as `2 hours and 5 minutes` or `1 day, 2 hours and 30 minutes`.
+     * - The special values `instantly` and `forever`.
+     *
+     * Any of these can start with a `-` (such as `-1m 30s` or `-PT1M30S`) for a negative duration, or a `+`.
+     * Units can also be written as common abbreviations (`5 mins`, `2hrs`), amounts can have decimals (`1.5h`), and parsing is case-insensitive.
+     *
+     * @example
+     * ```ts
+     * Duration.parse("1d 2h 30m").get(); // 1 day, 2 hours and 30 minutes
+     * Duration.parse("PT1M30S").get().as("seconds"); // 90
+     * Duration.parse("-1m 30s").get().as("seconds"); // -90
+     * Duration.parse(duration.format()).get().equals(duration); // true, for whole millisecond durations
+     * Duration.parse("5 parsecs").getError().message; // 'Unknown unit "parsecs" at position 2 in "5 parsecs"'
+     * ```
+     *
+     * @param input The string to parse. Leading and trailing whitespace is ignored.
+     * @returns A Result containing the parsed duration, or an error pointing at the offending position in the string.
+     */
+    static parse(input: string): Result<Duration, DurationParseError> {
+        const trimmed = input.trim().toLowerCase();
+        // A leading sign applies to the whole duration, like the "-" that format() puts in front of negative durations.
+        const signed = trimmed.startsWith("-") || trimmed.startsWith("+");
+        const unsigned = signed ? trimmed.slice(1) : trimmed;
+        const start = input.length - input.trimStart().length + (signed ? 1 : 0);
+        return Duration.#parseUnsigned(input, unsigned, start).map((duration) => (trimmed.startsWith("-") ? duration.negate() : duration));
+    }
+    static #parseUnsigned(input: string, unsigned: string, start: number): Result<Duration, DurationParseError> {
+        if (unsigned === "instantly") {
+            return Result.ok(Duration.INSTANT);
+        }
+        if (unsigned === "forever") {
+            return Result.ok(Duration.FOREVER);
+        }
+        if (unsigned === "") {
+            return Result.error(new DurationParseError("Expected a duration", input, input.length));
+        }
+        if (unsigned.startsWith("p")) {
+            const duration = parseIso8601(unsigned);
+            return duration ? Result.ok(duration) : Result.error(new DurationParseError("Invalid ISO 8601 duration", input, start));
+        }
+        try {
+            return Result.ok(parseUnits(input, start));
+        } catch (error) {
+            if (error instanceof DurationParseError) {
+                return Result.error(error);
+            }
+            throw error;
+        }
     }
     /**
      * Gets the value of this duration in the specified unit.
@@ -98,51 +587,101 @@ export class Duration implements DeepEquals, Comparable<Duration> {
      * @returns The value of this duration in the specified unit.
      */
     as(unit: keyof typeof DURATION_MAP): number {
-        return this.milliseconds / DURATION_MAP[unit];
+        return millisecondsToUnit(unit, this.milliseconds);
     }
     /**
-     * Formats this duration into a human-readable string. If the duration is 0, returns "instantly".
+     * Gets the value of this duration as a whole number of nanoseconds. This is exact for durations created from a `bigint`,
+     * and rounded to the nearest nanosecond for durations created from a number of milliseconds.
      *
-     * @param words If true, will use words (like "years") instead of single letters (like "y"), and will use commas and "and" to separate units.
+     * @returns The number of nanoseconds.
+     * @throws {RangeError} If this duration is not finite.
+     */
+    toNanoseconds(): bigint {
+        if (this.#nanoseconds !== undefined) {
+            return this.#nanoseconds;
+        }
+        if (!Number.isFinite(this.milliseconds)) {
+            throw new RangeError(`Cannot convert a duration of ${this.milliseconds} milliseconds to nanoseconds.`);
+        }
+        const whole = Math.trunc(this.milliseconds);
+        return BigInt(whole) * 1_000_000n + BigInt(Math.round((this.milliseconds - whole) * 1_000_000));
+    }
+    /**
+     * Gets the value of this duration as a whole number of microseconds, truncated towards zero.
+     *
+     * @returns The number of microseconds.
+     * @throws {RangeError} If this duration is not finite.
+     */
+    toMicroseconds(): bigint {
+        return this.toNanoseconds() / 1000n;
+    }
+    /**
+     * Formats this duration into a human-readable string. If the duration is 0, returns "instantly", and if it is infinite, returns "forever".
+     * By default, every non-zero unit is shown down to milliseconds, or down to nanoseconds for durations shorter than a millisecond,
+     * and the result can be parsed back with {@link Duration.parse}. Longer durations drop their fraction of a millisecond unless `smallestUnit` is set.
+     *
+     * @example
+     * ```ts
+     * const duration = Duration.parse("1d 2h 30m 15s 250ms").get();
+     * duration.format(); // "1d 2h 30m 15s 250ms"
+     * duration.format(true); // "1 day, 2 hours, 30 minutes, 15 seconds and 250 milliseconds"
+     * duration.format({ maxUnits: 2 }); // "1d 2h"
+     * duration.format({ style: "long", smallestUnit: "minutes", rounding: "round" }); // "1 day, 2 hours and 30 minutes"
+     * duration.format({ style: "digital" }); // "26:30:15.250"
+     * duration.format({ style: "long", maxUnits: 1, relative: true }); // "in 1 day"
+     * duration.format({ style: "long", maxUnits: 2, locale: "de" }); // "1 Tag und 2 Stunden"
+     * ```
+     *
+     * @param options The formatting options, or `true` as a shorthand for `{ style: "long" }`.
      * @returns A human-readable string representing this duration.
+     * @throws {RangeError} If the smallest unit is larger than the largest unit, or if `maxUnits` is less than 1.
      */
-    format(words = false): string {
-        if (this.milliseconds === 0) {
-            return "instantly";
+    format(options: DurationFormatOptions | boolean = {}): string {
+        const resolved: DurationFormatOptions = typeof options === "boolean" ? { style: options ? "long" : "short" } : options;
+        const magnitude = Math.abs(this.milliseconds);
+        const {
+            style = "short",
+            largestUnit = "years",
+            smallestUnit = defaultSmallestUnit(magnitude, largestUnit),
+            rounding = "floor",
+            relative = false,
+            locale,
+        } = resolved;
+        if (UNIT_ORDER.indexOf(smallestUnit) < UNIT_ORDER.indexOf(largestUnit)) {
+            throw new RangeError(`The smallest unit (${smallestUnit}) cannot be larger than the largest unit (${largestUnit}).`);
         }
-        if (this.milliseconds === Infinity) {
-            return "forever";
+        // Intl.RelativeTimeFormat can only format a single unit.
+        const maxUnits = relative && locale !== undefined ? 1 : resolved.maxUnits ?? Infinity;
+        if (maxUnits < 1) {
+            throw new RangeError(`maxUnits must be at least 1, got ${maxUnits}.`);
         }
-        const units = new Map<keyof typeof DURATION_MAP, number>([
-            ["years", 0],
-            ["months", 0],
-            ["weeks", 0],
-            ["days", 0],
-            ["hours", 0],
-            ["minutes", 0],
-            ["seconds", 0],
-            ["milliseconds", 0],
-        ]);
-        let remaining = this.milliseconds;
-        for (const [unit] of units) {
-            const value = Math.floor(remaining / DURATION_MAP[unit]);
-            units.set(unit, value);
-            remaining -= value * DURATION_MAP[unit];
+        const sign = this.milliseconds < 0 ? "-" : "";
+        if (magnitude === Infinity) {
+            return `${sign}forever`;
         }
-        const result: string[] = [];
-        for (const [unit, value] of units) {
-            if (value === 0) {
-                continue;
-            }
-            result.push(value + (words ? ` ${unit.slice(0, value === 1 ? -1 : undefined)}` : UNITS_SHORTENED[unit]));
+        if (style === "digital") {
+            return sign + formatDigital(magnitude, largestUnit, smallestUnit, rounding);
         }
-        if (words) {
-            if (result.length === 1) {
-                return result[0];
-            }
-            return `${result.slice(0, -1).join(", ")} and ${result[result.length - 1]}`;
+        const units = UNIT_ORDER.slice(UNIT_ORDER.indexOf(largestUnit), UNIT_ORDER.indexOf(smallestUnit) + 1);
+        // Count maxUnits from the largest non-zero unit, and round at the last unit that is shown.
+        const largestNonZero = units.findIndex((unit) => magnitude >= DURATION_MAP[unit]);
+        const shownUnits = units.slice(0, Math.min((largestNonZero === -1 ? units.length - 1 : largestNonZero) + maxUnits, units.length));
+        const parts = decompose(magnitude, shownUnits, rounding).filter(([, value]) => value !== 0);
+        if (locale !== undefined) {
+            return formatLocalized(parts, sign, shownUnits[shownUnits.length - 1], resolved, typeof locale === "string" ? locale : [...locale]);
+        }
+        if (parts.length === 0) {
+            return relative ? "now" : "instantly";
+        }
+        const formatted = parts.map(
+            ([unit, value]) => value + (style === "long" ? ` ${unit.slice(0, value === 1 ? -1 : undefined)}` : UNITS_SHORTENED[unit]),
+        );
+        const separator = resolved.separator ?? (style === "long" ? ", " : " ");
+        const text = joinParts(formatted, separator, resolved.lastSeparator ?? (style === "long" ? " and " : separator));
+        if (relative) {
+            return sign ? `${text} ago` : `in ${text}`;
         }
-        return result.join(" ");
+        return sign + text;
     }
 
     [Symbol.toPrimitive](hint: "default" | "number" | "string"): string | number {
@@ -159,7 +698,7 @@ export class Duration implements DeepEquals, Comparable<Duration> {
      * @returns A new duration representing the sum of this duration and the other duration.
      */
     add(duration: Duration): Duration {
-        return new Duration(this.milliseconds + duration.milliseconds);
+        return this.#exactSum(duration, 1n) ?? new Duration(this.milliseconds + duration.milliseconds);
     }
 
     /**
@@ -171,7 +710,7 @@ export class Duration implements DeepEquals, Comparable<Duration> {
      * @returns A new duration representing the sum of this duration and the other duration.
      */
     addUnit(unit: keyof typeof DURATION_MAP, amount: number): Duration {
-        return new Duration(this.milliseconds + amount * DURATION_MAP[unit]);
+        return new Duration(this.milliseconds + unitToMilliseconds(unit, amount));
     }
 
     /**
@@ -181,7 +720,20 @@ export class Duration implements DeepEquals, Comparable<Duration> {
      * @returns A new duration representing the difference between this duration and the other duration.
      */
     subtract(duration: Duration): Duration {
-        return new Duration(this.milliseconds - duration.milliseconds);
+        return this.#exactSum(duration, -1n) ?? new Duration(this.milliseconds - duration.milliseconds);
+    }
+
+    /**
+     * Adds or subtracts another duration in nanoseconds if either of them has an exact number of nanoseconds.
+     */
+    #exactSum(duration: Duration, sign: bigint): Duration | undefined {
+        if (this.#nanoseconds === undefined && duration.#nanoseconds === undefined) {
+            return undefined;
+        }
+        if (!Number.isFinite(this.milliseconds) || !Number.isFinite(duration.milliseconds)) {
+            return undefined;
+        }
+        return Duration.fromNanoseconds(this.toNanoseconds() + sign * duration.toNanoseconds());
     }
 
     /**
@@ -191,7 +743,7 @@ export class Duration implements DeepEquals, Comparable<Duration> {
      * @param amount The amount to subtract.
      */
     subtractUnit(unit: keyof typeof DURATION_MAP, amount: number): Duration {
-        return new Duration(this.milliseconds - amount * DURATION_MAP[unit]);
+        return new Duration(this.milliseconds - unitToMilliseconds(unit, amount));
     }
 
     /**
@@ -201,20 +753,68 @@ export class Duration implements DeepEquals, Comparable<Duration> {
      * @returns A new duration representing the product of this duration and the number.
      */
     multiply(amount: number): Duration {
+        if (this.#nanoseconds !== undefined && Number.isSafeInteger(amount)) {
+            return Duration.fromNanoseconds(this.#nanoseconds * BigInt(amount));
+        }
         return new Duration(this.milliseconds * amount);
     }
 
     /**
      * Divides this duration by a number.
      *
+     * @example
+     * ```ts
+     * Duration.fromUnit("seconds", 5).divide(2); // 2.5 seconds
+     * Duration.fromUnit("seconds", 5).divide(0); // throws InvalidDurationError
+     * Duration.fromUnit("seconds", 5).divide(0, "lenient"); // Duration.FOREVER
+     * ```
+     *
      * @param amount The amount to divide by.
+     * @param mode   The validation mode to check the amount and the quotient with. Defaults to `"strict"`, which does not allow dividing by zero.
      * @returns A new duration representing the quotient of this duration and the number.
+     * @throws {InvalidDurationError} If the amount is 0 and the mode is not `"lenient"`, or if the quotient is not allowed by the mode.
      */
-    divide(amount: number): Duration {
-        return new Duration(this.milliseconds / amount);
+    divide(amount: number, mode: DurationValidationMode = "strict"): Duration {
+        const quotient = this.milliseconds / amount;
+        if (amount === 0 && mode !== "lenient") {
+            throw new InvalidDurationError("Cannot divide a duration by zero.", quotient);
+        }
+        const error = validate(quotient, mode);
+        if (error) {
+            throw error;
+        }
+        return new Duration(quotient);
+    }
+
+    /**
+     * Returns the length of this duration, without its sign.
+     */
+    abs(): Duration {
+        return this.milliseconds < 0 ? this.negate() : this;
+    }
+
+    /**
+     * Returns this duration with the opposite sign, which is useful for going back in time.
+     * Negating a zero duration gives a zero duration rather than `-0`.
+     */
+    negate(): Duration {
+        if (this.#nanoseconds !== undefined) {
+            return Duration.fromNanoseconds(-this.#nanoseconds);
+        }
+        return new Duration(this.milliseconds === 0 ? 0 : -this.milliseconds);
+    }
+
+    /**
+     * Returns whether this duration is shorter than zero. Negative durations count backwards, so {@link after} moves a date into the past.
+     */
+    isNegative(): boolean {
+        return this.milliseconds < 0;
     }
 
     compareTo(other: Duration): ComparisonResult {
+        if (this.#nanoseconds !== undefined && other.#nanoseconds !== undefined) {
+            return this.#nanoseconds > other.#nanoseconds ? 1 : this.#nanoseconds < other.#nanoseconds ? -1 : 0;
+        }
         return this.milliseconds > other.milliseconds ? 1 : this.milliseconds < other.milliseconds ? -1 : 0;
     }
 
@@ -226,7 +826,8 @@ export class Duration implements DeepEquals, Comparable<Duration> {
      * @returns 0 if the durations are equal, 1 if this duration is longer, and -1 if this duration is shorter.
      */
     compareUnit(unit: keyof typeof DURATION_MAP, amount: number): ComparisonResult {
-        return this.milliseconds > amount * DURATION_MAP[unit] ? 1 : this.milliseconds < amount * DURATION_MAP[unit] ? -1 : 0;
+        const milliseconds = unitToMilliseconds(unit, amount);
+        return this.milliseconds > milliseconds ? 1 : this.milliseconds < milliseconds ? -1 : 0;
     }
 
     toString(): string {
@@ -235,6 +836,8 @@ export class Duration implements DeepEquals, Comparable<Duration> {
 
     /**
      * Adds this duration to a date.
+     * This adds an exact number of milliseconds, so months and years are always 30 and 365 days long.
+     * Use a {@link Period} to add calendar months and years instead.
      *
      * @param date The date to add this duration to.
      * @returns A new date representing the sum of this duration and the date.
@@ -244,7 +847,7 @@ export class Duration implements DeepEquals, Comparable<Duration> {
     }
 
     /**
-     * Subtracts this duration from a date.
+     * Subtracts this duration from a date. Like {@link after}, this is exact, so see {@link Period#subtractFrom} for calendar arithmetic.
      *
      * @param date The date to subtract this duration from.
      * @returns A new date representing the difference between this duration and the date.
@@ -254,6 +857,9 @@ export class Duration implements DeepEquals, Comparable<Duration> {
     }
 
     equals(duration: Duration): boolean {
+        if (this.#nanoseconds !== undefined && duration.#nanoseconds !== undefined) {
+            return this.#nanoseconds === duration.#nanoseconds;
+        }
         return this.milliseconds === duration.milliseconds;
     }
 }
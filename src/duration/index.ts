@@ -1 +1,4 @@
 export * from "./duration.js";
+export * from "./period.js";
+export * from "./interval.js";
+export * from "./intervalSet.js";
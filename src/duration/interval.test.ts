@@ -0,0 +1,51 @@
+import { Duration } from "./duration.js";
+import { Interval } from "./interval.js";
+
+const at = (time: string): Date => new Date(`2024-01-01T${time}:00Z`);
+const between = (start: string, end: string): Interval => Interval.between(at(start), at(end));
+// Intervals keep their dates in private fields, which toEqual cannot see.
+const text = (intervals: Interval | Interval[]): string => String(intervals);
+
+test("interval construction test", () => {
+    const interval = Interval.from(at("09:00"), Duration.fromUnit("hours", 1));
+    expect(interval.equals(between("09:00", "10:00"))).toBe(true);
+    expect(interval.equals(between("09:00", "10:01"))).toBe(false);
+    expect(interval.duration).toEqual(Duration.fromUnit("hours", 1));
+    expect(interval.toString()).toEqual("2024-01-01T09:00:00.000Z/2024-01-01T10:00:00.000Z");
+    expect(between("09:00", "09:00").isEmpty()).toBe(true);
+    expect(() => between("10:00", "09:00")).toThrow(RangeError);
+    expect(() => Interval.from(at("09:00"), Duration.FOREVER)).toThrow(RangeError);
+    expect(() => Interval.between(new Date(NaN), at("09:00"))).toThrow(RangeError);
+    interval.start.setFullYear(2000);
+    expect(interval.start).toEqual(at("09:00"));
+});
+
+test("interval relations test", () => {
+    const morning = between("09:00", "12:00");
+    expect(morning.contains(at("09:00"))).toBe(true);
+    expect(morning.contains(at("12:00"))).toBe(false);
+    expect(morning.contains(between("10:00", "12:00"))).toBe(true);
+    expect(morning.contains(between("11:00", "13:00"))).toBe(false);
+    expect(morning.overlaps(between("11:00", "13:00"))).toBe(true);
+    expect(morning.overlaps(between("12:00", "13:00"))).toBe(false);
+    expect(morning.abuts(between("12:00", "13:00"))).toBe(true);
+    expect(text(morning.intersection(between("11:00", "13:00")).get())).toEqual(text(between("11:00", "12:00")));
+    expect(morning.intersection(between("12:00", "13:00")).isEmpty()).toBe(true);
+    expect(text(morning.union(between("12:00", "13:00")).get())).toEqual(text(between("09:00", "13:00")));
+    expect(morning.union(between("14:00", "15:00")).isEmpty()).toBe(true);
+    expect(text(morning.gap(between("14:00", "15:00")).get())).toEqual(text(between("12:00", "14:00")));
+    expect(text(between("14:00", "15:00").gap(morning).get())).toEqual(text(between("12:00", "14:00")));
+    expect(morning.gap(between("12:00", "13:00")).isEmpty()).toBe(true);
+    const sorted = [between("10:00", "11:00"), morning, between("09:00", "10:00")].sort((a, b) => a.compareTo(b));
+    expect(text(sorted)).toEqual(text([between("09:00", "10:00"), morning, between("10:00", "11:00")]));
+});
+
+test("interval split and iteration test", () => {
+    const interval = between("09:00", "10:00");
+    expect(text(interval.split(Duration.fromUnit("minutes", 25)))).toEqual(
+        text([between("09:00", "09:25"), between("09:25", "09:50"), between("09:50", "10:00")]),
+    );
+    expect([...interval.dates(Duration.fromUnit("minutes", 20))]).toEqual([at("09:00"), at("09:20"), at("09:40")]);
+    expect(between("09:00", "09:00").split(Duration.fromUnit("minutes", 1))).toEqual([]);
+    expect(() => interval.split(Duration.INSTANT)).toThrow(RangeError);
+});
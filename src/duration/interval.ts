@@ -0,0 +1,210 @@
+import { Comparable, ComparisonResult } from "../comparisons/comparisons.js";
+import { DeepEquals } from "../deepEquals/deepEquals.js";
+import { Optional } from "../resultsAndOptionals/optionals.js";
+import { Duration } from "./duration.js";
+
+/**
+ * Immutable class representing a span of time between two dates, such as an availability window or a maintenance blackout.
+ *
+ * Intervals are half-open: they include their start but not their end, so an interval from 09:00 to 10:00 and one from 10:00 to 11:00
+ * do not overlap, but they do touch. An interval whose start and end are the same is empty and contains no dates.
+ * Use an {@link IntervalSet} to work with several intervals at once.
+ *
+ * @example
+ * ```ts
+ * const meeting = Interval.from(new Date("2024-01-01T09:00:00Z"), Duration.fromUnit("hours", 1));
+ * const lunch = Interval.between(new Date("2024-01-01T12:00:00Z"), new Date("2024-01-01T13:00:00Z"));
+ * meeting.overlaps(lunch); // false
+ * meeting.gap(lunch).get().duration.format(); // "2h"
+ * meeting.split(Duration.fromUnit("minutes", 25)).length; // 3 (25, 25, and 10 minutes)
+ * ```
+ *
+ * @category Duration
+ */
+export class Interval implements Comparable<Interval>, DeepEquals {
+    readonly #start: number;
+    readonly #end: number;
+    /**
+     * Creates a new interval.
+     *
+     * @param start The start of the interval, which is included.
+     * @param end   The end of the interval, which is not included.
+     * @throws {RangeError} If either date is invalid, or if the end is before the start.
+     */
+    constructor(start: Date, end: Date) {
+        this.#start = start.getTime();
+        this.#end = end.getTime();
+        if (Number.isNaN(this.#start) || Number.isNaN(this.#end)) {
+            throw new RangeError("The start and end of an interval must be valid dates.");
+        }
+        if (this.#end < this.#start) {
+            throw new RangeError(`The end of an interval cannot be before its start, got ${start.toISOString()} to ${end.toISOString()}.`);
+        }
+    }
+    /**
+     * Creates an interval between two dates.
+     *
+     * @param start The start of the interval, which is included.
+     * @param end   The end of the interval, which is not included.
+     * @throws {RangeError} If either date is invalid, or if the end is before the start.
+     */
+    static between(start: Date, end: Date): Interval {
+        return new Interval(start, end);
+    }
+    /**
+     * Creates an interval that starts at a date and lasts for a duration.
+     *
+     * @param start    The start of the interval.
+     * @param duration How long the interval lasts.
+     * @throws {RangeError} If the date is invalid, or if the duration is negative or not finite.
+     */
+    static from(start: Date, duration: Duration): Interval {
+        if (!Number.isFinite(duration.milliseconds)) {
+            throw new RangeError(`The duration of an interval must be finite, got ${duration.milliseconds} milliseconds.`);
+        }
+        return new Interval(start, duration.after(start));
+    }
+    /**
+     * The start of the interval, which is included.
+     */
+    get start(): Date {
+        return new Date(this.#start);
+    }
+    /**
+     * The end of the interval, which is not included.
+     */
+    get end(): Date {
+        return new Date(this.#end);
+    }
+    /**
+     * The length of the interval.
+     */
+    get duration(): Duration {
+        return new Duration(this.#end - this.#start);
+    }
+    /**
+     * Returns whether the interval has no length.
+     */
+    isEmpty(): boolean {
+        return this.#start === this.#end;
+    }
+    /**
+     * Returns whether a date is inside this interval, or whether another interval is entirely inside this interval.
+     * The end of the interval is not included, so an interval does not contain its own end date.
+     *
+     * @param value The date or interval to check.
+     */
+    contains(value: Date | Interval): boolean {
+        if (value instanceof Interval) {
+            return value.#start >= this.#start && value.#end <= this.#end && (!value.isEmpty() || value.#start < this.#end);
+        }
+        const time = value.getTime();
+        return time >= this.#start && time < this.#end;
+    }
+    /**
+     * Returns whether this interval shares any time with another interval. Intervals that only touch do not overlap, and empty intervals never overlap anything.
+     *
+     * @param other The other interval.
+     */
+    overlaps(other: Interval): boolean {
+        return this.#start < other.#end && other.#start < this.#end;
+    }
+    /**
+     * Returns whether this interval ends where another interval starts, or the other way around.
+     *
+     * @param other The other interval.
+     */
+    abuts(other: Interval): boolean {
+        return this.#end === other.#start || other.#end === this.#start;
+    }
+    /**
+     * Returns the time that this interval shares with another interval.
+     *
+     * @param other The other interval.
+     * @returns The shared interval, or an empty Optional if the intervals do not overlap.
+     */
+    intersection(other: Interval): Optional<Interval> {
+        if (!this.overlaps(other)) {
+            return Optional.empty();
+        }
+        return Optional.of(new Interval(new Date(Math.max(this.#start, other.#start)), new Date(Math.min(this.#end, other.#end))));
+    }
+    /**
+     * Combines this interval with another interval. Use an {@link IntervalSet} to combine intervals that are apart.
+     *
+     * @param other The other interval.
+     * @returns An interval that covers both intervals, or an empty Optional if they neither overlap nor touch.
+     */
+    union(other: Interval): Optional<Interval> {
+        if (!this.overlaps(other) && !this.abuts(other)) {
+            return Optional.empty();
+        }
+        return Optional.of(new Interval(new Date(Math.min(this.#start, other.#start)), new Date(Math.max(this.#end, other.#end))));
+    }
+    /**
+     * Returns the time between this interval and another interval.
+     *
+     * @param other The other interval.
+     * @returns The interval between the two intervals, or an empty Optional if they overlap or touch.
+     */
+    gap(other: Interval): Optional<Interval> {
+        if (this.#end < other.#start) {
+            return Optional.of(new Interval(new Date(this.#end), new Date(other.#start)));
+        }
+        if (other.#end < this.#start) {
+            return Optional.of(new Interval(new Date(other.#end), new Date(this.#start)));
+        }
+        return Optional.empty();
+    }
+    /**
+     * Splits this interval into consecutive intervals of a duration. The last interval is shorter if the duration does not divide the interval evenly.
+     *
+     * @param duration The length of each part.
+     * @returns The parts, in order. An empty interval has no parts.
+     * @throws {RangeError} If the duration is not positive.
+     */
+    split(duration: Duration): Interval[] {
+        const starts = [...this.dates(duration)];
+        return starts.map((start, index) => new Interval(start, index + 1 < starts.length ? starts[index + 1] : this.end));
+    }
+    /**
+     * Iterates over the dates in this interval, starting at the start and stepping by a duration. The end is not included.
+     *
+     * @example
+     * ```ts
+     * for (const hour of interval.dates(Duration.fromUnit("hours", 1))) {
+     *     console.log(hour.toISOString());
+     * }
+     * ```
+     *
+     * @param step How far apart the dates are.
+     * @throws {RangeError} If the step is not positive.
+     */
+    *dates(step: Duration): Generator<Date, void, undefined> {
+        if (!(step.milliseconds > 0)) {
+            throw new RangeError(`The step must be positive, got ${step.milliseconds} milliseconds.`);
+        }
+        // Multiplying instead of adding repeatedly keeps fractional steps from accumulating rounding errors.
+        for (let index = 0; this.#start + index * step.milliseconds < this.#end; index++) {
+            yield new Date(this.#start + index * step.milliseconds);
+        }
+    }
+    /**
+     * Compares intervals by their start, and then by their end.
+     */
+    compareTo(other: Interval): ComparisonResult {
+        if (this.#start !== other.#start) {
+            return this.#start < other.#start ? -1 : 1;
+        }
+        return this.#end < other.#end ? -1 : this.#end > other.#end ? 1 : 0;
+    }
+    equals(other: unknown): boolean {
+        return other instanceof Interval && this.#start === other.#start && this.#end === other.#end;
+    }
+    /**
+     * Formats this interval as an ISO 8601 time interval, such as `2024-01-01T09:00:00.000Z/2024-01-01T10:00:00.000Z`.
+     */
+    toString(): string {
+        return `${this.start.toISOString()}/${this.end.toISOString()}`;
+    }
+}
@@ -0,0 +1,45 @@
+import { Duration } from "./duration.js";
+import { Interval } from "./interval.js";
+import { IntervalSet } from "./intervalSet.js";
+
+const at = (time: string): Date => new Date(`2024-01-01T${time}:00Z`);
+const between = (start: string, end: string): Interval => Interval.between(at(start), at(end));
+// Intervals keep their dates in private fields, which toEqual cannot see.
+const text = (intervals: Iterable<Interval>): string => [...intervals].join(", ");
+
+test("interval set normalization test", () => {
+    const set = IntervalSet.of(
+        between("14:00", "15:00"),
+        between("09:00", "10:00"),
+        between("09:30", "11:00"),
+        between("11:00", "12:00"),
+        between("13:00", "13:00"),
+    );
+    expect(text(set.intervals)).toEqual(text([between("09:00", "12:00"), between("14:00", "15:00")]));
+    expect(set.duration).toEqual(Duration.fromUnit("hours", 4));
+    expect(set.bounds?.equals(between("09:00", "15:00"))).toBe(true);
+    expect(set.equals(IntervalSet.of(between("14:00", "15:00"), between("09:00", "12:00")))).toBe(true);
+    expect(set.equals(IntervalSet.of(between("09:00", "12:00")))).toBe(false);
+    expect(text(set)).toEqual(text(set.intervals));
+    expect(IntervalSet.EMPTY.isEmpty()).toBe(true);
+    expect(IntervalSet.EMPTY.bounds).toBeUndefined();
+});
+
+test("interval set operations test", () => {
+    const workingHours = IntervalSet.of(between("09:00", "17:00"));
+    const blackouts = IntervalSet.of(between("12:00", "13:00"), between("12:30", "14:00"), between("16:30", "18:00"));
+    const available = workingHours.difference(blackouts);
+    expect(text(available)).toEqual(text([between("09:00", "12:00"), between("14:00", "16:30")]));
+    expect(available.contains(at("11:59"))).toBe(true);
+    expect(available.contains(at("12:00"))).toBe(false);
+    expect(available.contains(between("14:00", "15:00"))).toBe(true);
+    expect(available.overlaps(between("11:00", "12:30"))).toBe(true);
+    expect(available.overlaps(blackouts)).toBe(false);
+    expect(available.union(blackouts).equals(IntervalSet.of(between("09:00", "18:00")))).toBe(true);
+    expect(text(available.intersection(between("11:00", "15:00")))).toEqual(text([between("11:00", "12:00"), between("14:00", "15:00")]));
+    expect(text(available.gaps())).toEqual(text([between("12:00", "14:00")]));
+    expect(text(available.gaps(between("08:00", "18:00")))).toEqual(
+        text([between("08:00", "09:00"), between("12:00", "14:00"), between("16:30", "18:00")]),
+    );
+    expect(IntervalSet.EMPTY.gaps().isEmpty()).toBe(true);
+});
@@ -0,0 +1,183 @@
+import { DeepEquals } from "../deepEquals/deepEquals.js";
+import { Duration } from "./duration.js";
+import { Interval } from "./interval.js";
+
+/**
+ * Sorts intervals and merges the ones that overlap or touch, dropping empty ones.
+ */
+function normalize(intervals: Iterable<Interval>): Interval[] {
+    const sorted = [...intervals].filter((interval) => !interval.isEmpty()).sort((a, b) => a.compareTo(b));
+    const merged: Interval[] = [];
+    for (const interval of sorted) {
+        const last = merged[merged.length - 1];
+        const union = last?.union(interval);
+        if (union?.isPresent()) {
+            merged[merged.length - 1] = union.get();
+        } else {
+            merged.push(interval);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Immutable set of times made up of non-overlapping {@link Interval}s, such as the free slots in a calendar.
+ *
+ * The intervals are always normalized: they are sorted, empty intervals are dropped, and intervals that overlap or touch are merged.
+ * This means that two sets that cover the same time are always equal, no matter how they were built.
+ *
+ * @example
+ * ```ts
+ * const workingHours = IntervalSet.of(Interval.between(new Date("2024-01-01T09:00:00Z"), new Date("2024-01-01T17:00:00Z")));
+ * const blackouts = IntervalSet.of(
+ *     Interval.between(new Date("2024-01-01T12:00:00Z"), new Date("2024-01-01T13:00:00Z")),
+ *     Interval.between(new Date("2024-01-01T12:30:00Z"), new Date("2024-01-01T14:00:00Z")),
+ * );
+ * const available = workingHours.difference(blackouts);
+ * available.intervals; // 09:00 to 12:00 and 14:00 to 17:00
+ * available.duration.format(); // "6h"
+ * ```
+ *
+ * @category Duration
+ */
+export class IntervalSet implements DeepEquals, Iterable<Interval> {
+    /**
+     * A set that contains no time.
+     */
+    static readonly EMPTY = new IntervalSet();
+    readonly #intervals: readonly Interval[];
+    /**
+     * Creates a new set from intervals, which are normalized.
+     *
+     * @param intervals The intervals in the set, in any order.
+     */
+    constructor(intervals: Iterable<Interval> = []) {
+        this.#intervals = normalize(intervals);
+    }
+    /**
+     * Creates a new set from intervals, which are normalized.
+     *
+     * @param intervals The intervals in the set, in any order.
+     */
+    static of(...intervals: Interval[]): IntervalSet {
+        return new IntervalSet(intervals);
+    }
+    /**
+     * The normalized intervals in this set, in order.
+     */
+    get intervals(): readonly Interval[] {
+        return [...this.#intervals];
+    }
+    /**
+     * The total length of the intervals in this set.
+     */
+    get duration(): Duration {
+        return new Duration(this.#intervals.reduce((total, interval) => total + interval.duration.milliseconds, 0));
+    }
+    /**
+     * The smallest interval that covers every interval in this set, or undefined if the set is empty.
+     */
+    get bounds(): Interval | undefined {
+        if (this.#intervals.length === 0) {
+            return undefined;
+        }
+        return new Interval(this.#intervals[0].start, this.#intervals[this.#intervals.length - 1].end);
+    }
+    /**
+     * Returns whether this set contains no time.
+     */
+    isEmpty(): boolean {
+        return this.#intervals.length === 0;
+    }
+    /**
+     * Returns whether a date is inside this set, or whether an interval is entirely inside this set.
+     *
+     * @param value The date or interval to check.
+     */
+    contains(value: Date | Interval): boolean {
+        return this.#intervals.some((interval) => interval.contains(value));
+    }
+    /**
+     * Returns whether this set shares any time with an interval or another set.
+     *
+     * @param other The interval or set to check.
+     */
+    overlaps(other: Interval | IntervalSet): boolean {
+        return !this.intersection(other).isEmpty();
+    }
+    /**
+     * Returns a set that contains the time in either this set or another one.
+     *
+     * @param other The interval or set to add.
+     */
+    union(other: Interval | IntervalSet): IntervalSet {
+        return new IntervalSet([...this.#intervals, ...toIntervals(other)]);
+    }
+    /**
+     * Returns a set that contains the time in both this set and another one.
+     *
+     * @param other The interval or set to intersect with.
+     */
+    intersection(other: Interval | IntervalSet): IntervalSet {
+        const result: Interval[] = [];
+        for (const a of this.#intervals) {
+            for (const b of toIntervals(other)) {
+                a.intersection(b).ifPresent((shared) => result.push(shared));
+            }
+        }
+        return new IntervalSet(result);
+    }
+    /**
+     * Returns a set that contains the time in this set but not in another one, such as the available time outside of blackouts.
+     *
+     * @param other The interval or set to remove.
+     */
+    difference(other: Interval | IntervalSet): IntervalSet {
+        const removed = toIntervals(other);
+        const result: Interval[] = [];
+        for (const interval of this.#intervals) {
+            let start = interval.start.getTime();
+            const end = interval.end.getTime();
+            // Both lists are sorted, so the remaining part only ever moves forward.
+            for (const cut of removed) {
+                if (cut.end.getTime() <= start || cut.start.getTime() >= end) {
+                    continue;
+                }
+                if (cut.start.getTime() > start) {
+                    result.push(new Interval(new Date(start), cut.start));
+                }
+                start = Math.max(start, cut.end.getTime());
+            }
+            if (start < end) {
+                result.push(new Interval(new Date(start), new Date(end)));
+            }
+        }
+        return new IntervalSet(result);
+    }
+    /**
+     * Returns the gaps between the intervals in this set, optionally within a window. Without a window, the gaps are the time between the first
+     * and last intervals that is not in the set.
+     *
+     * @param within The window to find gaps in. Time in the window before the first interval and after the last interval is also a gap.
+     */
+    gaps(within?: Interval): IntervalSet {
+        const window = within ?? this.bounds;
+        return window === undefined ? IntervalSet.EMPTY : new IntervalSet([window]).difference(this);
+    }
+    [Symbol.iterator](): Iterator<Interval> {
+        return this.intervals[Symbol.iterator]();
+    }
+    equals(other: unknown): boolean {
+        if (!(other instanceof IntervalSet) || other.#intervals.length !== this.#intervals.length) {
+            return false;
+        }
+        return this.#intervals.every((interval, index) => interval.equals(other.#intervals[index]));
+    }
+    toString(): string {
+        return `{${this.#intervals.join(", ")}}`;
+    }
+}
+
+function toIntervals(value: Interval | IntervalSet): readonly Interval[] {
+    return value instanceof Interval ? [value] : value.intervals;
+}
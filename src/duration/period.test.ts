@@ -0,0 +1,91 @@
+import { Duration } from "./duration.js";
+import { Period } from "./period.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns noon on the day before a DST change in the local time zone of the test run, or noon on January 1 if the time zone has no DST.
+ */
+function noonBeforeDstChange(): Date {
+    for (let day = 1; day <= 366; day++) {
+        const noon = new Date(2024, 0, day, 12);
+        if (new Date(2024, 0, day + 1, 12).getTime() - noon.getTime() !== DAY) {
+            return noon;
+        }
+    }
+    return new Date(2024, 0, 1, 12);
+}
+
+test("period of test", () => {
+    expect(Period.of({ years: 1, weeks: 2, days: 1 })).toEqual(new Period(1, 0, 15));
+    expect(Period.of({}).isZero()).toEqual(true);
+    expect(() => new Period(1.5)).toThrow(RangeError);
+    expect(() => Period.of({ time: Duration.FOREVER })).toThrow(RangeError);
+});
+
+test("period month-end clamping test", () => {
+    const month = Period.of({ months: 1 });
+    expect(month.addTo(new Date(Date.UTC(2024, 0, 31)), "utc")).toEqual(new Date(Date.UTC(2024, 1, 29)));
+    expect(month.addTo(new Date(Date.UTC(2023, 0, 31)), "utc")).toEqual(new Date(Date.UTC(2023, 1, 28)));
+    expect(Period.of({ years: 1 }).addTo(new Date(Date.UTC(2024, 1, 29)), "utc")).toEqual(new Date(Date.UTC(2025, 1, 28)));
+    expect(Period.of({ months: 13 }).addTo(new Date(Date.UTC(2024, 11, 15)), "utc")).toEqual(new Date(Date.UTC(2026, 0, 15)));
+    expect(month.subtractFrom(new Date(Date.UTC(2024, 2, 31)), "utc")).toEqual(new Date(Date.UTC(2024, 1, 29)));
+    expect(Period.of({ months: -1 }).addTo(new Date(Date.UTC(2024, 0, 10)), "utc")).toEqual(new Date(Date.UTC(2023, 11, 10)));
+});
+
+test("period local and utc modes test", () => {
+    const start = noonBeforeDstChange();
+    const nextNoon = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1, 12);
+    const day = Period.of({ days: 1 });
+    expect(day.addTo(start)).toEqual(nextNoon);
+    expect(day.addTo(start, "utc").getTime() - start.getTime()).toEqual(DAY);
+    const withTime = Period.of({ days: 1, time: Duration.fromUnit("hours", 2) });
+    expect(withTime.addTo(start)).toEqual(Duration.fromUnit("hours", 2).after(nextNoon));
+    expect(Period.between(start, nextNoon)).toEqual(new Period(0, 0, 1));
+    expect(Period.between(start, nextNoon, "utc").addTo(start, "utc")).toEqual(nextNoon);
+});
+
+test("period between test", () => {
+    const start = new Date(2024, 0, 15);
+    const end = new Date(2025, 2, 20, 6, 30);
+    const period = Period.between(start, end);
+    expect(period).toEqual(new Period(1, 2, 5, Duration.fromUnit("hours", 6).addUnit("minutes", 30)));
+    expect(period.addTo(start)).toEqual(end);
+    expect(Period.between(end, start)).toEqual(period.negate());
+    expect(Period.between(new Date(2024, 0, 31), new Date(2024, 1, 29))).toEqual(new Period(0, 1));
+    expect(Period.between(new Date(2024, 0, 15, 10), new Date(2024, 1, 15, 9))).toEqual(new Period(0, 0, 30, Duration.fromUnit("hours", 23)));
+    expect(Period.between(new Date(Date.UTC(2024, 0, 1)), new Date(Date.UTC(2024, 0, 1, 5)), "utc")).toEqual(
+        Period.of({ time: Duration.fromUnit("hours", 5) }),
+    );
+});
+
+test("period between backwards test", () => {
+    const start = new Date(Date.UTC(2024, 2, 31));
+    const end = new Date(Date.UTC(2024, 1, 29));
+    const period = Period.between(start, end, "utc");
+    expect(period).toEqual(new Period(0, -1));
+    expect(period.addTo(start, "utc")).toEqual(end);
+    // Forwards, the end of February is not clamped, so the result is not simply the negation.
+    expect(Period.between(end, start, "utc")).toEqual(new Period(0, 1, 2));
+    const later = new Date(Date.UTC(2025, 4, 31, 12));
+    const earlier = new Date(Date.UTC(2024, 1, 29, 18));
+    expect(Period.between(later, earlier, "utc").addTo(later, "utc")).toEqual(earlier);
+    expect(Period.between(new Date(2024, 2, 31), new Date(2024, 2, 30))).toEqual(new Period(0, 0, -1));
+});
+
+test("period arithmetic and equality test", () => {
+    const period = new Period(1, 2, 3, Duration.fromUnit("hours", 4));
+    expect(period.add(period)).toEqual(new Period(2, 4, 6, Duration.fromUnit("hours", 8)));
+    expect(period.negate().negate()).toEqual(period);
+    expect(period.add(period.negate()).isZero()).toEqual(true);
+    expect(period.equals(new Period(1, 2, 3, Duration.fromUnit("hours", 4)))).toEqual(true);
+    expect(period.equals(new Period(1, 2, 3))).toEqual(false);
+    expect(period.equals("P1Y2M3DT4H")).toEqual(false);
+});
+
+test("period toString test", () => {
+    expect(Period.ZERO.toString()).toEqual("PT0S");
+    expect(new Period(1, 2, 3, new Duration(4 * 3_600_000 + 5 * 60_000 + 6_500)).toString()).toEqual("P1Y2M3DT4H5M6.5S");
+    expect(Period.of({ months: 1 }).negate().toString()).toEqual("P-1M");
+    expect(Period.of({ time: Duration.fromUnit("minutes", -90) }).toString()).toEqual("PT-1H-30M");
+});
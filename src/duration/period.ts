@@ -0,0 +1,244 @@
+import { DeepEquals } from "../deepEquals/deepEquals.js";
+import { Duration } from "./duration.js";
+
+/**
+ * Whether a {@link Period} is applied to the local time zone of the runtime or to UTC.
+ *
+ * - `"local"`: Calendar fields are read and written in local time, so adding days keeps the wall-clock time across daylight saving time changes.
+ *   For example, adding one day to 12:00 on the day before DST starts gives 12:00 on the next day, even though only 23 hours have passed.
+ * - `"utc"`: Calendar fields are read and written in UTC, so every day is exactly 24 hours long.
+ *
+ * @category Duration
+ */
+export type PeriodMode = "local" | "utc";
+
+/**
+ * The parts of a {@link Period}. Every part is optional and defaults to 0.
+ *
+ * @category Duration
+ */
+export type PeriodParts = {
+    years?: number;
+    months?: number;
+    /**
+     * Weeks are converted to 7 days each.
+     */
+    weeks?: number;
+    days?: number;
+    /**
+     * The time-of-day part of the period, which is added as an exact amount of elapsed time.
+     */
+    time?: Duration;
+};
+
+/**
+ * A view of the calendar fields of a date in either local time or UTC.
+ */
+type CalendarFields = {
+    year: number;
+    month: number;
+    day: number;
+};
+
+function getFields(date: Date, mode: PeriodMode): CalendarFields {
+    return mode === "utc"
+        ? { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() }
+        : { year: date.getFullYear(), month: date.getMonth(), day: date.getDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Adds whole months to a date, clamping the day to the end of the target month, and then adds whole days. The time of day is kept.
+ */
+function addCalendar(date: Date, months: number, days: number, mode: PeriodMode): Date {
+    const { year, month, day } = getFields(date, mode);
+    const totalMonths = month + months;
+    const targetYear = year + Math.floor(totalMonths / 12);
+    const targetMonth = ((totalMonths % 12) + 12) % 12;
+    const targetDay = Math.min(day, daysInMonth(targetYear, targetMonth)) + days;
+    const result = new Date(date.getTime());
+    if (mode === "utc") {
+        result.setUTCFullYear(targetYear, targetMonth, targetDay);
+    } else {
+        result.setFullYear(targetYear, targetMonth, targetDay);
+    }
+    return result;
+}
+
+/**
+ * Counts the calendar days between the dates of two dates, ignoring the time of day.
+ */
+function calendarDaysBetween(start: Date, end: Date, mode: PeriodMode): number {
+    const from = getFields(start, mode);
+    const to = getFields(end, mode);
+    return Math.round((Date.UTC(to.year, to.month, to.day) - Date.UTC(from.year, from.month, from.day)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Immutable class representing a calendar-based amount of time, such as "1 month and 2 days".
+ *
+ * Unlike {@link Duration}, which is a fixed number of milliseconds (and treats every month as 30 days),
+ * a period keeps its years, months, and days separate and only resolves them against an actual date.
+ * This means that adding 1 month to January 15 always gives February 15, and adding 1 year to a date never drifts because of leap years.
+ * Periods also have a {@link Duration} for the time-of-day part, which is added as an exact amount of elapsed time.
+ *
+ * @example
+ * ```ts
+ * const billingCycle = Period.of({ months: 1 });
+ * billingCycle.addTo(new Date(2024, 0, 31)); // February 29, 2024 (clamped to the end of the month)
+ *
+ * const reminder = Period.of({ days: 1, time: Duration.fromUnit("hours", 2) });
+ * reminder.addTo(new Date(2024, 2, 9, 12)); // March 10, 2024 at 14:00 local time, even if DST starts in between
+ *
+ * Period.between(new Date(2024, 0, 15), new Date(2025, 2, 20)).toString(); // "P1Y2M5D"
+ * ```
+ *
+ * @category Duration
+ */
+export class Period implements DeepEquals {
+    /**
+     * A period that represents no time.
+     */
+    static readonly ZERO = new Period();
+    /**
+     * Creates a new period.
+     *
+     * @param years  The number of years.
+     * @param months The number of months.
+     * @param days   The number of days.
+     * @param time   The time-of-day part of the period.
+     * @throws {RangeError} If the years, months, or days are not integers, or if the time is not finite.
+     */
+    constructor(public readonly years = 0, public readonly months = 0, public readonly days = 0, public readonly time = Duration.INSTANT) {
+        if (![years, months, days].every(Number.isInteger)) {
+            throw new RangeError(`The years, months, and days of a period must be integers, got ${years}, ${months}, and ${days}.`);
+        }
+        if (!Number.isFinite(time.milliseconds)) {
+            throw new RangeError(`The time of a period must be finite, got ${time.milliseconds} milliseconds.`);
+        }
+    }
+    /**
+     * Creates a new period from its parts.
+     *
+     * @example
+     * ```ts
+     * Period.of({ years: 1, weeks: 2 }); // 1 year and 14 days
+     * ```
+     *
+     * @param parts The parts of the period.
+     * @throws {RangeError} If the years, months, weeks, or days are not integers, or if the time is not finite.
+     */
+    static of({ years = 0, months = 0, weeks = 0, days = 0, time = Duration.INSTANT }: PeriodParts): Period {
+        return new Period(years, months, weeks * 7 + days, time);
+    }
+    /**
+     * Calculates the period between two dates, so that `Period.between(start, end).addTo(start)` is `end`.
+     * The result uses the largest units possible: whole months (normalized into years), then whole days, and the rest as time.
+     * If the end is before the start, every part of the result is negative or zero, and the period is counted back from the start,
+     * so it is not always the negation of `Period.between(end, start)`.
+     *
+     * @param start The start date.
+     * @param end   The end date.
+     * @param mode  Whether to count calendar days in local time or UTC. Defaults to `"local"`.
+     */
+    static between(start: Date, end: Date, mode: PeriodMode = "local"): Period {
+        // Going backwards, each part must not overshoot the end in the other direction. Negating the forward period would not work,
+        // because clamping to the end of the month is not symmetric: March 31 minus 1 month is February 29, but February 29 plus 1 month is March 29.
+        const backwards = end.getTime() < start.getTime();
+        const overshoots = (date: Date): boolean => (backwards ? date.getTime() < end.getTime() : date.getTime() > end.getTime());
+        const step = backwards ? -1 : 1;
+        const from = getFields(start, mode);
+        const to = getFields(end, mode);
+        let months = (to.year - from.year) * 12 + (to.month - from.month);
+        if (overshoots(addCalendar(start, months, 0, mode))) {
+            months -= step;
+        }
+        const afterMonths = addCalendar(start, months, 0, mode);
+        let days = calendarDaysBetween(afterMonths, end, mode);
+        if (overshoots(addCalendar(afterMonths, 0, days, mode))) {
+            days -= step;
+        }
+        const afterDays = addCalendar(afterMonths, 0, days, mode);
+        // Avoid -0 when counting backwards.
+        return new Period(Math.trunc(months / 12) || 0, months % 12 || 0, days || 0, new Duration(end.getTime() - afterDays.getTime()));
+    }
+    /**
+     * Adds this period to a date. Years and months are added first, clamping the day to the end of the month if needed
+     * (so January 31 plus 1 month is February 28 or 29), then days, and finally the time.
+     *
+     * @param date The date to add this period to.
+     * @param mode Whether to apply the calendar parts in local time or UTC. Defaults to `"local"`.
+     * @returns A new date.
+     */
+    addTo(date: Date, mode: PeriodMode = "local"): Date {
+        return this.time.after(addCalendar(date, this.years * 12 + this.months, this.days, mode));
+    }
+    /**
+     * Subtracts this period from a date. This is the same as adding the negated period.
+     *
+     * @param date The date to subtract this period from.
+     * @param mode Whether to apply the calendar parts in local time or UTC. Defaults to `"local"`.
+     * @returns A new date.
+     */
+    subtractFrom(date: Date, mode: PeriodMode = "local"): Date {
+        return this.negate().addTo(date, mode);
+    }
+    /**
+     * Adds another period to this period, part by part.
+     *
+     * @param other The period to add.
+     * @returns A new period.
+     */
+    add(other: Period): Period {
+        return new Period(this.years + other.years, this.months + other.months, this.days + other.days, this.time.add(other.time));
+    }
+    /**
+     * Returns a period with every part negated.
+     */
+    negate(): Period {
+        return new Period(-this.years || 0, -this.months || 0, -this.days || 0, new Duration(-this.time.milliseconds || 0));
+    }
+    /**
+     * Returns whether every part of this period is zero.
+     */
+    isZero(): boolean {
+        return this.years === 0 && this.months === 0 && this.days === 0 && this.time.milliseconds === 0;
+    }
+    equals(other: unknown): boolean {
+        if (!(other instanceof Period)) {
+            return false;
+        }
+        return this.years === other.years && this.months === other.months && this.days === other.days && this.time.equals(other.time);
+    }
+    /**
+     * Formats this period as an ISO 8601 duration, such as `P1Y2M3DT4H5M6.5S`. A zero period is `PT0S`.
+     * Negative parts are prefixed with a minus sign, such as `P-1M`.
+     */
+    toString(): string {
+        if (this.isZero()) {
+            return "PT0S";
+        }
+        const date = [
+            [this.years, "Y"],
+            [this.months, "M"],
+            [this.days, "D"],
+        ] as const;
+        const sign = this.time.milliseconds < 0 ? -1 : 1;
+        const milliseconds = Math.abs(this.time.milliseconds);
+        const time = [
+            [sign * Math.floor(milliseconds / 3_600_000), "H"],
+            [sign * Math.floor((milliseconds % 3_600_000) / 60_000), "M"],
+            [(sign * (milliseconds % 60_000)) / 1000, "S"],
+        ] as const;
+        const format = (parts: readonly (readonly [number, string])[]): string =>
+            parts
+                .filter(([value]) => value !== 0)
+                .map(([value, unit]) => value + unit)
+                .join("");
+        const timePart = format(time);
+        return `P${format(date)}${timePart === "" ? "" : `T${timePart}`}`;
+    }
+}
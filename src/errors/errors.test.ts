@@ -0,0 +1,56 @@
+import { ContextError, StructuredError, hasErrorCode } from "./errors.js";
+
+class NotFoundError extends StructuredError<"NotFound"> {
+    constructor(path: string, cause?: unknown) {
+        super("NotFound", `${path} does not exist`, { cause, context: { path } });
+    }
+}
+
+test("structured error test", () => {
+    const io = new Error("ENOENT");
+    const error = new NotFoundError("config.json", io);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toEqual("NotFoundError");
+    expect(error.code).toEqual("NotFound");
+    expect(error.message).toEqual("config.json does not exist");
+    expect(error.cause).toBe(io);
+    expect(error.context).toEqual({ path: "config.json" });
+    expect(new StructuredError("Plain", "message").cause).toBeUndefined();
+    expect("cause" in new StructuredError("Plain", "message")).toBe(false);
+});
+
+test("structured error causes test", () => {
+    const root = new Error("root");
+    const middle = new Error("middle", { cause: root });
+    const error = new ContextError("while loading", new NotFoundError("a", middle));
+    expect(error.causes.map((cause) => (cause as Error).message)).toEqual(["a does not exist", "middle", "root"]);
+    const cyclic = new StructuredError("Cyclic", "cyclic", { cause: middle });
+    root.cause = cyclic;
+    expect(cyclic.causes).toEqual([middle, root]);
+});
+
+test("structured error render test", () => {
+    const error = new ContextError("while loading the config", new NotFoundError("config.json", new TypeError("ENOENT")), { attempt: 2 });
+    expect(error.render()).toEqual(
+        [
+            "while loading the config",
+            "    attempt: 2",
+            "Caused by: NotFound: config.json does not exist",
+            '    path: "config.json"',
+            "Caused by: TypeError: ENOENT",
+        ].join("\n"),
+    );
+    expect(new ContextError("while parsing", "bad input").render()).toEqual('while parsing\nCaused by: "bad input"');
+    expect(new StructuredError("Data", "data", { context: { list: [1, 2], date: new Date(0) } }).render()).toEqual(
+        "Data: data\n    list: [1,2]\n    date: 1970-01-01T00:00:00.000Z",
+    );
+    expect(new StructuredError("Data", "data", { context: { date: new Date("x") } }).render()).toEqual("Data: data\n    date: Invalid Date");
+});
+
+test("hasErrorCode test", () => {
+    expect(hasErrorCode(new NotFoundError("a"), "NotFound")).toBe(true);
+    expect(hasErrorCode(Object.assign(new Error("ENOENT"), { code: "ENOENT" }), "ENOENT")).toBe(true);
+    expect(hasErrorCode(new Error("a"), "NotFound")).toBe(false);
+    expect(hasErrorCode("NotFound", "NotFound")).toBe(false);
+    expect(hasErrorCode(null, "NotFound")).toBe(false);
+});
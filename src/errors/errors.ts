@@ -0,0 +1,164 @@
+/**
+ * Options for creating a {@link StructuredError}.
+ *
+ * @category Errors
+ */
+export type StructuredErrorOptions = {
+    /**
+     * The error that caused this one, such as an error from a lower level that is being wrapped.
+     */
+    cause?: unknown;
+    /**
+     * Extra information about what was happening when the error occurred, such as the path of the file that was being read.
+     */
+    context?: Readonly<Record<string, unknown>>;
+};
+
+/**
+ * Gets the union of the `code`s of an error type. Errors without a literal code are left out.
+ *
+ * @example
+ * ```ts
+ * type Codes = ErrorCode<NotFoundError | TimeoutError | string>; // "NotFound" | "Timeout"
+ * ```
+ *
+ * @category Errors
+ */
+export type ErrorCode<E> = E extends { readonly code: infer C extends string } ? C : never;
+
+/**
+ * Base class for errors that can be told apart by a `code`, can be chained with a `cause`, and carry context about what was happening.
+ * All of the errors in this library extend it.
+ *
+ * The code is a discriminant: giving each error class its own literal code lets a union of errors be narrowed with `error.code === "NotFound"`,
+ * or handled one code at a time with {@link Result#catchTag}.
+ *
+ * @example
+ * ```ts
+ * class NotFoundError extends StructuredError<"NotFound"> {
+ *     constructor(path: string, cause?: unknown) {
+ *         super("NotFound", `${path} does not exist`, { cause, context: { path } });
+ *     }
+ * }
+ *
+ * console.log(new NotFoundError("config.json", ioError).render());
+ * // NotFound: config.json does not exist
+ * //     path: "config.json"
+ * // Caused by: Error: ENOENT: no such file or directory, open 'config.json'
+ * ```
+ *
+ * @category Errors
+ */
+export class StructuredError<Code extends string = string> extends Error {
+    /**
+     * The code that identifies the kind of error.
+     */
+    readonly code: Code;
+    /**
+     * Extra information about what was happening when the error occurred.
+     */
+    readonly context: Readonly<Record<string, unknown>>;
+    /**
+     * Creates a new structured error.
+     *
+     * @param code    The code that identifies the kind of error.
+     * @param message The error message.
+     * @param options The cause and context of the error.
+     */
+    constructor(code: Code, message: string, options: StructuredErrorOptions = {}) {
+        super(message, "cause" in options ? { cause: options.cause } : undefined);
+        this.name = new.target.name;
+        this.code = code;
+        this.context = { ...options.context };
+    }
+    /**
+     * The errors that led to this one, starting with its direct cause and following the `cause` of each error.
+     */
+    get causes(): unknown[] {
+        const causes: unknown[] = [];
+        const seen = new Set<unknown>([this]);
+        let current: unknown = this.cause;
+        while (current !== undefined && !seen.has(current)) {
+            causes.push(current);
+            seen.add(current);
+            current = current instanceof Error ? current.cause : undefined;
+        }
+        return causes;
+    }
+    /**
+     * The first line of {@link StructuredError#render} for this error.
+     */
+    protected get headline(): string {
+        return `${this.code}: ${this.message}`;
+    }
+    /**
+     * Formats this error and its causes on multiple lines, with the context of each error indented below it.
+     * Unlike the stack trace, this shows every error in the chain, so it is suited for logs and command-line output.
+     *
+     * @example
+     * ```ts
+     * new ContextError("while loading the config", new NotFoundError("config.json")).render();
+     * // while loading the config
+     * // Caused by: NotFound: config.json does not exist
+     * //     path: "config.json"
+     * ```
+     */
+    render(): string {
+        return [this, ...this.causes]
+            .flatMap((error, index) => {
+                const headline = error instanceof StructuredError ? error.headline : error instanceof Error ? String(error) : formatValue(error);
+                const context = error instanceof StructuredError ? Object.entries(error.context) : [];
+                return [(index === 0 ? "" : "Caused by: ") + headline, ...context.map(([key, value]) => `    ${key}: ${formatValue(value)}`)];
+            })
+            .join("\n");
+    }
+}
+
+/**
+ * An error that adds a description of what was being done to another error, such as one created by {@link Result#context}.
+ * The original error is kept as the `cause`.
+ *
+ * @category Errors
+ */
+export class ContextError<E = unknown> extends StructuredError<"Context"> {
+    declare readonly cause: E;
+    /**
+     * Creates a new context error.
+     *
+     * @param message A description of what was being done, such as `"while loading the config"`.
+     * @param cause   The original error.
+     * @param context Extra information about what was being done.
+     */
+    constructor(message: string, cause: E, context?: Readonly<Record<string, unknown>>) {
+        super("Context", message, { cause, context });
+    }
+    protected get headline(): string {
+        return this.message;
+    }
+}
+
+/**
+ * Returns whether a value is an error (or any object) with a given `code`. This works with any error that has a code, such as the errors from Node.js.
+ *
+ * @param error The value to check.
+ * @param code  The code to check for.
+ * @category Errors
+ */
+export function hasErrorCode<C extends string>(error: unknown, code: C): error is { readonly code: C } {
+    return typeof error === "object" && error !== null && "code" in error && error.code === code;
+}
+
+function formatValue(value: unknown): string {
+    if (typeof value === "object" && value !== null && !(value instanceof Date)) {
+        try {
+            return JSON.stringify(value) ?? String(value);
+        } catch {
+            return String(value);
+        }
+    }
+    if (value instanceof Date) {
+        // toISOString throws for invalid dates, which String turns into "Invalid Date".
+        return Number.isNaN(value.getTime()) ? String(value) : value.toISOString();
+    }
+    return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
@@ -1 +1,2 @@
 export * from "./fetchWithZod.js";
+export * from "./schemas.js";
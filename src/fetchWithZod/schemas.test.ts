@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { Optional } from "../resultsAndOptionals/optionals.js";
+import { Result } from "../resultsAndOptionals/results.js";
+import { optionalSchema, resultSchema } from "./schemas.js";
+
+test("resultSchema test", () => {
+    const schema = resultSchema(z.object({ id: z.number() }), z.string());
+    const ok: Result<{ id: number }, string> = schema.parse(JSON.parse(JSON.stringify(Result.ok({ id: 1 }))));
+    expect(ok.get()).toEqual({ id: 1 });
+    expect(schema.parse({ tag: "error", error: "not found" }).getError()).toEqual("not found");
+    expect(schema.safeParse({ tag: "ok", value: { id: "1" } }).success).toBe(false);
+    expect(schema.safeParse({ tag: "error", error: 404 }).success).toBe(false);
+    expect(schema.safeParse({ tag: "other" }).success).toBe(false);
+    expect(schema.safeParse(null).success).toBe(false);
+});
+
+test("resultSchema transform test", () => {
+    const schema = resultSchema(
+        z.string().transform((value) => value.length),
+        z.unknown(),
+    );
+    expect(schema.parse({ tag: "ok", value: "abc" }).get()).toEqual(3);
+    expect(
+        resultSchema(z.void(), z.string())
+            .parse(JSON.parse(JSON.stringify(Result.ok(undefined))))
+            .isOk(),
+    ).toBe(true);
+});
+
+test("optionalSchema test", () => {
+    const schema = optionalSchema(z.number());
+    const present: Optional<number> = schema.parse(JSON.parse(JSON.stringify(Optional.of(5))));
+    expect(present.get()).toEqual(5);
+    expect(schema.parse({ tag: "empty" }).isEmpty()).toBe(true);
+    expect(schema.safeParse({ tag: "present", value: "5" }).success).toBe(false);
+    expect(schema.safeParse({ tag: "present" }).success).toBe(false);
+});
+
+test("optionalSchema invalid value test", () => {
+    const result = optionalSchema(z.string().optional()).safeParse({ tag: "present" });
+    expect(result.success).toBe(false);
+    expect(result.success ? undefined : result.error.issues[0].code).toEqual("custom");
+});
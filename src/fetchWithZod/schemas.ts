@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { Optional, SerializedOptional } from "../resultsAndOptionals/optionals.js";
+import { Result, SerializedResult } from "../resultsAndOptionals/results.js";
+
+/**
+ * Calls a `fromJSON` function inside a Zod transform, reporting the `TypeError`s it throws as issues so that `safeParse` does not throw.
+ */
+function revive<T>(fromJSON: () => T, ctx: z.RefinementCtx): T {
+    try {
+        return fromJSON();
+    } catch (error) {
+        if (error instanceof TypeError) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+            return z.NEVER;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Creates a Zod schema that validates the plain object form of a {@link Result} (see {@link Result#toJSON}) and revives it into a Result.
+ * This is the safe way to read Results from untrusted input, such as the body of an HTTP response.
+ *
+ * @example
+ * ```ts
+ * // On the server
+ * response.json(Result.ok({ id: 1, name: "Alice" }));
+ *
+ * // On the client
+ * const schema = resultSchema(z.object({ id: z.number(), name: z.string() }), z.string());
+ * const result = schema.parse(await response.json()); // Result<{ id: number; name: string }, string>
+ * ```
+ *
+ * @param okSchema    The schema for the success value.
+ * @param errorSchema The schema for the error.
+ * @category Typeguarding
+ */
+export function resultSchema<T extends z.ZodTypeAny, E extends z.ZodTypeAny>(
+    okSchema: T,
+    errorSchema: E,
+): z.ZodType<Result<z.output<T>, z.output<E>>, z.ZodTypeDef, SerializedResult<z.input<T>, z.input<E>>> {
+    return z
+        .discriminatedUnion("tag", [z.object({ tag: z.literal("ok"), value: okSchema }), z.object({ tag: z.literal("error"), error: errorSchema })])
+        .transform((json, ctx) => revive(() => Result.fromJSON(json as SerializedResult<z.output<T>, z.output<E>>), ctx)) as z.ZodType<
+        Result<z.output<T>, z.output<E>>,
+        z.ZodTypeDef,
+        SerializedResult<z.input<T>, z.input<E>>
+    >;
+}
+
+/**
+ * Creates a Zod schema that validates the plain object form of an {@link Optional} (see {@link Optional#toJSON}) and revives it into an Optional.
+ *
+ * @example
+ * ```ts
+ * const schema = optionalSchema(z.string());
+ * schema.parse({ tag: "present", value: "a" }).get(); // "a"
+ * schema.parse({ tag: "empty" }).isEmpty(); // true
+ * ```
+ *
+ * @param valueSchema The schema for the value.
+ * @category Typeguarding
+ */
+export function optionalSchema<T extends z.ZodTypeAny>(
+    valueSchema: T,
+): z.ZodType<Optional<z.output<T>>, z.ZodTypeDef, SerializedOptional<z.input<T>>> {
+    return z
+        .discriminatedUnion("tag", [z.object({ tag: z.literal("present"), value: valueSchema }), z.object({ tag: z.literal("empty") })])
+        .transform((json, ctx) => revive(() => Optional.fromJSON(json as SerializedOptional<z.output<T>>), ctx)) as z.ZodType<
+        Optional<z.output<T>>,
+        z.ZodTypeDef,
+        SerializedOptional<z.input<T>>
+    >;
+}
@@ -3,12 +3,15 @@ export * from "./comparisons";
 export * from "./deepClone";
 export * from "./deepEquals";
 export * from "./duration";
+export * from "./errors";
 export * from "./fetchWithZod";
 export * from "./functions";
 export * from "./iterators";
 export * from "./match";
 export * from "./math";
+export * from "./recurrence";
 export * from "./resultsAndOptionals";
 export * from "./strings";
 export * from "./terminal";
+export * from "./timers";
 export * from "./types";
@@ -1,5 +1,5 @@
 import { randomInt } from "crypto";
-import { randomElement, randomFloat } from "./index.js";
+import { randomElement, randomFloat } from "./math/random.js";
 
 export function hasFunctionWithArity<T, Params extends readonly unknown[], K extends string>(
     object: T,
@@ -1 +1,2 @@
 export * from "./match.js";
+export * from "./matcher.js";
@@ -1,3 +1,4 @@
+import { StructuredError } from "../errors/errors.js";
 import { equalsFunction } from "../functions/functions.js";
 import { Optional } from "../resultsAndOptionals/optionals.js";
 import { Result } from "../resultsAndOptionals/results.js";
@@ -9,9 +10,9 @@ type Pattern<T, R> = [(value: T) => boolean, R];
  *
  * @category Pattern Matching
  */
-export class NoMatchError extends Error {
+export class NoMatchError extends StructuredError<"NoMatch"> {
     constructor(message: string) {
-        super(message);
+        super("NoMatch", message);
     }
 }
 
@@ -23,6 +24,7 @@ export class NoMatchError extends Error {
  * The {@link Match} object is used to match a value against a pattern. It is used as an alternative to a `switch` statement.
  * Unlike a `switch` statement, the {@link Match} object is more flexible and allows for more complex patterns.
  * This is due to the fact that instead of using constants as a pattern (like in a `switch` statement), you can use functions.
+ * For structural patterns, handlers that receive the narrowed value, and exhaustiveness checking, use {@link match} instead.
  *
  * ## Adding patterns
  *
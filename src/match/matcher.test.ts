@@ -0,0 +1,194 @@
+import { NoMatchError } from "./match.js";
+import { P, match } from "./matcher.js";
+
+type Shape = { kind: "circle"; radius: number } | { kind: "square"; size: number } | { kind: "rectangle"; width: number; height: number };
+
+const area = (shape: Shape): number =>
+    match(shape)
+        .with({ kind: "circle" }, ({ radius }) => Math.PI * radius ** 2)
+        .with({ kind: "square" }, ({ size }) => size ** 2)
+        .with({ kind: "rectangle" }, ({ width, height }) => width * height)
+        .exhaustive();
+
+test("match discriminated union test", () => {
+    expect(area({ kind: "circle", radius: 1 })).toBeCloseTo(Math.PI);
+    expect(area({ kind: "square", size: 2 })).toEqual(4);
+    expect(area({ kind: "rectangle", width: 2, height: 3 })).toEqual(6);
+});
+
+test("match exhaustive test", () => {
+    const shape = { kind: "square", size: 2 } as Shape;
+    const partial = match(shape)
+        .with({ kind: "circle" }, () => "round")
+        .with({ kind: "square" }, () => "square");
+    // @ts-expect-error The rectangle case is not handled.
+    expect(partial.exhaustive()).toEqual("square");
+    const guarded = match(shape)
+        .with({ kind: "circle", radius: P.when((radius: number) => radius > 1) }, () => "big circle")
+        .with({ kind: "square" }, () => "square")
+        .with({ kind: "rectangle" }, () => "rectangle");
+    // @ts-expect-error A predicate that is not a type guard does not cover the circle case.
+    expect(guarded.exhaustive()).toEqual("square");
+    const value = "other" as "a" | "b";
+    expect(() =>
+        match(value)
+            .with("a", () => 1)
+            .with("b", () => 2)
+            .exhaustive(),
+    ).toThrow(NoMatchError);
+    const bare = Object.create(null) as { kind: "a" };
+    expect(() =>
+        match(bare)
+            .with({ kind: "a" }, () => 1)
+            .exhaustive(),
+    ).toThrow(new NoMatchError("No pattern matched the value"));
+});
+
+test("match guard test", () => {
+    const describe = (value: string | number | boolean | null | Date): string =>
+        match(value)
+            .with(P.string, (text) => `string of length ${text.length}`)
+            .with(P.number, (number) => `number ${number.toFixed(1)}`)
+            .with(P.boolean, (bool) => `boolean ${bool ? "yes" : "no"}`)
+            .with(P.instanceOf(Date), (date) => `date ${date.getUTCFullYear()}`)
+            .with(P.nullish, () => "nothing")
+            .exhaustive();
+    expect(describe("abc")).toEqual("string of length 3");
+    expect(describe(1)).toEqual("number 1.0");
+    expect(describe(false)).toEqual("boolean no");
+    expect(describe(new Date(Date.UTC(2024, 0, 1)))).toEqual("date 2024");
+    expect(describe(null)).toEqual("nothing");
+});
+
+test("match union and not test", () => {
+    type Key = "Enter" | "Escape" | "Tab" | "Space";
+    const action = (key: Key): string =>
+        match(key)
+            .with(P.union("Enter", "Space"), (confirm) => {
+                const narrowed: "Enter" | "Space" = confirm;
+                return `confirm with ${narrowed}`;
+            })
+            .with(P.not("Escape"), (other) => {
+                const narrowed: "Tab" = other;
+                return `move with ${narrowed}`;
+            })
+            .with("Escape", () => "cancel")
+            .exhaustive();
+    expect(action("Enter")).toEqual("confirm with Enter");
+    expect(action("Tab")).toEqual("move with Tab");
+    expect(action("Escape")).toEqual("cancel");
+});
+
+test("match wildcard and nested test", () => {
+    type Event = { type: "click"; position: { x: number; y: number } } | { type: "key"; key: string; modifiers: string[] };
+    const describe = (event: Event): string =>
+        match(event)
+            .with({ type: "click", position: { x: 0, y: P._ } }, ({ position }) => `left edge at ${position.y}`)
+            .with({ type: "click" }, ({ position }) => `click at ${position.x}`)
+            .with({ type: "key", modifiers: [] }, ({ key }) => key)
+            .with({ type: "key", modifiers: ["ctrl", P.string] }, ({ key, modifiers }) => `ctrl+${modifiers[1]}+${key}`)
+            .with({ type: "key", modifiers: P.array(P.string) }, ({ modifiers }) => `${modifiers.length} modifiers`)
+            .exhaustive();
+    expect(describe({ type: "click", position: { x: 0, y: 5 } })).toEqual("left edge at 5");
+    expect(describe({ type: "click", position: { x: 3, y: 5 } })).toEqual("click at 3");
+    expect(describe({ type: "key", key: "a", modifiers: [] })).toEqual("a");
+    expect(describe({ type: "key", key: "a", modifiers: ["ctrl", "shift"] })).toEqual("ctrl+shift+a");
+    expect(describe({ type: "key", key: "a", modifiers: ["ctrl", "shift", "alt"] })).toEqual("3 modifiers");
+});
+
+test("match tuple test", () => {
+    const compare = (pair: [number, number]): string =>
+        match(pair)
+            .with([0, 0], () => "origin")
+            .with([0, P.number], ([, y]) => `on the y axis at ${y}`)
+            .with([P.number, 0], ([x]) => `on the x axis at ${x}`)
+            .otherwise(([x, y]) => `${x}, ${y}`);
+    expect(compare([0, 0])).toEqual("origin");
+    expect(compare([0, 2])).toEqual("on the y axis at 2");
+    expect(compare([3, 0])).toEqual("on the x axis at 3");
+    expect(compare([1, 2])).toEqual("1, 2");
+});
+
+test("match tuple exhaustive test", () => {
+    const pair = (value: ["a" | "b", "x" | "y"]): number =>
+        match(value)
+            .with(["a", "x"], () => 1)
+            .with(["a", "y"], () => 2)
+            .with(["b", P._], ([, second]) => (second === "x" ? 3 : 4))
+            .exhaustive();
+    expect([pair(["a", "x"]), pair(["a", "y"]), pair(["b", "x"]), pair(["b", "y"])]).toEqual([1, 2, 3, 4]);
+    const xor = (value: [boolean, boolean]): boolean =>
+        match(value)
+            .with([true, true], () => false)
+            .with([false, false], () => false)
+            .with([true, false], () => true)
+            .with([false, true], () => true)
+            .exhaustive();
+    expect(xor([true, false])).toBe(true);
+    const partial = match([true, true] as [boolean, boolean])
+        .with([true, true], () => 1)
+        .with([false, P._], () => 2);
+    // @ts-expect-error The [true, false] case is not handled.
+    expect(partial.exhaustive()).toEqual(1);
+});
+
+test("match reducer test", () => {
+    type State = { status: "idle" } | { status: "loading" } | { status: "done"; data: string };
+    type Action = { type: "fetch" } | { type: "resolve"; data: string } | { type: "reset" };
+    const reduce = (state: State, action: Action): State =>
+        match<[State, Action]>([state, action])
+            .with([{ status: "idle" }, { type: "fetch" }], (): State => ({ status: "loading" }))
+            .with([{ status: "loading" }, { type: "resolve" }], ([, { data }]): State => ({ status: "done", data }))
+            .with([P._, { type: "reset" }], (): State => ({ status: "idle" }))
+            .with([{ status: "idle" }, { type: "resolve" }], ([current]) => current)
+            .with([{ status: "loading" }, { type: "fetch" }], ([current]) => current)
+            .with([{ status: "done" }, P._], ([current]) => current)
+            .exhaustive();
+    expect(reduce({ status: "idle" }, { type: "fetch" })).toEqual({ status: "loading" });
+    expect(reduce({ status: "loading" }, { type: "resolve", data: "a" })).toEqual({ status: "done", data: "a" });
+    expect(reduce({ status: "done", data: "a" }, { type: "reset" })).toEqual({ status: "idle" });
+    expect(reduce({ status: "done", data: "a" }, { type: "fetch" })).toEqual({ status: "done", data: "a" });
+});
+
+test("match unknown test", () => {
+    const parse = (json: unknown): string =>
+        match(json)
+            .with({ version: 1, name: P.string }, ({ name }) => `v1 ${name}`)
+            .with({ version: 2, names: P.array(P.string) }, ({ names }) => `v2 ${names.join(", ")}`)
+            .otherwise(() => "unknown");
+    expect(parse({ version: 1, name: "a" })).toEqual("v1 a");
+    expect(parse({ version: 2, names: ["a", "b"] })).toEqual("v2 a, b");
+    expect(parse({ version: 2, names: ["a", 1] })).toEqual("unknown");
+    expect(parse(null)).toEqual("unknown");
+    expect(parse("version")).toEqual("unknown");
+});
+
+test("match result test", () => {
+    expect(
+        match(5)
+            .with(1, () => "one")
+            .getAsResult()
+            .isError(),
+    ).toBe(true);
+    expect(
+        match(5)
+            .with(
+                P.when((value: number) => value > 3),
+                (value) => value * 2,
+            )
+            .getAsResult()
+            .get(),
+    ).toEqual(10);
+    expect(
+        match(NaN)
+            .with(NaN, () => "not a number")
+            .getAsOptional()
+            .get(),
+    ).toEqual("not a number");
+    expect(
+        match(1)
+            .with(1, () => "first")
+            .with(P.number, () => "second")
+            .otherwise(() => "none"),
+    ).toEqual("first");
+});
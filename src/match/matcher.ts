@@ -0,0 +1,412 @@
+import { Optional } from "../resultsAndOptionals/optionals.js";
+import { Result } from "../resultsAndOptionals/results.js";
+import { NoMatchError } from "./match.js";
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+/**
+ * A pattern that is used when the type of the value is not known.
+ */
+type UnknownPattern = Primitive | Guard<unknown> | readonly UnknownPattern[] | { readonly [key: string]: UnknownPattern };
+
+/**
+ * Marks the values that a {@link P.not} pattern does not match.
+ */
+type Not<X> = { readonly "~not": X };
+
+/**
+ * Marks a pattern that only matches some of the values of its type, so it narrows nothing and never makes a match exhaustive.
+ * This is used for {@link P.when} predicates that are not type guards, and for literals that TypeScript widened, such as the `0` in `[0, P.number]`.
+ */
+type Refined = { readonly "~refined": true };
+
+/**
+ * The patterns that can be used to match a value of type `T`: the literal values of `T`, {@link Guard}s such as {@link P.string},
+ * and objects, tuples, and arrays of patterns.
+ *
+ * @category Pattern Matching
+ */
+export type Pattern<T> = 0 extends 1 & T
+    ? UnknownPattern
+    : unknown extends T
+    ? UnknownPattern
+    :
+          | Guard<unknown>
+          | (T extends Primitive ? T : never)
+          | (T extends readonly unknown[]
+                ? { readonly [K in keyof T]: Pattern<T[K]> } | readonly [] | readonly [Pattern<T[number]>, ...Pattern<T[number]>[]]
+                : T extends object
+                ? { readonly [K in keyof T]?: Pattern<T[K]> }
+                : never);
+
+/**
+ * The type that a pattern describes, with markers for {@link P.not} and {@link P.when}.
+ * The check for {@link UnknownPattern} stops TypeScript from expanding the recursive constraint forever while it is still inferring a pattern.
+ */
+type InvertPattern<Pat> = [UnknownPattern] extends [Pat]
+    ? unknown
+    : Pat extends Guard<infer O>
+    ? O
+    : Pat extends Primitive
+    ? string extends Pat
+        ? Refined
+        : number extends Pat
+        ? Refined
+        : bigint extends Pat
+        ? Refined
+        : Pat
+    : Pat extends readonly unknown[]
+    ? { -readonly [K in keyof Pat]: InvertPattern<Pat[K]> }
+    : { -readonly [K in keyof Pat]: InvertPattern<Pat[K]> };
+
+/**
+ * Replaces the markers in a pattern type with `unknown`.
+ */
+type Clean<I> = I extends Not<unknown> | Refined
+    ? unknown
+    : I extends readonly unknown[]
+    ? { [K in keyof I]: Clean<I[K]> }
+    : I extends Record<string, unknown>
+    ? { [K in keyof I]: Clean<I[K]> }
+    : I;
+
+type DropIfAnyNever<O> = true extends { [K in keyof O]-?: [O[K]] extends [never] ? true : false }[keyof O] ? never : O;
+
+type ElementPattern<I, K> = I extends readonly unknown[] ? (number extends I["length"] ? I[number] : K extends keyof I ? I[K] : unknown) : unknown;
+
+/**
+ * Narrows `T` to the values that can match the pattern type `I`.
+ */
+type Narrow<T, I> = 0 extends 1 & T
+    ? Clean<I>
+    : unknown extends I
+    ? T
+    : [I] extends [Not<infer X>]
+    ? Unmatched<T, X>
+    : [I] extends [Refined]
+    ? T
+    : T extends unknown
+    ? NarrowMember<T, I>
+    : never;
+
+type NarrowMember<T, I> = T extends I
+    ? T
+    : I extends T
+    ? Clean<I>
+    : T extends readonly unknown[]
+    ? I extends readonly unknown[]
+        ? number extends I["length"] | T["length"] | (I["length"] extends T["length"] ? number : never)
+            ? DropIfAnyNever<{ [K in keyof T]: Narrow<T[K], ElementPattern<I, K>> }>
+            : never
+        : never
+    : T extends object
+    ? I extends readonly unknown[]
+        ? never
+        : I extends object
+        ? [Exclude<keyof I, keyof T>] extends [never]
+            ? DropIfAnyNever<{ [K in keyof T]: K extends keyof I ? Narrow<T[K], I[K]> : T[K] }>
+            : never
+        : never
+    : never;
+
+/**
+ * Whether the pattern type `I` matches every value of `T`, which is a single member of a union.
+ */
+type IsFullMatch<T, I> = unknown extends I
+    ? true
+    : [I] extends [Not<infer X>]
+    ? [Narrow<T, X>] extends [never]
+        ? true
+        : false
+    : [I] extends [Refined]
+    ? false
+    : [T] extends [I]
+    ? true
+    : T extends readonly unknown[]
+    ? I extends readonly unknown[]
+        ? number extends T["length"] | I["length"]
+            ? false
+            : T["length"] extends I["length"]
+            ? false extends { [K in keyof T]: [Unmatched<T[K], ElementPattern<I, K>>] extends [never] ? true : false }[number]
+                ? false
+                : true
+            : false
+        : false
+    : T extends object
+    ? I extends readonly unknown[]
+        ? false
+        : I extends object
+        ? [Exclude<keyof I, keyof T>] extends [never]
+            ? false extends { [K in keyof I]-?: [Unmatched<T[K & keyof T], I[K]>] extends [never] ? true : false }[keyof I]
+                ? false
+                : true
+            : false
+        : false
+    : false;
+
+/**
+ * The members of the union `T` that are not completely matched by the pattern type `I`.
+ */
+type Unmatched<T, I> = T extends unknown ? (IsFullMatch<T, I> extends true ? never : T) : never;
+
+/**
+ * Splits tuples whose elements are unions into a union of tuples, one for each combination, so that `["a" | "b", boolean]` becomes
+ * `["a", true] | ["a", false] | ["b", true] | ["b", false]`. This lets several patterns cover a tuple together, one combination at a time.
+ * Tuples nested in tuples are split too, but tuples with optional or rest elements are left as they are.
+ */
+type SplitTuples<T> = 0 extends 1 & T
+    ? T
+    : T extends readonly unknown[]
+    ? number extends T["length"]
+        ? T
+        : [T] extends [Required<T>]
+        ? T extends unknown[]
+            ? Combinations<T>
+            : Readonly<Combinations<T>>
+        : T
+    : T;
+
+type Combinations<T extends readonly unknown[]> = T extends readonly [infer Head, ...infer Tail]
+    ? Prepend<SplitTuples<Head>, Combinations<Tail>>
+    : [];
+
+type Prepend<Head, Tail> = Head extends unknown ? (Tail extends readonly unknown[] ? [Head, ...Tail] : never) : never;
+
+/**
+ * A pattern that checks a value with a function, such as {@link P.string}. Create guards with the functions in {@link P}.
+ *
+ * @template O The type of the values that the guard matches. This is used to narrow the type of the value in a {@link Matcher#with} handler.
+ * @category Pattern Matching
+ */
+export class Guard<O> {
+    /**
+     * Only used for type checking, to keep track of the type of the values that the guard matches. It is always undefined.
+     */
+    declare readonly "~type"?: O;
+    readonly #test: (value: unknown) => boolean;
+    /**
+     * Creates a new guard. Prefer {@link P.when} to create custom guards.
+     *
+     * @param test The function that checks whether a value matches.
+     */
+    constructor(test: (value: unknown) => boolean) {
+        this.#test = test;
+    }
+    /**
+     * Returns whether a value matches this guard.
+     *
+     * @param value The value to check.
+     */
+    test(value: unknown): boolean {
+        return this.#test(value);
+    }
+}
+
+function matchesPattern(pattern: unknown, value: unknown): boolean {
+    if (pattern instanceof Guard) {
+        return pattern.test(value);
+    }
+    if (Array.isArray(pattern)) {
+        return Array.isArray(value) && value.length === pattern.length && pattern.every((item, index) => matchesPattern(item, value[index]));
+    }
+    if (typeof pattern === "object" && pattern !== null) {
+        return (
+            ((typeof value === "object" && value !== null) || typeof value === "function") &&
+            Object.entries(pattern).every(([key, item]) => matchesPattern(item, (value as Record<string, unknown>)[key]))
+        );
+    }
+    return Object.is(pattern, value) || pattern === value;
+}
+
+function when<T, S extends T>(predicate: (value: T) => value is S): Guard<S>;
+function when<T>(predicate: (value: T) => boolean): Guard<Refined>;
+function when(predicate: (value: unknown) => boolean): Guard<unknown> {
+    return new Guard(predicate);
+}
+
+/**
+ * Patterns for use with {@link match}. Values that are not guards, such as `"circle"` or `5`, match values that are equal to them,
+ * and objects and arrays of patterns match values with the same structure.
+ *
+ * @example
+ * ```ts
+ * match(value)
+ *     .with(P.string, (text) => text.length)
+ *     .with({ items: P.array(P.number) }, ({ items }) => items.length)
+ *     .with(P.union(null, undefined), () => 0)
+ *     .otherwise(() => -1);
+ * ```
+ *
+ * @category Pattern Matching
+ */
+export const P = {
+    /**
+     * Matches any value, including `undefined`. Useful for parts of an object or tuple that do not matter.
+     */
+    _: new Guard<unknown>(() => true),
+    /**
+     * Matches strings.
+     */
+    string: new Guard<string>((value) => typeof value === "string"),
+    /**
+     * Matches numbers, including `NaN`.
+     */
+    number: new Guard<number>((value) => typeof value === "number"),
+    /**
+     * Matches booleans.
+     */
+    boolean: new Guard<boolean>((value) => typeof value === "boolean"),
+    /**
+     * Matches bigints.
+     */
+    bigint: new Guard<bigint>((value) => typeof value === "bigint"),
+    /**
+     * Matches `null` and `undefined`.
+     */
+    nullish: new Guard<null | undefined>((value) => value === null || value === undefined),
+    /**
+     * Matches instances of a class, checked with `instanceof`.
+     *
+     * @param constructor The class to check for.
+     */
+    instanceOf<C extends abstract new (...args: never[]) => unknown>(constructor: C): Guard<InstanceType<C>> {
+        return new Guard((value) => value instanceof constructor);
+    },
+    /**
+     * Matches values that match any of the given patterns.
+     *
+     * @param patterns The patterns to check.
+     */
+    union<Pats extends readonly UnknownPattern[]>(...patterns: Pats): Guard<InvertPattern<Pats[number]>> {
+        return new Guard((value) => patterns.some((pattern) => matchesPattern(pattern, value)));
+    },
+    /**
+     * Matches values that do not match the given pattern.
+     *
+     * @param pattern The pattern that values must not match.
+     */
+    not<Pat extends UnknownPattern>(pattern: Pat): Guard<Not<InvertPattern<Pat>>> {
+        return new Guard((value) => !matchesPattern(pattern, value));
+    },
+    /**
+     * Matches arrays of any length whose items all match the given pattern.
+     *
+     * @param pattern The pattern for the items.
+     */
+    array<Pat extends UnknownPattern>(pattern: Pat): Guard<InvertPattern<Pat>[]> {
+        return new Guard((value) => Array.isArray(value) && value.every((item) => matchesPattern(pattern, item)));
+    },
+    /**
+     * Matches values for which a function returns true. If the function is a type guard, the value is narrowed to its type.
+     */
+    when,
+};
+
+/**
+ * A builder that matches a value against patterns, created by {@link match}. The handler of the first pattern that matches is called,
+ * and its return value is the result.
+ *
+ * @template T         The type of the value to match.
+ * @template R         The type of the results of the handlers so far.
+ * @template Remaining The members of `T` that no pattern has completely matched yet.
+ * @category Pattern Matching
+ */
+export class Matcher<T, R = never, Remaining = T> {
+    readonly #value: T;
+    #matched: { result: R } | undefined;
+    /**
+     * Creates a new matcher. Prefer {@link match}.
+     *
+     * @param value The value to match.
+     */
+    constructor(value: T) {
+        this.#value = value;
+    }
+    /**
+     * Adds a pattern. If it is the first pattern that matches the value, the handler is called with the value. The type of the value is narrowed
+     * to what the pattern matches, leaving out the cases that earlier patterns already handled.
+     *
+     * @param pattern The pattern to match the value against.
+     * @param handler The function to call with the value if the pattern matches.
+     * @returns The matcher, for method chaining.
+     */
+    with<Pat extends Pattern<T>, U>(
+        pattern: Pat,
+        handler: (value: Narrow<Remaining, InvertPattern<Pat>>) => U,
+    ): Matcher<T, R | U, Unmatched<SplitTuples<Remaining>, InvertPattern<Pat>>> {
+        if (this.#matched === undefined && matchesPattern(pattern, this.#value)) {
+            this.#matched = { result: handler(this.#value as never) as unknown as R };
+        }
+        return this as unknown as Matcher<T, R | U, Unmatched<SplitTuples<Remaining>, InvertPattern<Pat>>>;
+    }
+    /**
+     * Returns the result of the handler that matched, or calls a fallback function if no pattern matched.
+     *
+     * @param handler The function to call with the value if no pattern matched.
+     */
+    otherwise<U>(handler: (value: Remaining) => U): R | U {
+        return this.#matched === undefined ? handler(this.#value as unknown as Remaining) : this.#matched.result;
+    }
+    /**
+     * Returns the result of the handler that matched. This only compiles if the patterns cover every member of the union type of the value,
+     * such as every case of a discriminated union. A pattern covers a member if it matches all of its values, so patterns that use
+     * {@link P.when} without a type guard do not count. Tuples are covered one combination of their elements at a time,
+     * so `["a", P._]` and `["b", P._]` together cover `["a" | "b", boolean]`.
+     *
+     * @example
+     * ```ts
+     * type Shape = { kind: "circle"; radius: number } | { kind: "square"; size: number };
+     *
+     * const area = match(shape)
+     *     .with({ kind: "circle" }, ({ radius }) => Math.PI * radius ** 2)
+     *     .with({ kind: "square" }, ({ size }) => size ** 2)
+     *     .exhaustive(); // fails to compile if a kind of shape is added
+     * ```
+     *
+     * @throws {NoMatchError} If no pattern matched, which can only happen if the value does not have the type it was declared with.
+     */
+    exhaustive(...unhandled: [Remaining] extends [never] ? [] : [unhandled: Remaining]): R;
+    exhaustive(): R {
+        if (this.#matched === undefined) {
+            throw new NoMatchError("No pattern matched the value");
+        }
+        return this.#matched.result;
+    }
+    /**
+     * Returns the result of the handler that matched as a {@link Result}, or a {@link NoMatchError} if no pattern matched.
+     */
+    getAsResult(): Result<R, NoMatchError> {
+        return this.#matched === undefined ? Result.error(new NoMatchError("No pattern matched the value")) : Result.ok(this.#matched.result);
+    }
+    /**
+     * Returns the result of the handler that matched as an {@link Optional}, which is empty if no pattern matched.
+     */
+    getAsOptional(): Optional<R> {
+        return this.#matched === undefined ? Optional.empty() : Optional.of(this.#matched.result);
+    }
+}
+
+/**
+ * Matches a value against patterns, with the value narrowed in each handler. Used as a type-safe alternative to a `switch` statement
+ * or a chain of `if` statements. Unlike {@link Match}, the results are computed by handlers, and {@link Matcher#exhaustive} checks
+ * at compile time that every case is handled.
+ *
+ * @example
+ * ```ts
+ * type Event = { type: "click"; x: number; y: number } | { type: "key"; key: string } | { type: "scroll"; delta: number };
+ *
+ * const description = match(event)
+ *     .with({ type: "click" }, ({ x, y }) => `Clicked at ${x}, ${y}`)
+ *     .with({ type: "key", key: P.union("Enter", "Escape") }, ({ key }) => `Pressed ${key}`)
+ *     .with({ type: "key" }, () => "Typed")
+ *     .with({ type: "scroll", delta: P.when((delta: number) => delta > 0) }, () => "Scrolled down")
+ *     .with({ type: "scroll" }, () => "Scrolled up")
+ *     .exhaustive();
+ * ```
+ *
+ * @param value The value to match.
+ * @category Pattern Matching
+ */
+export function match<T>(value: T): Matcher<T> {
+    return new Matcher(value);
+}
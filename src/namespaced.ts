@@ -3,12 +3,15 @@ export * as comparisons from "./comparisons";
 export * as deepClone from "./deepClone";
 export * as deepEquals from "./deepEquals";
 export * as duration from "./duration";
+export * as errors from "./errors";
 export * as fetchWithZod from "./fetchWithZod";
 export * as functions from "./functions";
 export * as iterators from "./iterators";
 export * as match from "./match";
 export * as math from "./math";
+export * as recurrence from "./recurrence";
 export * as resultsAndOptionals from "./resultsAndOptionals";
 export * as strings from "./strings";
 export * as terminal from "./terminal";
+export * as timers from "./timers";
 export * as types from "./types";
@@ -0,0 +1,34 @@
+import { Optional } from "../resultsAndOptionals/optionals.js";
+
+/**
+ * Calls `step` repeatedly, starting from `from` and then from each date it returns, until it has collected `count` dates or `step` returns an empty Optional.
+ *
+ * @throws {RangeError} If the count is not a non-negative integer.
+ */
+export function collect(count: number, from: Date, step: (date: Date) => Optional<Date>): Date[] {
+    if (!Number.isInteger(count) || count < 0) {
+        throw new RangeError(`The count must be a non-negative integer, got ${count}.`);
+    }
+    const dates: Date[] = [];
+    let current = from;
+    while (dates.length < count) {
+        const next = step(current);
+        if (next.isEmpty()) {
+            break;
+        }
+        current = next.get();
+        dates.push(current);
+    }
+    return dates;
+}
+
+/**
+ * Throws if a date is invalid, so that searching from it does not produce invalid dates or never finish.
+ *
+ * @throws {RangeError} If the date is invalid.
+ */
+export function assertValidDate(date: Date, name = "date to search from"): void {
+    if (Number.isNaN(date.getTime())) {
+        throw new RangeError(`The ${name} must be a valid date.`);
+    }
+}
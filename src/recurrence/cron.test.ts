@@ -0,0 +1,94 @@
+import { CronExpression, CronParseError } from "./cron.js";
+
+const utc = (expression: string): CronExpression => CronExpression.parse(expression, { timeZone: "UTC" }).get();
+const iso = (dates: Date[]): string[] => dates.map((date) => date.toISOString());
+
+test("cron parse test", () => {
+    expect(utc("*/15 9-17 * * mon-fri").toString()).toEqual("*/15 9-17 * * mon-fri");
+    expect(CronExpression.parse("0 0 * * *").get().timeZone).toEqual("local");
+    const error = CronExpression.parse("0 24 * * *").getError();
+    expect(error).toBeInstanceOf(CronParseError);
+    expect(error.message).toEqual('The hour 24 is out of range (0-23) at position 2 in "0 24 * * *"');
+    expect(CronExpression.parse("0 0 * foo *").getError().message).toEqual('Unknown month "foo" at position 6 in "0 0 * foo *"');
+    expect(CronExpression.parse("0 0 1,5-2 * *").getError().position).toEqual(6);
+    expect(CronExpression.parse("*/0 * * * *").getError().message).toContain("must be a positive integer");
+    expect(CronExpression.parse("? * * * *").isError()).toBe(true);
+    expect(CronExpression.parse("* * * *").getError().message).toEqual('Expected 5 or 6 fields, got 4 at position 7 in "* * * *"');
+    expect(CronExpression.parse("@fortnightly").isError()).toBe(true);
+    expect(() => CronExpression.parse("* * * * *", { timeZone: "Mars/Olympus_Mons" })).toThrow(RangeError);
+});
+
+test("cron next test", () => {
+    const start = new Date("2024-02-27T10:07:30Z");
+    expect(iso(utc("*/15 9-17 * * mon-fri").next(3, start))).toEqual([
+        "2024-02-27T10:15:00.000Z",
+        "2024-02-27T10:30:00.000Z",
+        "2024-02-27T10:45:00.000Z",
+    ]);
+    expect(iso(utc("0 0 29 feb *").next(2, start))).toEqual(["2024-02-29T00:00:00.000Z", "2028-02-29T00:00:00.000Z"]);
+    expect(iso(utc("30 12 1 jan,jul ?").next(2, start))).toEqual(["2024-07-01T12:30:00.000Z", "2025-01-01T12:30:00.000Z"]);
+    expect(iso(utc("15,45 * * * * *").next(2, start))).toEqual(["2024-02-27T10:07:45.000Z", "2024-02-27T10:08:15.000Z"]);
+    expect(iso(utc("@monthly").next(1, start))).toEqual(["2024-03-01T00:00:00.000Z"]);
+    expect(utc("0 0 31 feb *").nextAfter(start).isEmpty()).toBe(true);
+    expect(utc("0 0 31 feb *").next(5, start)).toEqual([]);
+});
+
+test("cron day of month and day of week test", () => {
+    // Both restricted: either one matches.
+    const either = utc("0 0 13 * fri");
+    expect(iso(either.next(3, new Date("2024-09-01T00:00:00Z")))).toEqual([
+        "2024-09-06T00:00:00.000Z",
+        "2024-09-13T00:00:00.000Z",
+        "2024-09-20T00:00:00.000Z",
+    ]);
+    // Only the day of week is restricted, and 7 is Sunday.
+    expect(iso(utc("0 0 * * 7").next(1, new Date("2024-09-01T00:00:00Z")))).toEqual(["2024-09-08T00:00:00.000Z"]);
+    expect(utc("0 0 * * sun").matches(new Date("2024-09-08T00:00:00.999Z"))).toBe(true);
+    expect(utc("0 0 * * sun").matches(new Date("2024-09-08T00:00:01Z"))).toBe(false);
+});
+
+test("cron previous test", () => {
+    const cron = utc("0 9 * * mon-fri");
+    expect(iso(cron.previous(3, new Date("2024-03-04T09:00:00Z")))).toEqual([
+        "2024-03-01T09:00:00.000Z",
+        "2024-02-29T09:00:00.000Z",
+        "2024-02-28T09:00:00.000Z",
+    ]);
+    expect(cron.previousBefore(new Date("2024-03-04T09:00:00.001Z")).get().toISOString()).toEqual("2024-03-04T09:00:00.000Z");
+    expect(utc("0 0 31 feb *").previousBefore(new Date()).isEmpty()).toBe(true);
+});
+
+test("cron time zone test", () => {
+    const cron = CronExpression.parse("30 9 * * mon-fri", { timeZone: "Europe/Berlin" }).get();
+    expect(cron.nextAfter(new Date("2024-03-01T12:00:00Z")).get().toISOString()).toEqual("2024-03-04T08:30:00.000Z");
+    expect(cron.nextAfter(new Date("2024-04-01T12:00:00Z")).get().toISOString()).toEqual("2024-04-02T07:30:00.000Z");
+    // On March 10, 2024, the clocks in New York jump from 02:00 to 03:00, so 02:30 runs at 03:30 instead.
+    const newYork = (expression: string): CronExpression => CronExpression.parse(expression, { timeZone: "America/New_York" }).get();
+    expect(iso(newYork("30 2 * * *").next(3, new Date("2024-03-09T00:00:00Z")))).toEqual([
+        "2024-03-09T07:30:00.000Z",
+        "2024-03-10T07:30:00.000Z",
+        "2024-03-11T06:30:00.000Z",
+    ]);
+    // On November 3, 2024, the clocks go back from 02:00 to 01:00, so 01:30 happens twice but only fires once.
+    expect(iso(newYork("30 * * * *").next(3, new Date("2024-11-03T05:00:00Z")))).toEqual([
+        "2024-11-03T05:30:00.000Z",
+        "2024-11-03T07:30:00.000Z",
+        "2024-11-03T08:30:00.000Z",
+    ]);
+    expect(newYork("30 * * * *").previousBefore(new Date("2024-11-03T07:30:00Z")).get().toISOString()).toEqual("2024-11-03T05:30:00.000Z");
+});
+
+test("cron previous across the end of daylight saving time test", () => {
+    // The clocks in New York go back from 02:00 to 01:00 at 06:00 UTC, so 01:15 EST is after 01:30 EDT.
+    const cron = CronExpression.parse("30 1 * * *", { timeZone: "America/New_York" }).get();
+    expect(cron.previousBefore(new Date("2024-11-03T06:15:00Z")).get().toISOString()).toEqual("2024-11-03T05:30:00.000Z");
+    expect(cron.previousBefore(new Date("2024-11-03T05:30:00Z")).get().toISOString()).toEqual("2024-11-02T05:30:00.000Z");
+    expect(iso(cron.previous(2, new Date("2024-11-04T12:00:00Z")))).toEqual(["2024-11-04T06:30:00.000Z", "2024-11-03T05:30:00.000Z"]);
+});
+
+test("cron invalid date test", () => {
+    const cron = utc("* * * * *");
+    expect(() => cron.nextAfter(new Date("x"))).toThrow(RangeError);
+    expect(() => cron.previousBefore(new Date("x"))).toThrow(RangeError);
+    expect(() => cron.next(1, new Date(NaN))).toThrow(RangeError);
+});
@@ -0,0 +1,366 @@
+import { StructuredError } from "../errors/errors.js";
+import { Optional } from "../resultsAndOptionals/optionals.js";
+import { Result } from "../resultsAndOptionals/results.js";
+import { assertValidDate, collect } from "./collect.js";
+import { Recurrence } from "./schedule.js";
+import { OffsetFunction, instantToWall, resolveTimeZone, wallToInstant } from "./timeZones.js";
+
+/**
+ * An error that occurs when {@link CronExpression.parse} is given an invalid cron expression.
+ *
+ * @category Recurrence
+ */
+export class CronParseError extends StructuredError<"CronParse"> {
+    constructor(
+        message: string,
+        /**
+         * The string that was being parsed.
+         */
+        public readonly input: string,
+        /**
+         * The index of the character in the input where the error was found.
+         */
+        public readonly position: number,
+    ) {
+        super("CronParse", `${message} at position ${position} in "${input}"`);
+    }
+}
+
+/**
+ * Options for {@link CronExpression.parse}.
+ *
+ * @category Recurrence
+ */
+export type CronOptions = {
+    /**
+     * The time zone that the fields of the expression are in: `"local"` for the time zone of the runtime, `"UTC"`,
+     * or an IANA time zone name such as `"America/New_York"`. Defaults to `"local"`.
+     */
+    timeZone?: string;
+};
+
+type FieldSpec = {
+    name: string;
+    min: number;
+    max: number;
+    /**
+     * The names that can be used instead of numbers, starting at `min`.
+     */
+    names?: readonly string[];
+};
+
+const SECOND: FieldSpec = { name: "second", min: 0, max: 59 };
+const MINUTE: FieldSpec = { name: "minute", min: 0, max: 59 };
+const HOUR: FieldSpec = { name: "hour", min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: "day of month", min: 1, max: 31 };
+const MONTH: FieldSpec = {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"],
+};
+// Both 0 and 7 are Sunday.
+const DAY_OF_WEEK: FieldSpec = { name: "day of week", min: 0, max: 7, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] };
+
+const MACROS: Record<string, string> = {
+    "@yearly": "0 0 1 1 *",
+    "@annually": "0 0 1 1 *",
+    "@monthly": "0 0 1 * *",
+    "@weekly": "0 0 * * 0",
+    "@daily": "0 0 * * *",
+    "@midnight": "0 0 * * *",
+    "@hourly": "0 * * * *",
+};
+
+/**
+ * How many years to search before giving up on finding a matching time. Leap days are at most 8 years apart, so any expression that can match
+ * at all matches within this window.
+ */
+const SEARCH_YEARS = 10;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses one item of a field, such as `5`, `mon-fri`, `10-40/5`, or `*` with a step, into the values it matches.
+ */
+function parseItem(item: string, spec: FieldSpec, input: string, position: number): number[] {
+    const match = /^(\*|\?|[a-z0-9]+)(?:-([a-z0-9]+))?(?:\/([a-z0-9]+))?$/i.exec(item);
+    if (!match) {
+        throw new CronParseError(`Invalid ${spec.name} "${item}"`, input, position);
+    }
+    const [, startText, endText, stepText] = match;
+    const parseValue = (text: string): number => {
+        const value = /^\d+$/.test(text) ? parseInt(text, 10) : (spec.names?.indexOf(text.toLowerCase()) ?? -1) + spec.min;
+        if (value < spec.min || value > spec.max) {
+            const message = /^\d+$/.test(text)
+                ? `The ${spec.name} ${text} is out of range (${spec.min}-${spec.max})`
+                : `Unknown ${spec.name} "${text}"`;
+            throw new CronParseError(message, input, position);
+        }
+        return value;
+    };
+    const isWildcard = startText === "*" || startText === "?";
+    if (startText === "?" && spec !== DAY_OF_MONTH && spec !== DAY_OF_WEEK) {
+        throw new CronParseError(`"?" can only be used for the day of month or day of week, not the ${spec.name}`, input, position);
+    }
+    if (isWildcard && endText !== undefined) {
+        throw new CronParseError(`Invalid ${spec.name} "${item}"`, input, position);
+    }
+    const start = isWildcard ? spec.min : parseValue(startText);
+    // A step without a range, such as 5/15, runs from the start to the end of the field.
+    const end = isWildcard || (endText === undefined && stepText !== undefined) ? spec.max : endText === undefined ? start : parseValue(endText);
+    const step = stepText === undefined ? 1 : /^\d+$/.test(stepText) ? parseInt(stepText, 10) : NaN;
+    if (!(step > 0)) {
+        throw new CronParseError(`The step "${stepText}" must be a positive integer`, input, position);
+    }
+    if (end < start) {
+        throw new CronParseError(`The range "${item}" starts after it ends`, input, position);
+    }
+    const values: number[] = [];
+    for (let value = start; value <= end; value += step) {
+        values.push(value);
+    }
+    return values;
+}
+
+function parseField(field: string, spec: FieldSpec, input: string, position: number): Set<number> {
+    const values = new Set<number>();
+    let itemPosition = position;
+    for (const item of field.split(",")) {
+        for (const value of parseItem(item, spec, input, itemPosition)) {
+            values.add(spec === DAY_OF_WEEK && value === 7 ? 0 : value);
+        }
+        itemPosition += item.length + 1;
+    }
+    return values;
+}
+
+type CronFields = {
+    seconds: Set<number>;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    /**
+     * Whether the day of month and day of week are restricted, rather than `*` or `?`.
+     * If both are restricted, a day matches if either of them matches, like in the original cron.
+     */
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+};
+
+function parseFields(input: string): CronFields {
+    const trimmed = input.trim();
+    const expression = trimmed.startsWith("@") ? MACROS[trimmed.toLowerCase()] : input;
+    if (expression === undefined) {
+        throw new CronParseError(`Unknown macro "${trimmed}"`, input, input.indexOf(trimmed));
+    }
+    const tokens = [...expression.matchAll(/\S+/g)].map((match) => ({ text: match[0], position: expression === input ? match.index ?? 0 : 0 }));
+    if (tokens.length !== 5 && tokens.length !== 6) {
+        throw new CronParseError(`Expected 5 or 6 fields, got ${tokens.length}`, input, tokens.length > 6 ? tokens[6].position : input.length);
+    }
+    // The optional seconds field comes first.
+    const specs = tokens.length === 6 ? [SECOND, MINUTE, HOUR, DAY_OF_MONTH, MONTH, DAY_OF_WEEK] : [MINUTE, HOUR, DAY_OF_MONTH, MONTH, DAY_OF_WEEK];
+    const sets = tokens.map(({ text, position }, index) => parseField(text, specs[index], input, position));
+    const [seconds, minutes, hours, daysOfMonth, months, daysOfWeek] = tokens.length === 6 ? sets : [new Set([0]), ...sets];
+    const isRestricted = (text: string): boolean => text !== "*" && text !== "?";
+    return {
+        seconds,
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        dayOfMonthRestricted: isRestricted(tokens[tokens.length - 3].text),
+        dayOfWeekRestricted: isRestricted(tokens[tokens.length - 1].text),
+    };
+}
+
+/**
+ * A parsed cron expression, which describes a schedule of wall-clock times such as "every weekday at 09:30".
+ *
+ * Expressions have 5 fields (minute, hour, day of month, month, and day of week) or 6 fields with a leading second field.
+ * Each field can be `*`, a number, a name (`jan`-`dec` for months and `sun`-`sat` for days of the week), a range (`mon-fri`),
+ * a step (`10-40/5`, or `5/15` to run from 5 to the end of the field, or `*` followed by a step), or a comma-separated list of these. The day fields also accept `?` as an alias for `*`.
+ * Both 0 and 7 are Sunday. The macros `@yearly`, `@annually`, `@monthly`, `@weekly`, `@daily`, `@midnight`, and `@hourly` are also supported.
+ *
+ * Like the original cron, if both the day of month and the day of week are restricted, a day matches if *either* of them matches,
+ * so `0 0 13 * fri` fires on every 13th and every Friday.
+ *
+ * ## Time zones
+ *
+ * The fields are matched against the wall-clock time in the time zone from the {@link CronOptions}, which is resolved with `Intl`.
+ * Each matching wall-clock time fires once:
+ *
+ * - When the clocks are turned back and a time happens twice, only the first one fires.
+ * - When the clocks are turned forward and a time is skipped, it fires later by the length of the gap, so a job at 02:30 runs at 03:30 instead.
+ *
+ * @example
+ * ```ts
+ * const cron = CronExpression.parse("30 9 * * mon-fri", { timeZone: "Europe/Berlin" }).get();
+ * cron.nextAfter(new Date("2024-03-01T12:00:00Z")).get(); // Monday, March 4, 2024 at 09:30 in Berlin (08:30 UTC)
+ * cron.next(3); // the next three weekday mornings
+ *
+ * CronExpression.parse("0/15 * * * * *").get().previousBefore(); // the last time the seconds were a multiple of 15
+ * CronExpression.parse("61 * * * *").getError().message; // "The minute 61 is out of range (0-59) at position 0 in "61 * * * *""
+ * ```
+ *
+ * @category Recurrence
+ */
+export class CronExpression implements Recurrence {
+    readonly #fields: CronFields;
+    readonly #offsetAt: OffsetFunction;
+    private constructor(
+        /**
+         * The expression that was parsed.
+         */
+        public readonly expression: string,
+        /**
+         * The time zone that the expression is matched in.
+         */
+        public readonly timeZone: string,
+        fields: CronFields,
+    ) {
+        this.#fields = fields;
+        this.#offsetAt = resolveTimeZone(timeZone);
+    }
+    /**
+     * Parses a cron expression.
+     *
+     * @param expression The cron expression, with 5 or 6 fields or a macro such as `@daily`. Names are case-insensitive.
+     * @param options    Options for the expression.
+     * @returns A Result containing the parsed expression, or an error pointing at the offending position in the string.
+     * @throws {RangeError} If the time zone is not supported by `Intl`.
+     */
+    static parse(expression: string, { timeZone = "local" }: CronOptions = {}): Result<CronExpression, CronParseError> {
+        let fields: CronFields;
+        try {
+            fields = parseFields(expression);
+        } catch (error) {
+            if (error instanceof CronParseError) {
+                return Result.error(error);
+            }
+            throw error;
+        }
+        return Result.ok(new CronExpression(expression, timeZone, fields));
+    }
+    /**
+     * Returns whether a date matches this expression, to the second.
+     *
+     * @param date The date to check.
+     */
+    matches(date: Date): boolean {
+        return this.#matchesWall(new Date(Math.floor(instantToWall(date.getTime(), this.#offsetAt) / 1000) * 1000));
+    }
+    /**
+     * Returns the first time that matches this expression strictly after a date.
+     *
+     * @param after The date to search from. Defaults to now.
+     * @returns The next time, or an empty Optional if the expression does not match within the next 10 years.
+     * @throws {RangeError} If the date is invalid.
+     */
+    nextAfter(after: Date = new Date()): Optional<Date> {
+        assertValidDate(after);
+        let wall = Math.floor(instantToWall(after.getTime(), this.#offsetAt) / 1000) * 1000 + 1000;
+        for (;;) {
+            const match = this.#search(wall, true);
+            if (match === undefined) {
+                return Optional.empty();
+            }
+            // Skipped wall-clock times are moved forward, so the instant can be before the date even though the wall-clock time is not.
+            const instant = wallToInstant(match, this.#offsetAt);
+            if (instant > after.getTime()) {
+                return Optional.of(new Date(instant));
+            }
+            wall = match + 1000;
+        }
+    }
+    /**
+     * Returns the last time that matches this expression strictly before a date.
+     *
+     * @param before The date to search from. Defaults to now.
+     * @returns The previous time, or an empty Optional if the expression did not match within the previous 10 years.
+     * @throws {RangeError} If the date is invalid.
+     */
+    previousBefore(before: Date = new Date()): Optional<Date> {
+        assertValidDate(before);
+        const time = before.getTime();
+        // After the clocks are turned back, the wall-clock times between the new and the old offset have already happened once,
+        // so the search starts from the latest wall-clock time of the last day.
+        const offset = Math.max(this.#offsetAt(time), this.#offsetAt(time - DAY));
+        let wall = Math.ceil((time + offset) / 1000) * 1000 - 1000;
+        for (;;) {
+            const match = this.#search(wall, false);
+            if (match === undefined) {
+                return Optional.empty();
+            }
+            const instant = wallToInstant(match, this.#offsetAt);
+            if (instant < time) {
+                return Optional.of(new Date(instant));
+            }
+            wall = match - 1000;
+        }
+    }
+    next(count: number, after: Date = new Date()): Date[] {
+        return collect(count, after, (date) => this.nextAfter(date));
+    }
+    previous(count: number, before: Date = new Date()): Date[] {
+        return collect(count, before, (date) => this.previousBefore(date));
+    }
+    toString(): string {
+        return this.expression;
+    }
+    #matchesDay(date: Date): boolean {
+        const { daysOfMonth, daysOfWeek, dayOfMonthRestricted, dayOfWeekRestricted } = this.#fields;
+        const dayOfMonth = daysOfMonth.has(date.getUTCDate());
+        const dayOfWeek = daysOfWeek.has(date.getUTCDay());
+        return dayOfMonthRestricted && dayOfWeekRestricted ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+    }
+    #matchesWall(date: Date): boolean {
+        const { seconds, minutes, hours, months } = this.#fields;
+        return (
+            months.has(date.getUTCMonth() + 1) &&
+            this.#matchesDay(date) &&
+            hours.has(date.getUTCHours()) &&
+            minutes.has(date.getUTCMinutes()) &&
+            seconds.has(date.getUTCSeconds())
+        );
+    }
+    /**
+     * Finds the first matching wall-clock time at or after (or at or before, if searching backwards) a whole-second wall-clock time.
+     * Each step skips to the start (or end) of the largest field that does not match.
+     */
+    #search(start: number, forward: boolean): number | undefined {
+        const { seconds, minutes, hours, months } = this.#fields;
+        const limit = new Date(start).getUTCFullYear() + (forward ? SEARCH_YEARS : -SEARCH_YEARS);
+        // Moving forward goes to the start of the next unit, and moving backward to the last second of the previous one.
+        const skip = (next: number, current: number): number => (forward ? next : current - 1000);
+        let wall = start;
+        for (;;) {
+            const date = new Date(wall);
+            const [year, month, day, hour, minute] = [
+                date.getUTCFullYear(),
+                date.getUTCMonth(),
+                date.getUTCDate(),
+                date.getUTCHours(),
+                date.getUTCMinutes(),
+            ];
+            if (forward ? year > limit : year < limit) {
+                return undefined;
+            }
+            if (!months.has(month + 1)) {
+                wall = skip(Date.UTC(year, month + 1, 1), Date.UTC(year, month, 1));
+            } else if (!this.#matchesDay(date)) {
+                wall = skip(Date.UTC(year, month, day + 1), Date.UTC(year, month, day));
+            } else if (!hours.has(hour)) {
+                wall = skip(Date.UTC(year, month, day, hour + 1), Date.UTC(year, month, day, hour));
+            } else if (!minutes.has(minute)) {
+                wall = skip(Date.UTC(year, month, day, hour, minute + 1), Date.UTC(year, month, day, hour, minute));
+            } else if (!seconds.has(date.getUTCSeconds())) {
+                wall += forward ? 1000 : -1000;
+            } else {
+                return wall;
+            }
+        }
+    }
+}
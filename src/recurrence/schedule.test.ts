@@ -0,0 +1,28 @@
+import { Duration } from "../duration/duration.js";
+import { EverySchedule } from "./schedule.js";
+
+test("every schedule test", () => {
+    const start = new Date("2024-01-01T00:00:00Z");
+    const schedule = EverySchedule.every(Duration.fromUnit("minutes", 90), start);
+    const iso = (dates: Date[]): string[] => dates.map((date) => date.toISOString());
+    expect(iso(schedule.next(3, new Date("2024-01-01T02:00:00Z")))).toEqual([
+        "2024-01-01T03:00:00.000Z",
+        "2024-01-01T04:30:00.000Z",
+        "2024-01-01T06:00:00.000Z",
+    ]);
+    expect(schedule.nextAfter(new Date("2023-12-31T00:00:00Z")).get()).toEqual(start);
+    expect(schedule.nextAfter(start).get().toISOString()).toEqual("2024-01-01T01:30:00.000Z");
+    expect(iso(schedule.previous(5, new Date("2024-01-01T03:00:00Z")))).toEqual(["2024-01-01T01:30:00.000Z", "2024-01-01T00:00:00.000Z"]);
+    expect(schedule.previousBefore(start).isEmpty()).toBe(true);
+    expect(() => EverySchedule.every(Duration.INSTANT)).toThrow(RangeError);
+    expect(() => EverySchedule.every(Duration.FOREVER)).toThrow(RangeError);
+    expect(() => schedule.next(-1)).toThrow(RangeError);
+});
+
+test("every schedule invalid date test", () => {
+    const schedule = EverySchedule.every(Duration.fromUnit("minutes", 90), new Date("2024-01-01T00:00:00Z"));
+    expect(() => schedule.nextAfter(new Date("x"))).toThrow(RangeError);
+    expect(() => schedule.previousBefore(new Date("x"))).toThrow(RangeError);
+    expect(() => schedule.next(3, new Date("x"))).toThrow(RangeError);
+    expect(() => EverySchedule.every(Duration.fromUnit("minutes", 90), new Date("x"))).toThrow("The start of a schedule must be a valid date.");
+});
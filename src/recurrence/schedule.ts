@@ -0,0 +1,106 @@
+import { Duration } from "../duration/duration.js";
+import { Optional } from "../resultsAndOptionals/optionals.js";
+import { assertValidDate, collect } from "./collect.js";
+
+/**
+ * A schedule of times, such as a {@link CronExpression} or an {@link EverySchedule}.
+ *
+ * @category Recurrence
+ */
+export type Recurrence = {
+    /**
+     * Returns the first time in the schedule that is strictly after a date.
+     *
+     * @param after The date to search from. Defaults to now.
+     * @returns The next time, or an empty Optional if the schedule has no more times.
+     * @throws {RangeError} If the date is invalid.
+     */
+    nextAfter(after?: Date): Optional<Date>;
+    /**
+     * Returns the last time in the schedule that is strictly before a date.
+     *
+     * @param before The date to search from. Defaults to now.
+     * @returns The previous time, or an empty Optional if the schedule has no earlier times.
+     * @throws {RangeError} If the date is invalid.
+     */
+    previousBefore(before?: Date): Optional<Date>;
+    /**
+     * Returns the next times in the schedule, in chronological order.
+     *
+     * @param count The number of times to return. Fewer are returned if the schedule runs out.
+     * @param after The date to search from. Defaults to now.
+     * @throws {RangeError} If the count is not a non-negative integer, or if the date is invalid.
+     */
+    next(count: number, after?: Date): Date[];
+    /**
+     * Returns the previous times in the schedule, from the most recent to the oldest.
+     *
+     * @param count  The number of times to return. Fewer are returned if the schedule runs out.
+     * @param before The date to search from. Defaults to now.
+     * @throws {RangeError} If the count is not a non-negative integer, or if the date is invalid.
+     */
+    previous(count: number, before?: Date): Date[];
+};
+
+/**
+ * A schedule that repeats every fixed {@link Duration}, starting at a date. The times are exact, so a schedule that repeats every day
+ * fires every 24 hours even across daylight saving time changes. Use a {@link CronExpression} to fire at a wall-clock time instead.
+ *
+ * @example
+ * ```ts
+ * const schedule = EverySchedule.every(Duration.fromUnit("minutes", 90), new Date("2024-01-01T00:00:00Z"));
+ * schedule.next(3, new Date("2024-01-01T02:00:00Z")); // 03:00, 04:30, and 06:00 UTC
+ * schedule.previousBefore(new Date("2024-01-01T00:00:00Z")).isEmpty(); // true, the schedule starts at midnight
+ * ```
+ *
+ * @category Recurrence
+ */
+export class EverySchedule implements Recurrence {
+    /**
+     * Creates a new schedule.
+     *
+     * @param period How long to wait between times.
+     * @param start  The first time in the schedule.
+     * @throws {RangeError} If the period is not positive and finite, or if the start is an invalid date.
+     */
+    constructor(public readonly period: Duration, public readonly start: Date) {
+        if (!(period.milliseconds > 0 && Number.isFinite(period.milliseconds))) {
+            throw new RangeError(`The period of a schedule must be positive and finite, got ${period.milliseconds} milliseconds.`);
+        }
+        assertValidDate(start, "start of a schedule");
+    }
+    /**
+     * Creates a schedule that repeats every duration, starting at a date.
+     *
+     * @param period How long to wait between times.
+     * @param start  The first time in the schedule. Defaults to now.
+     * @throws {RangeError} If the period is not positive and finite, or if the start is an invalid date.
+     */
+    static every(period: Duration, start: Date = new Date()): EverySchedule {
+        return new EverySchedule(period, start);
+    }
+    nextAfter(after: Date = new Date()): Optional<Date> {
+        assertValidDate(after);
+        const start = this.start.getTime();
+        if (after.getTime() < start) {
+            return Optional.of(new Date(start));
+        }
+        const index = Math.floor((after.getTime() - start) / this.period.milliseconds) + 1;
+        return Optional.of(new Date(start + index * this.period.milliseconds));
+    }
+    previousBefore(before: Date = new Date()): Optional<Date> {
+        assertValidDate(before);
+        const start = this.start.getTime();
+        if (before.getTime() <= start) {
+            return Optional.empty();
+        }
+        const index = Math.ceil((before.getTime() - start) / this.period.milliseconds) - 1;
+        return Optional.of(new Date(start + index * this.period.milliseconds));
+    }
+    next(count: number, after: Date = new Date()): Date[] {
+        return collect(count, after, (date) => this.nextAfter(date));
+    }
+    previous(count: number, before: Date = new Date()): Date[] {
+        return collect(count, before, (date) => this.previousBefore(date));
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * Internal time zone math used by {@link CronExpression}.
+ *
+ * Wall-clock times are represented as the number of milliseconds since the Unix epoch that the same wall-clock time would have in UTC,
+ * so that calendar arithmetic on them can use the `Date.UTC` methods without caring about the time zone.
+ */
+
+/**
+ * Returns the offset of a time zone from UTC at an instant, in milliseconds. Positive offsets are east of UTC.
+ */
+export type OffsetFunction = (instant: number) => number;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolves a time zone name to a function that calculates its offset.
+ *
+ * @param timeZone `"local"` for the time zone of the runtime, `"UTC"`, or an IANA time zone name such as `"Europe/Berlin"`.
+ * @throws {RangeError} If the time zone is not supported by `Intl`.
+ */
+export function resolveTimeZone(timeZone: string): OffsetFunction {
+    if (timeZone === "local") {
+        return (instant) => -new Date(instant).getTimezoneOffset() * 60_000;
+    }
+    if (timeZone.toUpperCase() === "UTC") {
+        return () => 0;
+    }
+    let formatter: Intl.DateTimeFormat;
+    try {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+        });
+    } catch {
+        throw new RangeError(`Unknown time zone "${timeZone}".`);
+    }
+    return (instant) => {
+        const fields: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+        for (const { type, value } of formatter.formatToParts(instant)) {
+            fields[type] = Number(value);
+        }
+        const { year = 0, month = 1, day = 1, hour = 0, minute = 0, second = 0 } = fields;
+        return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant / 1000) * 1000;
+    };
+}
+
+/**
+ * Converts an instant to a wall-clock time in a time zone.
+ */
+export function instantToWall(instant: number, offsetAt: OffsetFunction): number {
+    return instant + offsetAt(instant);
+}
+
+/**
+ * Converts a wall-clock time in a time zone to an instant.
+ *
+ * - If the wall-clock time happens twice because the clocks were turned back, the earlier instant is returned.
+ * - If the wall-clock time does not exist because the clocks were turned forward, it is moved forward by the length of the gap,
+ *   so 02:30 on a day when the clocks jump from 02:00 to 03:00 becomes 03:30.
+ */
+export function wallToInstant(wall: number, offsetAt: OffsetFunction): number {
+    const offsetBefore = offsetAt(wall - DAY);
+    const offsetAfter = offsetAt(wall + DAY);
+    const candidates = [wall - offsetBefore, wall - offsetAfter].filter((instant) => instantToWall(instant, offsetAt) === wall);
+    return candidates.length > 0 ? Math.min(...candidates) : wall - offsetBefore;
+}
@@ -1,2 +1,3 @@
 export * from "./results.js";
 export * from "./optionals.js";
+export * from "./resultAsync.js";
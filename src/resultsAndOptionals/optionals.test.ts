@@ -0,0 +1,153 @@
+import { deepEquals } from "../deepEquals/deepEquals.js";
+import { NoValueInOptionalError, Optional } from "./optionals.js";
+
+test("optional null test", () => {
+    expect(Optional.of(null).isPresent()).toBe(true);
+    expect(Optional.of(null).get()).toBeNull();
+    expect(Optional.ofNullable(null).isEmpty()).toBe(true);
+    expect(Optional.ofNullable(undefined).isEmpty()).toBe(true);
+    expect(Optional.ofNullable(0).get()).toEqual(0);
+    expect(Optional.of(undefined).tag).toEqual("empty");
+    expect(Optional.of("").tag).toEqual("present");
+});
+
+test("optional narrowing test", () => {
+    const optional: Optional<number> = Optional.of(5);
+    if (optional.isPresent()) {
+        const value: number = optional.value;
+        expect(value).toEqual(5);
+    }
+    const empty: Optional<number> = Optional.empty();
+    if (empty.isEmpty()) {
+        expect(empty.value).toBeUndefined();
+    }
+});
+
+test("optional all test", () => {
+    const tuple = Optional.all([Optional.of(1), Optional.of("a")]);
+    const values: [number, string] = tuple.get();
+    expect(values).toEqual([1, "a"]);
+    expect(Optional.all([Optional.of(1), Optional.empty<string>()]).isEmpty()).toBe(true);
+    const record = Optional.all({ host: Optional.of("localhost"), port: Optional.of(80) });
+    const config: { host: string; port: number } = record.get();
+    expect(config).toEqual({ host: "localhost", port: 80 });
+    expect(Optional.all({ host: Optional.of("localhost"), port: Optional.empty<number>() }).isEmpty()).toBe(true);
+});
+
+test("optional firstPresent test", () => {
+    let called = false;
+    const fallback = (): Optional<string> => {
+        called = true;
+        return Optional.of("fallback");
+    };
+    const first: Optional<number | string> = Optional.firstPresent([Optional.empty<number>(), Optional.of(2), fallback]);
+    expect(first.get()).toEqual(2);
+    expect(called).toBe(false);
+    expect(Optional.firstPresent([Optional.empty<number>(), fallback]).get()).toEqual("fallback");
+    expect(called).toBe(true);
+    expect(Optional.firstPresent([]).isEmpty()).toBe(true);
+});
+
+test("optional compact test", () => {
+    expect(Optional.compact([Optional.of(1), Optional.empty<number>(), Optional.of(3)])).toEqual([1, 3]);
+    expect(Optional.compact(new Set([Optional.of(null)]))).toEqual([null]);
+});
+
+test("optional json test", () => {
+    expect(JSON.stringify(Optional.of("a"))).toEqual('{"tag":"present","value":"a"}');
+    expect(JSON.stringify(Optional.empty())).toEqual('{"tag":"empty"}');
+    expect(Optional.fromJSON<number[]>(JSON.parse(JSON.stringify(Optional.of([1, 2])))).get()).toEqual([1, 2]);
+    expect(Optional.fromJSON(structuredClone(Optional.of(null).toJSON())).get()).toBeNull();
+    expect(Optional.fromJSON(structuredClone(Optional.empty().toJSON())).isEmpty()).toBe(true);
+    expect(() => Optional.fromJSON(JSON.parse('{"tag":"present"}'))).toThrow(TypeError);
+    expect(() => Optional.fromJSON(JSON.parse('{"tag":"other"}'))).toThrow(TypeError);
+});
+
+test("optional flatMap test", () => {
+    const half = (value: number): Optional<number> => (value % 2 === 0 ? Optional.of(value / 2) : Optional.empty());
+    expect(Optional.of(8).flatMap(half).flatMap(half).get()).toEqual(2);
+    expect(Optional.of(6).flatMap(half).flatMap(half).isEmpty()).toBe(true);
+    expect(Optional.empty<number>().flatMap(half).isEmpty()).toBe(true);
+});
+
+test("optional or test", () => {
+    expect(Optional.of(1).or(Optional.of("a")).get()).toEqual(1);
+    expect(Optional.empty<number>().or(Optional.of("a")).get()).toEqual("a");
+    let called = false;
+    const fallback = (): Optional<number> => {
+        called = true;
+        return Optional.of(2);
+    };
+    expect(Optional.of(1).orElseOptional(fallback).get()).toEqual(1);
+    expect(called).toBe(false);
+    expect(Optional.empty<number>().orElseOptional(fallback).get()).toEqual(2);
+    expect(called).toBe(true);
+});
+
+test("optional zip test", () => {
+    const pair: Optional<[number, string]> = Optional.of(1).zip(Optional.of("a"));
+    expect(pair.get()).toEqual([1, "a"]);
+    expect(Optional.of(1).zip(Optional.empty()).isEmpty()).toBe(true);
+    expect(
+        Optional.of(2)
+            .zipWith(Optional.of(3), (a, b) => a * b)
+            .get(),
+    ).toEqual(6);
+    expect(
+        Optional.empty<number>()
+            .zipWith(Optional.of(3), (a, b) => a * b)
+            .isEmpty(),
+    ).toBe(true);
+});
+
+test("optional xor test", () => {
+    expect(Optional.of(1).xor(Optional.empty()).get()).toEqual(1);
+    expect(Optional.empty().xor(Optional.of(2)).get()).toEqual(2);
+    expect(Optional.of(1).xor(Optional.of(2)).isEmpty()).toBe(true);
+    expect(Optional.empty().xor(Optional.empty()).isEmpty()).toBe(true);
+});
+
+test("optional toResult test", () => {
+    expect(Optional.of(1).toResult("missing").get()).toEqual(1);
+    expect(Optional.empty<number>().toResult("missing").getError()).toEqual("missing");
+});
+
+test("optional orElseThrow test", () => {
+    expect(Optional.of(1).orElseThrow(() => new RangeError("missing"))).toEqual(1);
+    expect(() => Optional.empty().orElseThrow(() => new RangeError("missing"))).toThrow(RangeError);
+    expect(() => Optional.empty().orElseThrow()).toThrow(NoValueInOptionalError);
+});
+
+test("optional iterator test", () => {
+    expect([...Optional.of(1), ...Optional.empty<number>(), ...Optional.of(3)]).toEqual([1, 3]);
+    const seen: string[] = [];
+    for (const value of Optional.of("a")) {
+        seen.push(value);
+    }
+    expect(seen).toEqual(["a"]);
+});
+
+test("optional equals test", () => {
+    expect(Optional.of({ a: [1] }).equals(Optional.of({ a: [1] }))).toBe(true);
+    expect(Optional.of(1).equals(Optional.of(2))).toBe(false);
+    expect(Optional.empty().equals(Optional.empty())).toBe(true);
+    expect(Optional.of(null).equals(Optional.empty())).toBe(false);
+    expect(Optional.of(1).equals(1)).toBe(false);
+    expect(deepEquals({ value: Optional.of([1, 2]) }, { value: Optional.of([1, 2]) })).toBe(true);
+});
+
+test("optional compareTo test", () => {
+    expect(Optional.of(1).compareTo(Optional.of(2))).toEqual(-1);
+    expect(Optional.of(2).compareTo(Optional.of(2))).toEqual(0);
+    expect(Optional.empty<number>().compareTo(Optional.of(0))).toEqual(-1);
+    expect(Optional.of(0).compareTo(Optional.empty())).toEqual(1);
+    expect(Optional.empty().compareTo(Optional.empty())).toEqual(0);
+    const sorted = [Optional.of(3), Optional.empty<number>(), Optional.of(1)].sort((a, b) => a.compareTo(b));
+    expect(sorted.map(String)).toEqual(["Empty Optional", "Optional of 1", "Optional of 3"]);
+});
+
+test("optional filter narrowing test", () => {
+    const value: Optional<string | number> = Optional.of("a");
+    const text: Optional<string> = value.filter((item): item is string => typeof item === "string");
+    expect(text.get()).toEqual("a");
+});
@@ -1,43 +1,99 @@
+import { Comparable, ComparisonResult, compare } from "../comparisons/comparisons.js";
+import { DeepEquals, deepEquals } from "../deepEquals/deepEquals.js";
+import { StructuredError } from "../errors/errors.js";
 import { NotUndefined } from "../internal.js";
+import { Result } from "./results.js";
 
 /**
  * An error that is thrown when trying to get the value of an empty Optional.
  *
  * @category Typeguarding
  */
-export class NoValueInOptionalError extends Error {
+export class NoValueInOptionalError extends StructuredError<"NoValueInOptional"> {
     constructor(message: string) {
-        super(message);
+        super("NoValueInOptional", message);
     }
 }
 
 /**
- * A container that may or may not contain a non-null-or-undefined value.
+ * An {@link Optional} that is known to contain a value, such as after checking {@link Optional#isPresent}.
  *
  * @category Typeguarding
  */
-export class Optional<T> {
+export type Present<T> = Optional<T> & { readonly tag: "present"; readonly value: T };
+
+/**
+ * An {@link Optional} that is known to be empty, such as after checking {@link Optional#isEmpty}.
+ *
+ * @category Typeguarding
+ */
+export type Empty<T> = Optional<T> & { readonly tag: "empty"; readonly value: undefined };
+
+/**
+ * The plain object form of an {@link Optional}, as returned by {@link Optional#toJSON} and read by {@link Optional.fromJSON}.
+ * This is a stable wire format, so it can be sent over HTTP, stored, or passed to a worker.
+ *
+ * @category Typeguarding
+ */
+export type SerializedOptional<T> = { readonly tag: "present"; readonly value: T } | { readonly tag: "empty" };
+
+type ValueType<O> = O extends Optional<infer T> ? T : never;
+type OptionalArray = readonly Optional<unknown>[] | [];
+type OptionalRecord = Readonly<Record<string, Optional<unknown>>>;
+
+/**
+ * A container that may or may not contain a value.
+ *
+ * An Optional is empty if it was created from `undefined`. `null` is treated as a value by {@link Optional.of},
+ * so that APIs where `null` is meaningful can be wrapped as is. Use {@link Optional.ofNullable} to treat `null` as empty too.
+ *
+ * @example
+ * ```ts
+ * const optional = Optional.ofNullable(map.get(key));
+ * if (optional.isPresent()) {
+ *     use(optional.value); // optional.value is not undefined here
+ * }
+ * ```
+ *
+ * @category Typeguarding
+ */
+export class Optional<T> implements DeepEquals, Comparable<Optional<T>>, Iterable<T> {
     static #EMPTY = new Optional(undefined);
+    readonly #tag: "present" | "empty";
     readonly #value: T | undefined;
     /**
      * Creates a new Optional with a value.
      *
-     * @param value The value to wrap in an Optional. If the value is null or undefined, the Optional will be empty.
+     * @param value The value to wrap in an Optional. If the value is undefined, the Optional will be empty. `null` is kept as a value.
      */
     constructor(value: T | undefined) {
+        this.#tag = value === undefined ? "empty" : "present";
         this.#value = value;
     }
+    /**
+     * Whether the Optional contains a value (`"present"`) or not (`"empty"`).
+     */
+    get tag(): "present" | "empty" {
+        return this.#tag;
+    }
+    /**
+     * The value, or undefined if the Optional is empty. After checking {@link Optional#isPresent}, the type is narrowed to the value.
+     */
+    get value(): T | undefined {
+        return this.#value;
+    }
     /**
      * Returns whether the Optional contains a value. Opposite of {@link Optional#isEmpty}.
+     * This narrows the type of the Optional, so that {@link Optional#value} is the value.
      */
-    isPresent(): boolean {
-        return this.#value !== undefined;
+    isPresent(): this is Present<T> {
+        return this.#tag === "present";
     }
     /**
      * Returns whether the Optional is empty. Opposite of {@link Optional#isPresent}.
      */
-    isEmpty(): boolean {
-        return this.#value === undefined;
+    isEmpty(): this is Empty<T> {
+        return this.#tag === "empty";
     }
     /**
      * Calls a function if the Optional is not empty.
@@ -46,8 +102,8 @@ export class Optional<T> {
      * @returns The object itself for method chaining.
      */
     ifPresent(func: (value: T) => void): this {
-        if (this.#value !== undefined) {
-            func(this.#value);
+        if (this.#tag === "present") {
+            func(this.#value as T);
         }
         return this;
     }
@@ -59,8 +115,8 @@ export class Optional<T> {
      * @returns The object itself for method chaining.
      */
     ifPresentOrElse(func: (value: T) => void, elseFunc: () => void): this {
-        if (this.#value !== undefined) {
-            func(this.#value);
+        if (this.#tag === "present") {
+            func(this.#value as T);
         } else {
             elseFunc();
         }
@@ -72,8 +128,10 @@ export class Optional<T> {
      *
      * @param func The function to filter the Optional by. The value will be passed as the first argument.
      */
+    filter<S extends T>(func: (value: T) => value is S): Optional<S>;
+    filter(func: (value: T) => boolean): Optional<T>;
     filter(func: (value: T) => boolean): Optional<T> {
-        if (this.#value !== undefined && func(this.#value)) {
+        if (this.#tag === "present" && func(this.#value as T)) {
             return this;
         }
         return Optional.empty();
@@ -82,10 +140,10 @@ export class Optional<T> {
      * Returns the value of the Optional, or throws an error if the Optional is empty.
      */
     get(): T {
-        if (this.#value === undefined) {
+        if (this.#tag === "empty") {
             throw new NoValueInOptionalError("Cannot get the value of an empty Optional.");
         }
-        return this.#value;
+        return this.#value as T;
     }
     /**
      * If the value is present, returns a new Optional with the value of the given function. If the value is not present, returns an empty Optional.
@@ -111,10 +169,57 @@ export class Optional<T> {
      * @param func The function to map the value to. The value will be passed as the first argument.
      */
     map<U>(func: (value: T) => U | undefined): Optional<U> {
-        if (this.#value === undefined) {
+        if (this.#tag === "empty") {
+            return Optional.empty();
+        }
+        return Optional.of(func(this.#value as T));
+    }
+    /**
+     * If the value is present, returns the Optional returned by the given function. If the value is not present, returns an empty Optional.
+     * Unlike {@link Optional#map}, the function returns an Optional, so steps that may not have a value can be chained without nesting.
+     *
+     * @example
+     * ```ts
+     * const city = findUser(id).flatMap((user) => findAddress(user)).map((address) => address.city);
+     * ```
+     *
+     * @param func The function to call with the value. The value will be passed as the first argument.
+     */
+    flatMap<U>(func: (value: T) => Optional<U>): Optional<U> {
+        if (this.#tag === "empty") {
+            return Optional.empty();
+        }
+        return func(this.#value as T);
+    }
+    /**
+     * If both this Optional and another one contain a value, returns an Optional of both values as a pair. Otherwise, returns an empty Optional.
+     *
+     * @example
+     * ```ts
+     * Optional.of(1).zip(Optional.of("a")); // Optional of [1, "a"]
+     * ```
+     *
+     * @param other The other Optional.
+     */
+    zip<U>(other: Optional<U>): Optional<[T, U]> {
+        return this.zipWith(other, (value, otherValue) => [value, otherValue]);
+    }
+    /**
+     * If both this Optional and another one contain a value, returns an Optional of the given function called with both values. Otherwise, returns an empty Optional.
+     *
+     * @example
+     * ```ts
+     * width.zipWith(height, (w, h) => w * h); // the area, if both are known
+     * ```
+     *
+     * @param other The other Optional.
+     * @param func  The function to combine the values with. If it returns undefined, the Optional will be empty.
+     */
+    zipWith<U, R>(other: Optional<U>, func: (value: T, otherValue: U) => R | undefined): Optional<R> {
+        if (this.#tag === "empty" || other.#tag === "empty") {
             return Optional.empty();
         }
-        return Optional.of(func(this.#value));
+        return Optional.of(func(this.#value as T, other.#value as U));
     }
     /**
      * If the value is present, returns the value. If the value is not present, returns a fallback value.
@@ -122,10 +227,10 @@ export class Optional<T> {
      * @param value The fallback value.
      */
     otherwise<U>(value: U): T | U {
-        if (this.#value === undefined) {
+        if (this.#tag === "empty") {
             return value;
         }
-        return this.#value;
+        return this.#value as T;
     }
     /**
      * If the value is present, returns the value. If the value is not present, returns the value of the given function.
@@ -133,10 +238,118 @@ export class Optional<T> {
      * @param func The function to get the fallback value from.
      */
     otherwiseGet<U>(func: () => U): T | U {
-        if (this.#value === undefined) {
+        if (this.#tag === "empty") {
             return func();
         }
-        return this.#value;
+        return this.#value as T;
+    }
+    /**
+     * Converts the Optional to its plain object form, `{ tag: "present", value }` or `{ tag: "empty" }`, which can be revived with {@link Optional.fromJSON}.
+     * This is called by `JSON.stringify`. Pass the plain object to `structuredClone` or `postMessage`, since the Optional itself keeps its value in private fields.
+     *
+     * @example
+     * ```ts
+     * JSON.stringify(Optional.of("a")); // '{"tag":"present","value":"a"}'
+     * ```
+     */
+    toJSON(): SerializedOptional<T> {
+        return this.#tag === "present" ? { tag: "present", value: this.#value as T } : { tag: "empty" };
+    }
+    /**
+     * If the value is present, returns the value. If the value is not present, throws the error returned by the given function.
+     *
+     * @example
+     * ```ts
+     * const user = findUser(id).orElseThrow(() => new NotFoundError(id));
+     * ```
+     *
+     * @param errorFunc The function that creates the error to throw. Defaults to creating a {@link NoValueInOptionalError}, like {@link Optional#get}.
+     */
+    orElseThrow(errorFunc?: () => unknown): T {
+        if (this.#tag === "empty") {
+            throw errorFunc === undefined ? new NoValueInOptionalError("Cannot get the value of an empty Optional.") : errorFunc();
+        }
+        return this.#value as T;
+    }
+    /**
+     * If the value is present, returns this Optional. If the value is not present, returns another Optional.
+     *
+     * @example
+     * ```ts
+     * const port = fromArguments("port").or(fromEnvironment("PORT"));
+     * ```
+     *
+     * @param other The Optional to return if this one is empty.
+     */
+    or<U>(other: Optional<U>): Optional<T | U> {
+        return this.#tag === "present" ? this : other;
+    }
+    /**
+     * If the value is present, returns this Optional. If the value is not present, returns the Optional returned by the given function.
+     * Unlike {@link Optional#or}, the other Optional is only computed when it is needed.
+     *
+     * @param func The function to get the other Optional from.
+     */
+    orElseOptional<U>(func: () => Optional<U>): Optional<T | U> {
+        return this.#tag === "present" ? this : func();
+    }
+    /**
+     * Returns whichever of this Optional and another one contains a value, if exactly one of them does. Otherwise, returns an empty Optional.
+     *
+     * @param other The other Optional.
+     */
+    xor<U>(other: Optional<U>): Optional<T | U> {
+        if (this.#tag === other.#tag) {
+            return Optional.empty();
+        }
+        return this.#tag === "present" ? this : other;
+    }
+    /**
+     * Converts the Optional to a Result. If the value is present, the Result will contain the value. If the value is not present, the Result will contain the given error.
+     *
+     * @example
+     * ```ts
+     * const user = findUser(id).toResult(new NotFoundError(id)); // Result<User, NotFoundError>
+     * ```
+     *
+     * @param error The error to use if the Optional is empty.
+     */
+    toResult<E>(error: E): Result<T, E> {
+        return this.#tag === "present" ? Result.ok(this.#value as T) : Result.error(error);
+    }
+    /**
+     * Iterates over the value if it is present, or over nothing if it is empty. This lets an Optional be used with `for...of` and spread syntax.
+     *
+     * @example
+     * ```ts
+     * for (const user of findUser(id)) {
+     *     greet(user); // only runs if the user was found
+     * }
+     * [...Optional.of(1), ...Optional.empty()]; // [1]
+     * ```
+     */
+    *[Symbol.iterator](): Iterator<T> {
+        if (this.#tag === "present") {
+            yield this.#value as T;
+        }
+    }
+    /**
+     * Returns whether another value is an Optional with a deeply equal value (see {@link deepEquals}), or whether both are empty.
+     */
+    equals(other: unknown): boolean {
+        if (!(other instanceof Optional) || other.#tag !== this.#tag) {
+            return false;
+        }
+        return this.#tag === "empty" || deepEquals(this.#value, other.#value);
+    }
+    /**
+     * Compares Optionals by their values (see {@link compare}). An empty Optional is less than any Optional with a value.
+     */
+    compareTo(other: Optional<T>): ComparisonResult {
+        if (this.#tag !== other.#tag) {
+            return this.#tag === "empty" ? -1 : 1;
+        }
+        return this.#tag === "empty" ? 0 : compare(this.#value as T, other.#value as T);
     }
     toString(): string {
         return this.isPresent() ? `Optional of ${this.#value}` : "Empty Optional";
@@ -148,11 +361,106 @@ export class Optional<T> {
         return Optional.#EMPTY as Optional<T>;
     }
     /**
-     * Returns an optional of a given value, or an empty optional if the value is null or undefined.
+     * Returns an optional of a given value, or an empty optional if the value is undefined.
      *
-     * @param value The value to wrap in an Optional. If the value is null or undefined, the Optional will be empty.
+     * @param value The value to wrap in an Optional. If the value is undefined, the Optional will be empty. `null` is kept as a value.
      */
     static of<T>(value: T | undefined): Optional<T> {
         return new Optional<T>(value);
     }
+    /**
+     * Revives an Optional from its plain object form, such as one created by {@link Optional#toJSON} and then parsed or structured cloned.
+     * The value is used as is. To validate it, or to revive Optionals from untrusted input, use `optionalSchema` with Zod instead.
+     *
+     * @param json The plain object form of the Optional.
+     * @throws {TypeError} If the object does not have a tag of `"present"` or `"empty"`, or if a present Optional has no value.
+     */
+    static fromJSON<T>(json: SerializedOptional<T>): Optional<T> {
+        const tag: unknown = json?.tag;
+        if (tag === "present" && "value" in json && json.value !== undefined) {
+            return new Optional<T>(json.value);
+        }
+        if (tag === "empty") {
+            return Optional.empty();
+        }
+        throw new TypeError(`Expected a serialized Optional with a tag of "present" or "empty", got ${JSON.stringify(json)}.`);
+    }
+    /**
+     * Returns an optional of a given value, or an empty optional if the value is null or undefined.
+     *
+     * @example
+     * ```ts
+     * Optional.ofNullable(document.getElementById("app")); // empty if there is no such element
+     * Optional.ofNullable(null).isEmpty(); // true
+     * Optional.of(null).isEmpty(); // false
+     * ```
+     *
+     * @param value The value to wrap in an Optional. If the value is null or undefined, the Optional will be empty.
+     */
+    static ofNullable<T>(value: T | null | undefined): Optional<T> {
+        return value === null || value === undefined ? Optional.empty() : new Optional<T>(value);
+    }
+    /**
+     * Combines an array or a record of Optionals into a single Optional. If every Optional contains a value, the combined Optional
+     * contains their values in the same shape, with the types of tuples and record keys preserved. Otherwise, it is empty.
+     *
+     * @example
+     * ```ts
+     * Optional.all([Optional.of(1), Optional.of("a")]); // Optional<[number, string]> of [1, "a"]
+     * Optional.all({ host: env("HOST"), port: env("PORT") }); // Optional<{ host: string; port: string }>, empty if either is missing
+     * ```
+     *
+     * @param optionals The Optionals to combine.
+     */
+    static all<O extends OptionalArray>(optionals: O): Optional<{ -readonly [K in keyof O]: ValueType<O[K]> }>;
+    static all<O extends OptionalRecord>(optionals: O): Optional<{ -readonly [K in keyof O]: ValueType<O[K]> }>;
+    static all(optionals: OptionalArray | OptionalRecord): Optional<unknown> {
+        const entries = Object.entries(optionals);
+        if (entries.some(([, optional]) => optional.isEmpty())) {
+            return Optional.empty();
+        }
+        const values = entries.map(([key, optional]) => [key, optional.#value] as const);
+        return Optional.of(Array.isArray(optionals) ? values.map(([, value]) => value) : Object.fromEntries(values));
+    }
+    /**
+     * Returns the first Optional that contains a value, or an empty Optional if none of them do.
+     * Functions are only called when all the Optionals before them are empty, so expensive fallbacks can be deferred.
+     *
+     * @example
+     * ```ts
+     * Optional.firstPresent([fromArguments(), fromEnvironment(), () => readConfigFile()]);
+     * ```
+     *
+     * @param optionals The Optionals to check, in order, or functions that return them.
+     */
+    static firstPresent<O extends readonly (Optional<unknown> | (() => Optional<unknown>))[]>(
+        optionals: O,
+    ): Optional<ValueType<O[number] extends () => infer R ? R : O[number]>> {
+        for (const item of optionals) {
+            const optional = typeof item === "function" ? item() : item;
+            if (optional.isPresent()) {
+                return optional as Optional<ValueType<O[number] extends () => infer R ? R : O[number]>>;
+            }
+        }
+        return Optional.empty();
+    }
+    /**
+     * Returns the values of the Optionals that contain one, in order, skipping the empty ones.
+     *
+     * @example
+     * ```ts
+     * Optional.compact([Optional.of(1), Optional.empty(), Optional.of(3)]); // [1, 3]
+     * ```
+     *
+     * @param optionals The Optionals to get the values of.
+     */
+    static compact<T>(optionals: Iterable<Optional<T>>): T[] {
+        const values: T[] = [];
+        for (const optional of optionals) {
+            if (optional.isPresent()) {
+                values.push(optional.value);
+            }
+        }
+        return values;
+    }
 }
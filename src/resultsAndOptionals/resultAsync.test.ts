@@ -0,0 +1,51 @@
+import { ResultAsync } from "./resultAsync.js";
+import { Result } from "./results.js";
+
+test("result async chaining test", async () => {
+    const result = await ResultAsync.ok<number, string>(2)
+        .map(async (value) => value * 3)
+        .andThen((value) => (value > 5 ? Result.ok<number, string>(value) : Result.error<number, string>("too small")))
+        .andThen((value) => ResultAsync.ok<string, string>(`value: ${value}`));
+    expect(result.get()).toEqual("value: 6");
+    const error = await ResultAsync.error<number, string>("nope")
+        .map((value) => value + 1)
+        .mapError(async (message) => message.toUpperCase());
+    expect(error.getError()).toEqual("NOPE");
+});
+
+test("result async recovery test", async () => {
+    const recovered = await ResultAsync.error<number, string>("missing").orElse(async () => Result.ok<number, Error>(42));
+    expect(recovered.get()).toEqual(42);
+    expect(
+        await ResultAsync.ok(1)
+            .orElse(() => Result.ok(2))
+            .unwrapOr(0),
+    ).toEqual(1);
+    expect(await ResultAsync.error<number, string>("missing").getOrElse(0)).toEqual(0);
+    const message = await ResultAsync.fromResult(Promise.resolve(Result.error<number, string>("failed"))).match({
+        ok: (value) => `got ${value}`,
+        error: async (reason) => `error: ${reason}`,
+    });
+    expect(message).toEqual("error: failed");
+});
+
+test("result async from promise test", async () => {
+    expect((await ResultAsync.fromPromise(Promise.resolve(5))).get()).toEqual(5);
+    const rejected = await ResultAsync.fromPromise(Promise.reject(new Error("boom")), (reason) => (reason as Error).message);
+    expect(rejected.getError()).toEqual("boom");
+    const thrown = await ResultAsync.try(() => {
+        throw new TypeError("bad");
+    });
+    expect(thrown.getError()).toBeInstanceOf(TypeError);
+    expect((await ResultAsync.try(async () => "ok")).get()).toEqual("ok");
+    await expect(ResultAsync.ok(1).map(() => Promise.reject(new Error("callback")))).rejects.toThrow("callback");
+});
+
+test("result async combine test", async () => {
+    const combined = await ResultAsync.combine([ResultAsync.ok(1), Result.ok<string, never>("a"), Promise.resolve(Result.ok<boolean, never>(true))]);
+    const values: [number, string, boolean] = combined.get();
+    expect(values).toEqual([1, "a", true]);
+    const failed = await ResultAsync.combine([ResultAsync.ok(1), ResultAsync.error("first"), ResultAsync.error("second")]);
+    expect(failed.getError()).toEqual("first");
+    expect((await ResultAsync.combine([])).get()).toEqual([]);
+});
@@ -0,0 +1,226 @@
+import { Result } from "./results.js";
+
+/**
+ * A value or a promise of a value. Every callback of a {@link ResultAsync} can return either.
+ *
+ * @category Typeguarding
+ */
+export type MaybePromise<T> = T | PromiseLike<T>;
+
+type OkType<R> = R extends MaybePromise<Result<infer T, unknown>> ? T : never;
+type ErrorType<R> = R extends MaybePromise<Result<unknown, infer E>> ? E : never;
+
+/**
+ * A {@link Result} that is not available yet, such as the result of a network request.
+ *
+ * A ResultAsync wraps a `Promise<Result<T, E>>` and has the same chaining methods as Result, but the callbacks can be either synchronous or asynchronous.
+ * This means that a chain of fallible async steps can be written without awaiting and unwrapping every step.
+ * A ResultAsync is awaitable, and awaiting it gives the final Result.
+ *
+ * If a callback throws or returns a rejected promise, the ResultAsync rejects rather than containing an error,
+ * just like `Promise#then`. Use {@link ResultAsync.try} or {@link ResultAsync.fromPromise} to turn exceptions into errors.
+ *
+ * @example
+ * ```ts
+ * const result = await ResultAsync.fromPromise(fetch(url), (error) => new NetworkError(error))
+ *     .andThen((response) => (response.ok ? Result.ok(response) : Result.error(new HttpError(response.status))))
+ *     .map((response) => response.json())
+ *     .mapError((error) => error.message);
+ * // result is a Result<unknown, string>
+ * ```
+ *
+ * @category Typeguarding
+ */
+export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
+    readonly #promise: Promise<Result<T, E>>;
+    /**
+     * Wraps a promise of a Result.
+     *
+     * @param promise The promise to wrap.
+     */
+    constructor(promise: PromiseLike<Result<T, E>>) {
+        this.#promise = Promise.resolve(promise);
+    }
+    /**
+     * Creates a ResultAsync that contains a success value.
+     *
+     * @param value The success value.
+     */
+    static ok<T, E = never>(value: T): ResultAsync<T, E> {
+        return new ResultAsync(Promise.resolve(Result.ok<T, E>(value)));
+    }
+    /**
+     * Creates a ResultAsync that contains an error.
+     *
+     * @param error The error.
+     */
+    static error<T = never, E = unknown>(error: E): ResultAsync<T, E> {
+        return new ResultAsync(Promise.resolve(Result.error<T, E>(error)));
+    }
+    /**
+     * Creates a ResultAsync from a Result, or from a promise of one.
+     *
+     * @param result The Result to wrap.
+     */
+    static fromResult<T, E>(result: MaybePromise<Result<T, E>>): ResultAsync<T, E> {
+        return new ResultAsync(Promise.resolve(result));
+    }
+    /**
+     * Creates a ResultAsync from a promise that might reject. If the promise resolves, the ResultAsync contains the value,
+     * and if it rejects, the ResultAsync contains the rejection reason.
+     *
+     * @example
+     * ```ts
+     * const response = await ResultAsync.fromPromise(fetch(url), (error) => `Request failed: ${error}`);
+     * ```
+     *
+     * @param promise   The promise to wrap.
+     * @param errorFunc A function that converts the rejection reason to an error. Defaults to using the reason as is.
+     */
+    static fromPromise<T, E = unknown>(promise: PromiseLike<T>, errorFunc: (reason: unknown) => E = (reason): E => reason as E): ResultAsync<T, E> {
+        return new ResultAsync(
+            Promise.resolve(promise).then(
+                (value) => Result.ok<T, E>(value),
+                (reason) => Result.error<T, E>(errorFunc(reason)),
+            ),
+        );
+    }
+    /**
+     * Runs a function, which can be synchronous or asynchronous, and returns its return value as a ResultAsync.
+     * If the function throws or returns a rejected promise, the ResultAsync contains the error instead.
+     * This is the chainable version of {@link Result.tryAsync}.
+     *
+     * @example
+     * ```ts
+     * const config = ResultAsync.try(async () => JSON.parse(await readFile("config.json", "utf8")));
+     * ```
+     *
+     * @param func The function to run.
+     */
+    static try<T, E = unknown>(func: () => MaybePromise<T>): ResultAsync<T, E> {
+        return ResultAsync.fromPromise<T, E>(new Promise<T>((resolve) => resolve(func())));
+    }
+    /**
+     * Waits for several Results, and combines their success values into an array with the same order and types.
+     * If any of them contains an error, the combined ResultAsync contains the first error in the order of the array.
+     *
+     * @example
+     * ```ts
+     * const result = await ResultAsync.combine([fetchUser(id), fetchOrders(id), Result.ok(5)]);
+     * // result is a Result<[User, Order[], number], UserError | OrderError>
+     * ```
+     *
+     * @param results The Results to combine. They can be Results, ResultAsyncs, or promises of Results.
+     */
+    static combine<R extends readonly MaybePromise<Result<unknown, unknown>>[] | []>(
+        results: R,
+    ): ResultAsync<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrorType<R[number]>> {
+        return new ResultAsync(
+            Promise.all(results).then((resolved) => {
+                const values: unknown[] = [];
+                for (const result of resolved as Result<unknown, unknown>[]) {
+                    if (result.isError()) {
+                        return Result.error(result.getError() as ErrorType<R[number]>);
+                    }
+                    values.push(result.get());
+                }
+                return Result.ok(values as { -readonly [K in keyof R]: OkType<R[K]> });
+            }),
+        );
+    }
+    then<TResult1 = Result<T, E>, TResult2 = never>(
+        onfulfilled?: ((value: Result<T, E>) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+    ): Promise<TResult1 | TResult2> {
+        return this.#promise.then(onfulfilled, onrejected);
+    }
+    /**
+     * If the Result contains a success value, maps it with a function. If the Result contains an error, keeps the error.
+     *
+     * @param func The function to map the value with. It can return a promise.
+     */
+    map<U>(func: (value: T) => MaybePromise<U>): ResultAsync<U, E> {
+        return new ResultAsync(
+            this.#promise.then(async (result) =>
+                result.isError() ? Result.error<U, E>(result.getError()) : Result.ok<U, E>(await func(result.get())),
+            ),
+        );
+    }
+    /**
+     * If the Result contains an error, maps it with a function. If the Result contains a success value, keeps the value.
+     *
+     * @param func The function to map the error with. It can return a promise.
+     */
+    mapError<F>(func: (error: E) => MaybePromise<F>): ResultAsync<T, F> {
+        return new ResultAsync(
+            this.#promise.then(async (result) =>
+                result.isError() ? Result.error<T, F>(await func(result.getError())) : Result.ok<T, F>(result.get()),
+            ),
+        );
+    }
+    /**
+     * If the Result contains a success value, calls a function that returns another Result, and uses it as the new Result.
+     * If the Result contains an error, keeps the error. This chains steps that can each fail.
+     *
+     * @example
+     * ```ts
+     * const order = ResultAsync.fromResult(parseOrderId(input)).andThen((id) => fetchOrder(id)); // fetchOrder returns a ResultAsync
+     * ```
+     *
+     * @param func The function to call with the value. It can return a Result, a ResultAsync, or a promise of a Result.
+     */
+    andThen<U, F>(func: (value: T) => MaybePromise<Result<U, F>>): ResultAsync<U, E | F> {
+        return new ResultAsync<U, E | F>(
+            this.#promise.then((result) => (result.isError() ? Result.error<U, E | F>(result.getError()) : func(result.get()))),
+        );
+    }
+    /**
+     * If the Result contains an error, calls a function that returns another Result, and uses it as the new Result.
+     * If the Result contains a success value, keeps the value. This recovers from errors, possibly with another fallible step.
+     *
+     * @example
+     * ```ts
+     * const user = fetchFromCache(id).orElse(() => fetchFromDatabase(id));
+     * ```
+     *
+     * @param func The function to call with the error. It can return a Result, a ResultAsync, or a promise of a Result.
+     */
+    orElse<U, F>(func: (error: E) => MaybePromise<Result<U, F>>): ResultAsync<T | U, F> {
+        return new ResultAsync<T | U, F>(
+            this.#promise.then((result) => (result.isError() ? func(result.getError()) : Result.ok<T | U, F>(result.get()))),
+        );
+    }
+    /**
+     * Calls one of two functions depending on whether the Result contains a success value or an error, and returns what it returns.
+     *
+     * @example
+     * ```ts
+     * const status = await fetchUser(id).match({
+     *     ok: (user) => `Found ${user.name}`,
+     *     error: (error) => `Failed: ${error.message}`,
+     * });
+     * ```
+     *
+     * @param handlers The functions to call. They can return promises.
+     * @returns A promise of the return value of the function that was called.
+     */
+    match<A, B>(handlers: { ok: (value: T) => MaybePromise<A>; error: (error: E) => MaybePromise<B> }): Promise<A | B> {
+        return this.#promise.then((result) => (result.isError() ? handlers.error(result.getError()) : handlers.ok(result.get())));
+    }
+    /**
+     * If the Result contains a success value, returns the value. If the Result contains an error, returns the provided value.
+     *
+     * @param value The value to return if the Result contains an error.
+     */
+    getOrElse<U>(value: U): Promise<T | U> {
+        return this.#promise.then((result) => (result.isError() ? value : result.get()));
+    }
+    /**
+     * Same as {@link getOrElse}, for familiarity with other Result libraries.
+     *
+     * @param value The value to return if the Result contains an error.
+     */
+    unwrapOr<U>(value: U): Promise<T | U> {
+        return this.getOrElse(value);
+    }
+}
@@ -0,0 +1,253 @@
+import { ContextError, StructuredError } from "../errors/errors.js";
+import { GetErrorResult, Result } from "./results.js";
+
+const parseNumber = (text: string): Result<number, string> =>
+    /^\d+$/.test(text) ? Result.ok(parseInt(text, 10)) : Result.error(`"${text}" is not a number`);
+const positive = (value: number): Result<number, RangeError> => (value > 0 ? Result.ok(value) : Result.error(new RangeError("not positive")));
+
+test("result andThen and orElse test", () => {
+    expect(parseNumber("5").andThen(positive).get()).toEqual(5);
+    expect(parseNumber("0").flatMap(positive).getError()).toBeInstanceOf(RangeError);
+    expect(parseNumber("x").andThen(positive).getError()).toEqual('"x" is not a number');
+    expect(
+        parseNumber("x")
+            .orElse(() => parseNumber("7"))
+            .get(),
+    ).toEqual(7);
+    expect(
+        parseNumber("x")
+            .orElse(() => Result.error(404))
+            .getError(),
+    ).toEqual(404);
+    expect(
+        parseNumber("3")
+            .orElse(() => Result.error(404))
+            .get(),
+    ).toEqual(3);
+    expect(
+        parseNumber("x")
+            .recover((error) => error.length)
+            .get(),
+    ).toEqual(19);
+});
+
+test("result match and tap test", () => {
+    const handlers = { ok: (value: number): string => `ok ${value}`, error: (error: string): string => `error ${error}` };
+    expect(parseNumber("5").match(handlers)).toEqual("ok 5");
+    expect(parseNumber("x").match(handlers)).toEqual('error "x" is not a number');
+    const seen: unknown[] = [];
+    const result = parseNumber("5")
+        .tap((value) => seen.push(value))
+        .tapError((error) => seen.push(error));
+    expect(result.get()).toEqual(5);
+    parseNumber("x")
+        .tap((value) => seen.push(value))
+        .tapError((error) => seen.push(error));
+    expect(seen).toEqual([5, '"x" is not a number']);
+});
+
+test("result gen test", () => {
+    const sum = (a: string, b: string): Result<number, string | RangeError> =>
+        Result.gen(function* () {
+            const x = yield* parseNumber(a);
+            const y = yield* parseNumber(b).andThen(positive);
+            return x + y;
+        });
+    expect(sum("1", "2").get()).toEqual(3);
+    expect(sum("x", "2").getError()).toEqual('"x" is not a number');
+    expect(sum("1", "0").getError()).toBeInstanceOf(RangeError);
+    let cleanedUp = false;
+    const result = Result.gen(function* () {
+        try {
+            yield* parseNumber("x");
+            return "unreachable";
+        } finally {
+            cleanedUp = true;
+        }
+    });
+    expect(result.isError()).toBe(true);
+    expect(cleanedUp).toBe(true);
+});
+
+test("result gen error union test", () => {
+    class NotFoundError extends Error {}
+    class ParseError extends Error {}
+    const find = (id: number): Result<{ id: number; address: string }, NotFoundError> =>
+        id === 1 ? Result.ok({ id, address: "Berlin" }) : Result.error(new NotFoundError());
+    const parse = (address: string): Result<{ city: string }, ParseError> =>
+        address ? Result.ok({ city: address }) : Result.error(new ParseError());
+    // No return type annotation, so the error type has to be inferred from every yield.
+    const result = Result.gen(function* () {
+        const user = yield* find(1);
+        const address = yield* parse(user.address);
+        return `${user.id} lives in ${address.city}`;
+    });
+    const typed: Result<string, NotFoundError | ParseError> = result;
+    expect(typed.get()).toEqual("1 lives in Berlin");
+    const missing = Result.gen(function* () {
+        const user = yield* find(2);
+        return yield* parse(user.address);
+    });
+    expect(missing.getError()).toBeInstanceOf(NotFoundError);
+});
+
+test("result undefined value test", () => {
+    const saved: Result<void, string> = Result.ok(undefined);
+    expect(saved.isOk()).toBe(true);
+    expect(saved.isError()).toBe(false);
+    expect(saved.tag).toEqual("ok");
+    expect(saved.get()).toBeUndefined();
+    expect(
+        saved
+            .mapBoth(
+                () => "mapped value",
+                () => "mapped error",
+            )
+            .get(),
+    ).toEqual("mapped value");
+    expect(saved.match({ ok: () => "ok", error: () => "error" })).toEqual("ok");
+    const failed = Result.error<number, undefined>(undefined);
+    expect(failed.isError()).toBe(true);
+    expect(failed.getOrElse(5)).toEqual(5);
+    expect(() => failed.get()).toThrow();
+});
+
+test("result narrowing test", () => {
+    const result: Result<number, string> = parseNumber("5");
+    if (result.isOk()) {
+        const value: number = result.value;
+        expect(value).toEqual(5);
+    }
+    const failed: Result<number, string> = parseNumber("x");
+    if (failed.isError()) {
+        const error: string = failed.error;
+        expect(error).toEqual('"x" is not a number');
+    }
+    expect(failed.value).toBeUndefined();
+});
+
+test("result all test", () => {
+    const tuple = Result.all([parseNumber("1"), Result.ok<string, RangeError>("a")]);
+    const values: [number, string] = tuple.get();
+    expect(values).toEqual([1, "a"]);
+    expect(Result.all([parseNumber("1"), parseNumber("x"), parseNumber("y")]).getError()).toEqual('"x" is not a number');
+    const record = Result.all({ width: parseNumber("10"), height: positive(20) });
+    const size: { width: number; height: number } = record.get();
+    expect(size).toEqual({ width: 10, height: 20 });
+    expect(Result.all({ width: parseNumber("10"), height: positive(-1) }).getError()).toBeInstanceOf(RangeError);
+    expect(Result.all([]).get()).toEqual([]);
+    expect(Result.sequence([parseNumber("2"), parseNumber("3")]).get()).toEqual([2, 3]);
+});
+
+test("result allSettled test", () => {
+    expect(Result.allSettled([parseNumber("1"), parseNumber("2")]).get()).toEqual([1, 2]);
+    expect(Result.allSettled([parseNumber("x"), parseNumber("2"), parseNumber("y")]).getError()).toEqual([
+        '"x" is not a number',
+        '"y" is not a number',
+    ]);
+    const record = Result.allSettled({ a: parseNumber("x"), b: parseNumber("2"), c: parseNumber("y") });
+    expect(record.getError()).toEqual({ a: '"x" is not a number', c: '"y" is not a number' });
+    expect(Result.allSettled({ a: parseNumber("1") }).get()).toEqual({ a: 1 });
+});
+
+test("result partition test", () => {
+    const [values, errors] = Result.partition(["1", "x", "3"].map(parseNumber));
+    expect(values).toEqual([1, 3]);
+    expect(errors).toEqual(['"x" is not a number']);
+});
+
+test("result any test", () => {
+    expect(Result.any([parseNumber("x"), parseNumber("2"), parseNumber("3")]).get()).toEqual(2);
+    const failed = Result.any([parseNumber("x"), positive(-1)]);
+    const errors: [string, RangeError] = failed.getError();
+    expect(errors[0]).toEqual('"x" is not a number');
+    expect(errors[1]).toBeInstanceOf(RangeError);
+    expect(Result.any([]).getError()).toEqual([]);
+});
+
+test("result traverse test", () => {
+    expect(Result.traverse(["1", "2"], parseNumber).get()).toEqual([1, 2]);
+    const seen: string[] = [];
+    const failed = Result.traverse(["1", "x", "3"], (text) => {
+        seen.push(text);
+        return parseNumber(text);
+    });
+    expect(failed.getError()).toEqual('"x" is not a number');
+    expect(seen).toEqual(["1", "x"]);
+    expect(Result.traverse([5, 6], (value, index) => Result.ok(value * index)).get()).toEqual([0, 6]);
+    const record = Result.traverse({ width: "10", height: "20" }, (text, key) => parseNumber(text).map((value) => `${key}=${value}`));
+    const labels: Record<"width" | "height", string> = record.get();
+    expect(labels).toEqual({ width: "width=10", height: "height=20" });
+});
+
+test("result json test", () => {
+    expect(JSON.stringify(Result.ok(5))).toEqual('{"tag":"ok","value":5}');
+    expect(JSON.stringify(Result.error("failed"))).toEqual('{"tag":"error","error":"failed"}');
+    const revived = Result.fromJSON<{ a: number[] }, string>(JSON.parse(JSON.stringify(Result.ok({ a: [1, 2] }))));
+    expect(revived.get()).toEqual({ a: [1, 2] });
+    expect(Result.fromJSON(structuredClone(Result.error<number, string>("failed").toJSON())).getError()).toEqual("failed");
+    const nothing = Result.fromJSON<void, string>(JSON.parse(JSON.stringify(Result.ok(undefined))));
+    expect(nothing.isOk()).toBe(true);
+    expect(JSON.stringify({ results: [Result.ok(1)] })).toEqual('{"results":[{"tag":"ok","value":1}]}');
+    expect(() => Result.fromJSON(JSON.parse('{"tag":"maybe"}'))).toThrow(TypeError);
+    expect(() => Result.fromJSON(JSON.parse("null"))).toThrow(TypeError);
+});
+
+class NotFoundError extends StructuredError<"NotFound"> {
+    constructor(path: string) {
+        super("NotFound", `${path} does not exist`, { context: { path } });
+    }
+}
+class ForbiddenError extends StructuredError<"Forbidden"> {
+    constructor() {
+        super("Forbidden", "not allowed");
+    }
+}
+const readFile = (path: string): Result<string, NotFoundError | ForbiddenError> =>
+    path === "secret"
+        ? Result.error(new ForbiddenError())
+        : path === "missing"
+        ? Result.error(new NotFoundError(path))
+        : Result.ok(`contents of ${path}`);
+
+test("result catchTag test", () => {
+    const recovered: Result<string, ForbiddenError> = readFile("missing").catchTag("NotFound", (error) =>
+        Result.ok(`default for ${error.context.path}`),
+    );
+    expect(recovered.get()).toEqual("default for missing");
+    expect(
+        readFile("secret")
+            .catchTag("NotFound", () => Result.ok("default"))
+            .getError(),
+    ).toBeInstanceOf(ForbiddenError);
+    expect(
+        readFile("a")
+            .catchTag("NotFound", () => Result.ok("default"))
+            .get(),
+    ).toEqual("contents of a");
+    const handled: Result<string, never> = readFile("secret")
+        .catchTag("NotFound", () => Result.ok<string, never>("default"))
+        .catchTag("Forbidden", () => Result.ok<string, never>("hidden"));
+    expect(handled.get()).toEqual("hidden");
+    const converted: Result<string, string | ForbiddenError> = readFile("missing").catchTag("NotFound", (error) => Result.error(error.message));
+    expect(converted.getError()).toEqual("missing does not exist");
+});
+
+test("result context test", () => {
+    const failed = readFile("missing").context("while loading the config", { attempt: 1 });
+    const error: ContextError<NotFoundError | ForbiddenError> = failed.getError();
+    expect(error.code).toEqual("Context");
+    expect(error.cause).toBeInstanceOf(NotFoundError);
+    expect(error.render()).toEqual('while loading the config\n    attempt: 1\nCaused by: NotFound: missing does not exist\n    path: "missing"');
+    expect(readFile("a").context("while loading the config").get()).toEqual("contents of a");
+    expect(Result.error<number, string>("bad").context("while parsing").getError().cause).toEqual("bad");
+});
+
+test("result error codes test", () => {
+    expect(() => Result.error("bad").get()).toThrow(GetErrorResult);
+    try {
+        Result.error("bad").get();
+    } catch (error) {
+        expect((error as GetErrorResult).code).toEqual("GetErrorResult");
+    }
+});
@@ -1,3 +1,4 @@
+import { ContextError, ErrorCode, StructuredError, hasErrorCode } from "../errors/errors.js";
 import { Optional } from "./optionals.js";
 
 /**
@@ -5,17 +6,71 @@ import { Optional } from "./optionals.js";
  *
  * @category Typeguarding
  */
-export class GetErrorResult extends Error {}
+export class GetErrorResult extends StructuredError<"GetErrorResult"> {
+    constructor(message: string) {
+        super("GetErrorResult", message);
+    }
+}
+
+/**
+ * A {@link Result} that is known to contain a success value, such as after checking {@link Result#isOk}.
+ *
+ * @category Typeguarding
+ */
+export type Ok<T, E = never> = Result<T, E> & { readonly tag: "ok"; readonly value: T; readonly error: undefined };
+
+/**
+ * A {@link Result} that is known to contain an error, such as after checking {@link Result#isError}.
+ *
+ * @category Typeguarding
+ */
+export type Err<T, E> = Result<T, E> & { readonly tag: "error"; readonly value: undefined; readonly error: E };
+
+/**
+ * The plain object form of a {@link Result}, as returned by {@link Result#toJSON} and read by {@link Result.fromJSON}.
+ * This is a stable wire format, so it can be sent over HTTP, stored, or passed to a worker.
+ *
+ * @category Typeguarding
+ */
+export type SerializedResult<T, E> = { readonly tag: "ok"; readonly value: T } | { readonly tag: "error"; readonly error: E };
+
+type AnyResult = Result<unknown, unknown>;
+type OkType<R> = R extends Result<infer T, unknown> ? T : never;
+type ErrorType<R> = R extends Result<unknown, infer E> ? E : never;
+type ResultArray = readonly AnyResult[] | [];
+type ResultRecord = Readonly<Record<string, AnyResult>>;
+
+/**
+ * Rebuilds an array or a record with the same keys as `source`, from values in the order of `Object.keys(source)`.
+ */
+function rebuild(source: object, values: unknown[]): unknown {
+    return Array.isArray(source) ? values : Object.fromEntries(Object.keys(source).map((key, index) => [key, values[index]]));
+}
 
 /**
  * A Result is a type that can either be a success value or an error.
  *
+ * Whether a Result is successful is stored separately from its contents, so the success value and the error can be anything,
+ * including `undefined`. This means that `Result<void, E>` works as expected for operations that succeed without a value.
+ *
+ * @example
+ * ```ts
+ * const result = parsePort(input); // Result<number, ParseError>
+ * if (result.isOk()) {
+ *     listen(result.value); // result.value is a number here
+ * } else {
+ *     console.error(result.getError().message);
+ * }
+ * ```
+ *
  * @category Typeguarding
  */
 export class Result<T, E> {
-    #value: T | undefined;
-    #error: E | undefined;
-    constructor(value: T | undefined, error: E | undefined) {
+    readonly #tag: "ok" | "error";
+    readonly #value: T | undefined;
+    readonly #error: E | undefined;
+    private constructor(tag: "ok" | "error", value: T | undefined, error: E | undefined) {
+        this.#tag = tag;
         this.#value = value;
         this.#error = error;
     }
@@ -55,6 +110,8 @@ export class Result<T, E> {
      * const other = await Result.tryAsync(async () => 5); // same as Result.ok(5)
      * ```
      *
+     * To keep chaining steps without awaiting each one, use {@link ResultAsync.try} instead.
+     *
      * @param func The function to run.
      */
     static async tryAsync<T, E>(func: () => Promise<T>): Promise<Result<T, E>> {
@@ -65,13 +122,196 @@ export class Result<T, E> {
             return Result.error(error) as Result<T, E>;
         }
     }
+    /**
+     * Runs a generator function that unwraps Results with `yield*`, so that several fallible steps can be written one after another
+     * without nesting. Each `yield*` evaluates to the success value of the Result, and the first erroring Result stops the generator
+     * and becomes the result. The return value of the generator becomes the success value.
+     *
+     * @example
+     * ```ts
+     * const result = Result.gen(function* () {
+     *     const user = yield* findUser(id); // Result<User, NotFoundError>
+     *     const address = yield* parseAddress(user.address); // Result<Address, ParseError>
+     *     return `${user.name} lives in ${address.city}`;
+     * }); // Result<string, NotFoundError | ParseError>
+     * ```
+     *
+     * @param func The generator function to run.
+     */
+    static gen<Y extends Result<never, unknown>, T>(func: () => Generator<Y, T, unknown>): Result<T, ErrorType<Y>> {
+        const iterator = func();
+        const step = iterator.next();
+        if (!step.done) {
+            // Run any finally blocks in the generator.
+            iterator.return(undefined as T);
+            return Result.error(step.value.getError() as ErrorType<Y>);
+        }
+        return Result.ok(step.value);
+    }
+    /**
+     * Combines an array or a record of Results into a single Result. If every Result is successful, the combined Result contains
+     * their values in the same shape, with the types of tuples and record keys preserved. Otherwise, it contains the first error.
+     *
+     * @example
+     * ```ts
+     * Result.all([parsePort(a), parseHost(b)]); // Result<[number, string], PortError | HostError>
+     * Result.all({ port: parsePort(a), host: parseHost(b) }); // Result<{ port: number; host: string }, PortError | HostError>
+     * ```
+     *
+     * @param results The Results to combine.
+     */
+    static all<R extends ResultArray>(results: R): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrorType<R[number]>>;
+    static all<R extends ResultRecord>(results: R): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrorType<R[keyof R]>>;
+    static all(results: ResultArray | ResultRecord): AnyResult {
+        const values: unknown[] = [];
+        for (const result of Object.values(results)) {
+            if (result.isError()) {
+                return Result.error(result.error);
+            }
+            values.push(result.value);
+        }
+        return Result.ok(rebuild(results, values));
+    }
+    /**
+     * Same as {@link Result.all}, under the name it has in functional programming.
+     *
+     * @param results The Results to combine.
+     */
+    static sequence<R extends ResultArray>(results: R): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrorType<R[number]>>;
+    static sequence<R extends ResultRecord>(results: R): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrorType<R[keyof R]>>;
+    static sequence(results: ResultArray | ResultRecord): AnyResult {
+        return Result.all(results as ResultRecord);
+    }
+    /**
+     * Like {@link Result.all}, but collects every error instead of stopping at the first one. This is useful for validation,
+     * where every problem should be reported at once. For an array, the errors are in an array. For a record, the errors are in a record
+     * with the keys of the Results that failed.
+     *
+     * @example
+     * ```ts
+     * const rows = lines.map((line) => parseRow(line));
+     * Result.allSettled(rows).ifError((errors) => console.error(`${errors.length} invalid rows`));
+     * ```
+     *
+     * @param results The Results to combine.
+     */
+    static allSettled<R extends ResultArray>(results: R): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrorType<R[number]>[]>;
+    static allSettled<R extends ResultRecord>(
+        results: R,
+    ): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, { -readonly [K in keyof R]?: ErrorType<R[K]> }>;
+    static allSettled(results: ResultArray | ResultRecord): AnyResult {
+        const entries = Object.entries(results);
+        const failed = entries.filter(([, result]) => result.isError());
+        if (failed.length > 0) {
+            const errors = failed.map(([key, result]) => [key, result.error] as const);
+            return Result.error(Array.isArray(results) ? errors.map(([, error]) => error) : Object.fromEntries(errors));
+        }
+        return Result.ok(
+            rebuild(
+                results,
+                entries.map(([, result]) => result.value),
+            ),
+        );
+    }
+    /**
+     * Splits Results into their success values and their errors, keeping the order of each.
+     *
+     * @example
+     * ```ts
+     * const [users, errors] = Result.partition(rows.map(parseUser));
+     * ```
+     *
+     * @param results The Results to split.
+     * @returns A tuple of the success values and the errors.
+     */
+    static partition<T, E>(results: Iterable<Result<T, E>>): [T[], E[]] {
+        const values: T[] = [];
+        const errors: E[] = [];
+        for (const result of results) {
+            if (result.isOk()) {
+                values.push(result.value);
+            } else {
+                errors.push(result.error as E);
+            }
+        }
+        return [values, errors];
+    }
+    /**
+     * Returns the first successful Result. If none of them are successful, returns a Result that contains every error, in the same order.
+     *
+     * @example
+     * ```ts
+     * Result.any([readConfig("./app.json"), readConfig("~/.app.json")]); // the first config that could be read
+     * ```
+     *
+     * @param results The Results to check.
+     */
+    static any<R extends ResultArray>(results: R): Result<OkType<R[number]>, { -readonly [K in keyof R]: ErrorType<R[K]> }> {
+        const errors: unknown[] = [];
+        for (const result of results) {
+            if (result.isOk()) {
+                return Result.ok(result.value as OkType<R[number]>);
+            }
+            errors.push(result.error);
+        }
+        return Result.error(errors as { -readonly [K in keyof R]: ErrorType<R[K]> });
+    }
+    /**
+     * Calls a function that returns a Result for every item of an array or every value of a record, and combines the Results like {@link Result.all}.
+     * The function is not called for the items after the first error.
+     *
+     * @example
+     * ```ts
+     * Result.traverse(["1", "2", "3"], parseNumber); // Result<number[], ParseError>
+     * Result.traverse({ width: "10", height: "20" }, parseNumber); // Result<{ width: number; height: number }, ParseError>
+     * ```
+     *
+     * @param items The array or record to go through.
+     * @param func  The function to call with each item and its index or key.
+     */
+    static traverse<T, U, E>(items: readonly T[], func: (item: T, index: number) => Result<U, E>): Result<U[], E>;
+    static traverse<K extends string, T, U, E>(items: Readonly<Record<K, T>>, func: (item: T, key: K) => Result<U, E>): Result<Record<K, U>, E>;
+    static traverse(items: readonly unknown[] | Readonly<Record<string, unknown>>, func: (item: unknown, key: never) => AnyResult): AnyResult {
+        const values: unknown[] = [];
+        for (const [key, item] of Object.entries(items)) {
+            const result = func(item, (Array.isArray(items) ? Number(key) : key) as never);
+            if (result.isError()) {
+                return result;
+            }
+            values.push(result.value);
+        }
+        return Result.ok(rebuild(items, values));
+    }
+    /**
+     * Revives a Result from its plain object form, such as one created by {@link Result#toJSON} and then parsed or structured cloned.
+     * The value and error are used as is. To validate them, or to revive Results from untrusted input, use `resultSchema` with Zod instead.
+     *
+     * @example
+     * ```ts
+     * const result = Result.fromJSON<User, string>(await response.json());
+     * ```
+     *
+     * @param json The plain object form of the Result.
+     * @throws {TypeError} If the object does not have a tag of `"ok"` or `"error"`.
+     */
+    static fromJSON<T, E>(json: SerializedResult<T, E>): Result<T, E> {
+        const tag: unknown = json?.tag;
+        // JSON.stringify drops properties that are undefined, so a missing value or error is read as undefined.
+        if (tag === "ok") {
+            return Result.ok((json as { value?: T }).value as T);
+        }
+        if (tag === "error") {
+            return Result.error((json as { error?: E }).error as E);
+        }
+        throw new TypeError(`Expected a serialized Result with a tag of "ok" or "error", got ${JSON.stringify(json)}.`);
+    }
     /**
      * Creates a new Result object that contains a success value.
      *
      * @param value The success value.
      */
     static ok<T, E>(value: T): Result<T, E> {
-        return new Result<T, E>(value, undefined);
+        return new Result<T, E>("ok", value, undefined);
     }
     /**
      * Creates a new Result object that contains an error.
@@ -79,19 +319,39 @@ export class Result<T, E> {
      * @param error The error.
      */
     static error<T, E>(error: E): Result<T, E> {
-        return new Result<T, E>(undefined, error);
+        return new Result<T, E>("error", undefined, error);
+    }
+    /**
+     * Whether the Result contains a success value (`"ok"`) or an error (`"error"`).
+     */
+    get tag(): "ok" | "error" {
+        return this.#tag;
+    }
+    /**
+     * The success value, or undefined if the Result contains an error. After checking {@link Result#isOk}, the type is narrowed to the value.
+     */
+    get value(): T | undefined {
+        return this.#value;
+    }
+    /**
+     * The error, or undefined if the Result contains a success value. After checking {@link Result#isError}, the type is narrowed to the error.
+     */
+    get error(): E | undefined {
+        return this.#error;
     }
     /**
      * Returns whether the Result contains a success value. Opposite of {@link Result#isError}.
+     * This narrows the type of the Result, so that {@link Result#value} is the success value.
      */
-    isOk(): boolean {
-        return this.#value !== undefined;
+    isOk(): this is Ok<T, E> {
+        return this.#tag === "ok";
     }
     /**
      * Returns whether the Result contains an error. Opposite of {@link Result#isOk}.
+     * This narrows the type of the Result, so that {@link Result#error} is the error.
      */
-    isError(): boolean {
-        return this.#error !== undefined;
+    isError(): this is Err<T, E> {
+        return this.#tag === "error";
     }
     /**
      * Calls a function if the Result contains a success value.
@@ -100,8 +360,8 @@ export class Result<T, E> {
      * @returns The object itself for method chaining.
      */
     ifOk(func: (value: T) => void): this {
-        if (this.#value !== undefined) {
-            func(this.#value);
+        if (this.#tag === "ok") {
+            func(this.#value as T);
         }
         return this;
     }
@@ -112,8 +372,8 @@ export class Result<T, E> {
      * @returns The object itself for method chaining.
      */
     ifError(func: (error: E) => void): this {
-        if (this.#error !== undefined) {
-            func(this.#error);
+        if (this.#tag === "error") {
+            func(this.#error as E);
         }
         return this;
     }
@@ -125,26 +385,26 @@ export class Result<T, E> {
      * @returns The object itself for method chaining.
      */
     ifOkOrElse(func: (value: T) => void, elseFunc: (error: E) => void): this {
-        if (this.#value !== undefined) {
-            func(this.#value);
+        if (this.#tag === "ok") {
+            func(this.#value as T);
         } else {
-            elseFunc(this.#error!);
+            elseFunc(this.#error as E);
         }
         return this;
     }
     /**
-     * Filters the Result by a function. If the Result contains a success value and the function returns true, the Result will be returned. If the Result contains a success value and the function returns false, an erroring Result will be returned. If the Result contains an error, the erroring Result will be returned.
+     * Filters the Result by a function. If the Result contains a success value and the function returns true, the Result will be returned. If the Result contains a success value and the function returns false, an erroring Result with an undefined error will be returned. If the Result contains an error, the erroring Result will be returned.
      *
      * @param func The function to filter the Result with. The value will be passed as the first argument.
      */
     filter(func: (value: T) => boolean): Result<T, E> {
         if (this.isError()) {
-            return Result.error(this.#error!);
+            return Result.error(this.#error as E);
         }
-        if (func(this.#value!)) {
-            return Result.ok(this.#value!);
+        if (func(this.#value as T)) {
+            return Result.ok(this.#value as T);
         }
-        return Result.error(this.#error!);
+        return Result.error(this.#error as E);
     }
     /**
      * If the Result contains a success value, returns a new Result with the value mapped by the function. If the Result contains an error, returns the erroring Result.
@@ -153,9 +413,9 @@ export class Result<T, E> {
      */
     map<U>(func: (value: T) => U): Result<U, E> {
         if (this.isError()) {
-            return Result.error(this.#error!);
+            return Result.error(this.#error as E);
         }
-        return Result.ok(func(this.#value!));
+        return Result.ok(func(this.#value as T));
     }
     /**
      * If the Result contains an error, returns a new Result with the error mapped by the function. If the Result contains a success value, returns the success Result.
@@ -164,9 +424,9 @@ export class Result<T, E> {
      */
     mapError<F>(func: (error: E) => F): Result<T, F> {
         if (this.isOk()) {
-            return Result.ok(this.#value!);
+            return Result.ok(this.#value as T);
         }
-        return Result.error(func(this.#error!));
+        return Result.error(func(this.#error as E));
     }
     /**
      * If the Result contains a success value, returns a new Result with the value mapped by the function. If the Result contains an error, returns a new Result with the error mapped by the function.
@@ -175,28 +435,172 @@ export class Result<T, E> {
      * @param errorFunc The function to map the error with. The error will be passed as the first argument.
      */
     mapBoth<U, F>(func: (value: T) => U, errorFunc: (error: E) => F): Result<U, F> {
-        if (this.#value === undefined) {
-            return Result.error(errorFunc(this.#error!));
+        if (this.#tag === "error") {
+            return Result.error(errorFunc(this.#error as E));
+        }
+        return Result.ok(func(this.#value as T));
+    }
+    /**
+     * If the Result contains a success value, calls a function that returns another Result, and returns that Result.
+     * If the Result contains an error, returns the erroring Result. This chains steps that can each fail without nesting Results.
+     *
+     * @example
+     * ```ts
+     * const port = readEnv("PORT").andThen((text) => parsePort(text)); // Result<number, MissingError | ParseError>
+     * ```
+     *
+     * @param func The function to call with the value. The value will be passed as the first argument.
+     */
+    andThen<U, F>(func: (value: T) => Result<U, F>): Result<U, E | F> {
+        if (this.isError()) {
+            return Result.error(this.#error as E);
+        }
+        return func(this.#value as T);
+    }
+    /**
+     * Same as {@link Result#andThen}.
+     *
+     * @param func The function to call with the value. The value will be passed as the first argument.
+     */
+    flatMap<U, F>(func: (value: T) => Result<U, F>): Result<U, E | F> {
+        return this.andThen(func);
+    }
+    /**
+     * If the Result contains an error, calls a function that returns another Result, and returns that Result.
+     * If the Result contains a success value, returns the successful Result. This tries a fallback that can also fail.
+     *
+     * @example
+     * ```ts
+     * const config = readConfig("./config.json").orElse(() => readConfig("/etc/app/config.json"));
+     * ```
+     *
+     * @param func The function to call with the error. The error will be passed as the first argument.
+     */
+    orElse<U, F>(func: (error: E) => Result<U, F>): Result<T | U, F> {
+        if (this.isError()) {
+            return func(this.#error as E);
+        }
+        return Result.ok(this.#value as T);
+    }
+    /**
+     * If the Result contains an error, returns a successful Result with the value returned by the function.
+     * If the Result contains a success value, returns the successful Result. Unlike {@link Result#orElse}, the fallback cannot fail.
+     *
+     * @example
+     * ```ts
+     * const retries = parseRetries(input).recover(() => 3); // Result<number, never>
+     * ```
+     *
+     * @param func The function to call with the error. The error will be passed as the first argument.
+     */
+    recover<U>(func: (error: E) => U): Result<T | U, never> {
+        if (this.isError()) {
+            return Result.ok(func(this.#error as E));
+        }
+        return Result.ok(this.#value as T);
+    }
+    /**
+     * If the Result contains an error with a given `code`, calls a function that returns another Result, and uses it as the new Result.
+     * Other errors and success values are kept. The handled code is removed from the error type, so handling every code of a union
+     * of {@link StructuredError}s leaves an error type of `never`.
+     *
+     * @example
+     * ```ts
+     * const result: Result<Config, NotFoundError | ParseError> = loadConfig();
+     * const withDefault = result.catchTag("NotFound", () => Result.ok(DEFAULT_CONFIG)); // Result<Config, ParseError>
+     * ```
+     *
+     * @param code The code of the errors to handle.
+     * @param func The function to call with the error. The error will be passed as the first argument, narrowed to the errors with the code.
+     */
+    catchTag<C extends ErrorCode<E>, U, F = never>(
+        code: C,
+        func: (error: Extract<E, { readonly code: C }>) => Result<U, F>,
+    ): Result<T | U, Exclude<E, { readonly code: C }> | F> {
+        if (this.isError() && hasErrorCode(this.#error, code)) {
+            return func(this.#error as Extract<E, { readonly code: C }>);
+        }
+        return this as Result<T | U, Exclude<E, { readonly code: C }> | F>;
+    }
+    /**
+     * If the Result contains an error, wraps it in a {@link ContextError} that describes what was being done. The original error is kept as the cause,
+     * and {@link StructuredError#render} shows the whole chain. If the Result contains a success value, keeps the value.
+     *
+     * @example
+     * ```ts
+     * const config = readFile(path).context("while loading the config", { path });
+     * config.ifError((error) => console.error(error.render()));
+     * // while loading the config
+     * //     path: "./config.json"
+     * // Caused by: NotFound: ./config.json does not exist
+     * ```
+     *
+     * @param message A description of what was being done, such as `"while loading the config"`.
+     * @param context Extra information about what was being done.
+     */
+    context(message: string, context?: Readonly<Record<string, unknown>>): Result<T, ContextError<E>> {
+        if (this.isError()) {
+            return Result.error(new ContextError(message, this.#error as E, context));
         }
-        return Result.ok(func(this.#value));
+        return this as unknown as Result<T, ContextError<E>>;
+    }
+    /**
+     * Calls one of two functions depending on whether the Result contains a success value or an error, and returns what it returns.
+     *
+     * @example
+     * ```ts
+     * const message = result.match({
+     *     ok: (user) => `Hello, ${user.name}!`,
+     *     error: (error) => `Could not log in: ${error.message}`,
+     * });
+     * ```
+     *
+     * @param handlers The functions to call with the value or the error.
+     * @returns The return value of the function that was called.
+     */
+    match<A, B>(handlers: { ok: (value: T) => A; error: (error: E) => B }): A | B {
+        if (this.isError()) {
+            return handlers.error(this.#error as E);
+        }
+        return handlers.ok(this.#value as T);
+    }
+    /**
+     * Calls a function with the success value, if there is one, and returns the Result unchanged. Useful for logging in the middle of a chain.
+     * This is the same as {@link Result#ifOk}.
+     *
+     * @param func The function to call with the value. The value will be passed as the first argument.
+     * @returns The object itself for method chaining.
+     */
+    tap(func: (value: T) => void): this {
+        return this.ifOk(func);
+    }
+    /**
+     * Calls a function with the error, if there is one, and returns the Result unchanged. Useful for logging in the middle of a chain.
+     * This is the same as {@link Result#ifError}.
+     *
+     * @param func The function to call with the error. The error will be passed as the first argument.
+     * @returns The object itself for method chaining.
+     */
+    tapError(func: (error: E) => void): this {
+        return this.ifError(func);
     }
     /**
      * Returns the value of the Result. If the Result contains an error, throws an error.
      */
     get(): T {
-        if (this.#value === undefined) {
+        if (this.#tag === "error") {
             throw new GetErrorResult("Cannot get the value of an erroring Result.");
         }
-        return this.#value;
+        return this.#value as T;
     }
     /**
      * Returns the error of the Result. If the Result contains a success value, throws an error.
      */
     getError(): E {
-        if (this.#error === undefined) {
+        if (this.#tag === "ok") {
             throw new GetErrorResult("Cannot get the error of a successful Result.");
         }
-        return this.#error;
+        return this.#error as E;
     }
     /**
      * If the Result contains a success value, returns the value. If the Result contains an error, returns the provided value.
@@ -204,10 +608,10 @@ export class Result<T, E> {
      * @param value The value to return if the Result contains an error.
      */
     getOrElse<U>(value: U): T | U {
-        if (this.#value === undefined) {
+        if (this.#tag === "error") {
             return value;
         }
-        return this.#value;
+        return this.#value as T;
     }
     /**
      * If the Result contains an error, returns the error. If the Result contains a success value, returns the provided error.
@@ -215,10 +619,10 @@ export class Result<T, E> {
      * @param error The error to return if the Result contains a success value.
      */
     getErrorOrElse<U>(error: U): E | U {
-        if (this.#error === undefined) {
+        if (this.#tag === "ok") {
             return error;
         }
-        return this.#error;
+        return this.#error as E;
     }
     /**
      * If the Result contains a success value, returns the value. If the Result contains an error, returns the value returned by the provided function.
@@ -227,10 +631,10 @@ export class Result<T, E> {
      * @returns The value returned by the function.
      */
     getOrElseGet<U>(func: () => U): T | U {
-        if (this.#value === undefined) {
+        if (this.#tag === "error") {
             return func();
         }
-        return this.#value;
+        return this.#value as T;
     }
     /**
      * If the Result contains an error, returns the error. If the Result contains a success value, returns the error returned by the provided function.
@@ -239,10 +643,10 @@ export class Result<T, E> {
      * @returns The error returned by the function.
      */
     getErrorOrElseGet<U>(func: () => U): E | U {
-        if (this.#error === undefined) {
+        if (this.#tag === "ok") {
             return func();
         }
-        return this.#error;
+        return this.#error as E;
     }
     /**
      * If the Result contains a success value, returns the value. If the Result contains an error, throws the error returned by the provided function.
@@ -251,10 +655,10 @@ export class Result<T, E> {
      * @returns The value of the Result.
      */
     getOrElseThrow(func: () => Error): T {
-        if (this.#value === undefined) {
+        if (this.#tag === "error") {
             throw func();
         }
-        return this.#value;
+        return this.#value as T;
     }
     /**
      * If the Result contains an error, returns the error. If the Result contains a success value, throws the error returned by the provided function.
@@ -263,10 +667,10 @@ export class Result<T, E> {
      * @returns The error of the Result.
      */
     getErrorOrElseThrow(func: () => Error): E {
-        if (this.#error === undefined) {
+        if (this.#tag === "ok") {
             throw func();
         }
-        return this.#error;
+        return this.#error as E;
     }
     /**
      * Converts the Result to an Optional. If the Result contains a success value, the Optional will contain the value. If the Result contains an error, the Optional will be empty.
@@ -274,4 +678,27 @@ export class Result<T, E> {
     getAsOptional(): Optional<T> {
         return Optional.of(this.#value);
     }
+    /**
+     * Converts the Result to its plain object form, `{ tag: "ok", value }` or `{ tag: "error", error }`, which can be revived with {@link Result.fromJSON}.
+     * This is called by `JSON.stringify`. Pass the plain object to `structuredClone` or `postMessage`, since the Result itself keeps its contents in private fields.
+     * Note that `Error` objects have no enumerable properties, so they become `{}` under `JSON.stringify`; map them to plain data first.
+     *
+     * @example
+     * ```ts
+     * JSON.stringify(Result.ok(5)); // '{"tag":"ok","value":5}'
+     * worker.postMessage(result.toJSON());
+     * ```
+     */
+    toJSON(): SerializedResult<T, E> {
+        return this.#tag === "ok" ? { tag: "ok", value: this.#value as T } : { tag: "error", error: this.#error as E };
+    }
+    /**
+     * Allows the Result to be unwrapped with `yield*` inside {@link Result.gen}.
+     */
+    *[Symbol.iterator](): Generator<Result<never, E>, T, unknown> {
+        if (this.isError()) {
+            yield Result.error(this.#error as E);
+        }
+        return this.#value as T;
+    }
 }
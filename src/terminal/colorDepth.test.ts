@@ -0,0 +1,23 @@
+import { detectColorDepth } from "./colorDepth.js";
+
+test("detect color depth test", () => {
+    expect(detectColorDepth({})).toEqual("none");
+    expect(detectColorDepth({ TERM: "dumb" })).toEqual("none");
+    expect(detectColorDepth({ TERM: "xterm" })).toEqual("ansi16");
+    expect(detectColorDepth({ TERM: "xterm-256color" })).toEqual("ansi256");
+    expect(detectColorDepth({ TERM: "xterm-direct" })).toEqual("truecolor");
+    expect(detectColorDepth({ TERM: "xterm-256color", COLORTERM: "truecolor" })).toEqual("truecolor");
+    expect(detectColorDepth({ COLORTERM: "24bit" })).toEqual("truecolor");
+});
+
+test("detect color depth overrides test", () => {
+    expect(detectColorDepth({ TERM: "xterm-256color", NO_COLOR: "1" })).toEqual("none");
+    expect(detectColorDepth({ TERM: "xterm-256color", NO_COLOR: "" })).toEqual("ansi256");
+    expect(detectColorDepth({ TERM: "xterm-256color", NO_COLOR: "1", FORCE_COLOR: "3" })).toEqual("truecolor");
+    expect(detectColorDepth({ FORCE_COLOR: "" })).toEqual("ansi16");
+    expect(detectColorDepth({ FORCE_COLOR: "2" })).toEqual("ansi256");
+    expect(detectColorDepth({ TERM: "xterm-256color", FORCE_COLOR: "0" })).toEqual("none");
+    expect(detectColorDepth({ TERM: "xterm-256color", FORCE_COLOR: "false" })).toEqual("none");
+    expect(detectColorDepth({ FORCE_COLOR: "constructor" })).toEqual("truecolor");
+    expect(detectColorDepth({ FORCE_COLOR: "toString" })).toEqual("truecolor");
+});
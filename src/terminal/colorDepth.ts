@@ -0,0 +1,69 @@
+/**
+ * The number of colors a terminal can display.
+ *
+ * - `"none"`: Colors are disabled, so no color codes should be emitted.
+ * - `"ansi16"`: The 16 basic colors (SGR codes 30-37 and 90-97).
+ * - `"ansi256"`: The xterm 256-color palette (`38;5;n`).
+ * - `"truecolor"`: 24-bit colors (`38;2;r;g;b`).
+ *
+ * @category Terminal
+ */
+export type ColorDepth = "none" | "ansi16" | "ansi256" | "truecolor";
+
+// A Map rather than an object, so that values such as FORCE_COLOR=constructor don't find properties from the prototype.
+const FORCE_COLOR_DEPTHS = new Map<string, ColorDepth>([
+    ["", "ansi16"],
+    ["true", "ansi16"],
+    ["false", "none"],
+    ["0", "none"],
+    ["1", "ansi16"],
+    ["2", "ansi256"],
+    ["3", "truecolor"],
+]);
+
+/**
+ * Detects the color depth of the terminal from environment variables. The variables are checked in this order:
+ *
+ * 1. `FORCE_COLOR`: `0` or `false` disables colors, while `1`, `2`, and `3` force 16 colors, 256 colors, and truecolor respectively.
+ * 2. `NO_COLOR`: Disables colors if it is set to a non-empty value. See {@link https://no-color.org/}.
+ * 3. `COLORTERM`: `truecolor` or `24bit` enables truecolor.
+ * 4. `TERM`: `dumb` disables colors, names ending in `-direct` or containing `truecolor` enable truecolor, names containing `256color` enable 256 colors,
+ *    and any other name enables 16 colors.
+ *
+ * If none of the variables are set, colors are disabled.
+ *
+ * @example
+ * ```ts
+ * detectColorDepth({ TERM: "xterm-256color" }); // "ansi256"
+ * detectColorDepth({ TERM: "xterm-256color", COLORTERM: "truecolor" }); // "truecolor"
+ * detectColorDepth({ TERM: "xterm-256color", NO_COLOR: "1" }); // "none"
+ * ```
+ *
+ * @param env The environment variables to check. Defaults to `process.env`, or an empty object outside of Node.js.
+ * @category Terminal
+ */
+export function detectColorDepth(env: Record<string, string | undefined> = typeof process === "undefined" ? {} : process.env): ColorDepth {
+    const forceColor = env.FORCE_COLOR?.toLowerCase();
+    if (forceColor !== undefined) {
+        // Unknown values such as FORCE_COLOR=4 still mean that colors were requested.
+        return FORCE_COLOR_DEPTHS.get(forceColor) ?? "truecolor";
+    }
+    if (env.NO_COLOR) {
+        return "none";
+    }
+    const colorTerm = env.COLORTERM?.toLowerCase();
+    if (colorTerm === "truecolor" || colorTerm === "24bit") {
+        return "truecolor";
+    }
+    const term = env.TERM?.toLowerCase();
+    if (term === undefined || term === "" || term === "dumb") {
+        return "none";
+    }
+    if (term.endsWith("-direct") || term.includes("truecolor")) {
+        return "truecolor";
+    }
+    if (term.includes("256color")) {
+        return "ansi256";
+    }
+    return "ansi16";
+}
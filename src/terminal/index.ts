@@ -1 +1,2 @@
 export * from "./ansiCodes.js";
+export * from "./colorDepth.js";
@@ -0,0 +1,159 @@
+import { Duration } from "../duration/duration.js";
+
+/**
+ * A source of time and timers. All of the timer functions in this module accept a clock, so that tests can replace the real one with a {@link FakeClock}.
+ *
+ * @category Timers
+ */
+export type Clock = {
+    /**
+     * Returns the current time in milliseconds since the Unix epoch, like `Date.now()`.
+     */
+    now(): number;
+    /**
+     * Calls a function once after a duration has passed.
+     *
+     * @param callback The function to call.
+     * @param duration How long to wait. Infinite durations never fire.
+     * @returns A handle that can be passed to {@link Clock#clearTimeout}.
+     */
+    setTimeout(callback: () => void, duration: Duration): unknown;
+    /**
+     * Cancels a timer created by {@link Clock#setTimeout}. Does nothing if the timer has already fired or been cancelled.
+     *
+     * @param handle The handle returned by {@link Clock#setTimeout}.
+     */
+    clearTimeout(handle: unknown): void;
+};
+
+/**
+ * The longest delay that `setTimeout` supports. Longer delays overflow and fire immediately.
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+type SystemTimerHandle = { timeout?: ReturnType<typeof setTimeout> };
+
+/**
+ * The real clock, backed by `Date.now()` and the global `setTimeout`.
+ * Unlike the global `setTimeout`, it supports delays longer than about 24.8 days, and never fires for infinite durations.
+ *
+ * @category Timers
+ */
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout(callback, duration) {
+        const handle: SystemTimerHandle = {};
+        const schedule = (remaining: number): void => {
+            if (remaining === Infinity) {
+                return;
+            }
+            const delay = Math.min(Math.max(remaining, 0), MAX_TIMEOUT);
+            handle.timeout = setTimeout(() => (remaining > MAX_TIMEOUT ? schedule(remaining - MAX_TIMEOUT) : callback()), delay);
+        };
+        schedule(duration.milliseconds);
+        return handle;
+    },
+    clearTimeout(handle) {
+        clearTimeout((handle as SystemTimerHandle).timeout);
+    },
+};
+
+type FakeTimer = {
+    time: number;
+    callback: () => void;
+};
+
+/**
+ * A clock for tests that only moves when told to. Timers fire synchronously during {@link advance}, in the order they are due.
+ *
+ * Since promise callbacks run after the current code finishes, `await` a promise (such as the one returned by {@link sleep}) after advancing the clock
+ * rather than before.
+ *
+ * @example
+ * ```ts
+ * const clock = new FakeClock();
+ * const promise = sleep(Duration.fromUnit("minutes", 5), { clock });
+ * clock.advance(Duration.fromUnit("minutes", 5));
+ * await promise; // resolves without waiting 5 real minutes
+ * ```
+ *
+ * @category Timers
+ */
+export class FakeClock implements Clock {
+    #now: number;
+    #timers = new Map<number, FakeTimer>();
+    #nextId = 0;
+    /**
+     * Creates a new fake clock.
+     *
+     * @param start The starting time, either as a date or as milliseconds since the Unix epoch. Defaults to 0.
+     */
+    constructor(start: Date | number = 0) {
+        this.#now = typeof start === "number" ? start : start.getTime();
+    }
+    now(): number {
+        return this.#now;
+    }
+    setTimeout(callback: () => void, duration: Duration): number {
+        const id = this.#nextId++;
+        if (duration.milliseconds !== Infinity) {
+            this.#timers.set(id, { time: this.#now + Math.max(duration.milliseconds, 0), callback });
+        }
+        return id;
+    }
+    clearTimeout(handle: unknown): void {
+        this.#timers.delete(handle as number);
+    }
+    /**
+     * The number of timers that have not fired or been cancelled yet.
+     */
+    get pendingTimers(): number {
+        return this.#timers.size;
+    }
+    /**
+     * Moves the clock forward, firing every timer that becomes due along the way. Timers scheduled by other timers also fire if they are due in time.
+     *
+     * @param duration How far to move the clock.
+     * @throws {RangeError} If the duration is negative or infinite.
+     */
+    advance(duration: Duration): void {
+        if (duration.milliseconds < 0 || duration.milliseconds === Infinity) {
+            throw new RangeError(`A fake clock can only be advanced by a finite, non-negative duration, got ${duration.milliseconds} milliseconds.`);
+        }
+        const target = this.#now + duration.milliseconds;
+        for (let next = this.#nextDue(target); next !== undefined; next = this.#nextDue(target)) {
+            const [id, timer] = next;
+            this.#timers.delete(id);
+            this.#now = timer.time;
+            timer.callback();
+        }
+        this.#now = target;
+    }
+    /**
+     * Moves the clock forward until there are no timers left.
+     *
+     * @param limit The maximum number of timers to fire, to stop intervals from running forever. Defaults to 1000.
+     * @throws {Error} If there are still timers left after firing `limit` timers.
+     */
+    runAll(limit = 1000): void {
+        for (let fired = 0; this.#timers.size > 0; fired++) {
+            if (fired >= limit) {
+                throw new Error(`Fired ${limit} timers without running out, which usually means that an interval is still running.`);
+            }
+            const [id, timer] = this.#nextDue(Infinity) as [number, FakeTimer];
+            this.#timers.delete(id);
+            this.#now = Math.max(this.#now, timer.time);
+            timer.callback();
+        }
+    }
+    #nextDue(until: number): [number, FakeTimer] | undefined {
+        let next: [number, FakeTimer] | undefined = undefined;
+        for (const entry of this.#timers) {
+            // Timers that are due at the same time fire in the order they were created, which is the map's insertion order.
+            if (entry[1].time <= until && (next === undefined || entry[1].time < next[1].time)) {
+                next = entry;
+            }
+        }
+        return next;
+    }
+}
@@ -0,0 +1,3 @@
+export * from "./clock.js";
+export * from "./timers.js";
+export * from "./stopwatch.js";
@@ -0,0 +1,50 @@
+import { Duration } from "../duration/duration.js";
+import { FakeClock } from "./clock.js";
+import { Stopwatch } from "./stopwatch.js";
+
+const ms = (milliseconds: number): Duration => new Duration(milliseconds);
+
+test("stopwatch test", () => {
+    const clock = new FakeClock();
+    const stopwatch = new Stopwatch({ clock });
+    clock.advance(ms(100));
+    expect(stopwatch.isRunning).toBe(false);
+    expect(stopwatch.elapsed).toEqual(Duration.INSTANT);
+    stopwatch.start();
+    clock.advance(ms(250));
+    expect(stopwatch.elapsed).toEqual(ms(250));
+    expect(stopwatch.stop()).toEqual(ms(250));
+    clock.advance(ms(1000));
+    expect(stopwatch.elapsed).toEqual(ms(250));
+    stopwatch.start().start();
+    clock.advance(ms(50));
+    expect(stopwatch.isRunning).toBe(true);
+    expect(stopwatch.elapsed).toEqual(ms(300));
+    stopwatch.restart();
+    clock.advance(ms(10));
+    expect(stopwatch.elapsed).toEqual(ms(10));
+    expect(stopwatch.reset().elapsed).toEqual(Duration.INSTANT);
+});
+
+test("stopwatch lap test", () => {
+    const clock = new FakeClock();
+    const stopwatch = Stopwatch.start({ clock });
+    clock.advance(ms(100));
+    expect(stopwatch.lap()).toEqual(ms(100));
+    clock.advance(ms(30));
+    stopwatch.stop();
+    clock.advance(ms(500));
+    stopwatch.start();
+    clock.advance(ms(20));
+    expect(stopwatch.lap()).toEqual(ms(50));
+    expect(stopwatch.laps).toEqual([ms(100), ms(50)]);
+    expect(stopwatch.elapsed).toEqual(ms(150));
+    stopwatch.reset();
+    expect(stopwatch.laps).toEqual([]);
+});
+
+test("stopwatch default clock test", () => {
+    const stopwatch = Stopwatch.start();
+    expect(stopwatch.elapsed.isNegative()).toBe(false);
+    expect(stopwatch.stop().milliseconds).toBeGreaterThanOrEqual(0);
+});
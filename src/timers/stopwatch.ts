@@ -0,0 +1,126 @@
+import { Duration } from "../duration/duration.js";
+import { Clock } from "./clock.js";
+
+/**
+ * Options for a {@link Stopwatch}.
+ *
+ * @category Timers
+ */
+export type StopwatchOptions = {
+    /**
+     * The clock to read the time from. Defaults to `performance.now()`, which has sub-millisecond precision and is not affected by changes to the system clock.
+     * Pass a {@link FakeClock} in tests.
+     */
+    clock?: Clock;
+};
+
+/**
+ * Measures elapsed time as a {@link Duration}. The stopwatch can be stopped and started again, and the time while it is stopped is not counted.
+ *
+ * @example
+ * ```ts
+ * const stopwatch = Stopwatch.start();
+ * await download();
+ * stopwatch.lap(); // time spent downloading
+ * await extract();
+ * stopwatch.lap(); // time spent extracting
+ * console.log(`Done in ${stopwatch.stop().format(true)}`);
+ * ```
+ *
+ * @category Timers
+ */
+export class Stopwatch {
+    readonly #now: () => number;
+    #startedAt: number | undefined = undefined;
+    #accumulated = 0;
+    #lastLap = 0;
+    #laps: Duration[] = [];
+    /**
+     * Creates a new stopwatch. It does not start until {@link start} is called.
+     *
+     * @param options Options for the stopwatch.
+     */
+    constructor({ clock }: StopwatchOptions = {}) {
+        this.#now = clock ? (): number => clock.now() : (): number => performance.now();
+    }
+    /**
+     * Creates a new stopwatch and starts it.
+     *
+     * @param options Options for the stopwatch.
+     */
+    static start(options?: StopwatchOptions): Stopwatch {
+        return new Stopwatch(options).start();
+    }
+    /**
+     * Whether the stopwatch is currently running.
+     */
+    get isRunning(): boolean {
+        return this.#startedAt !== undefined;
+    }
+    /**
+     * The total time the stopwatch has been running, including the current run if it is running.
+     */
+    get elapsed(): Duration {
+        return new Duration(this.#elapsedMilliseconds());
+    }
+    /**
+     * The laps recorded with {@link lap}, in order.
+     */
+    get laps(): readonly Duration[] {
+        return [...this.#laps];
+    }
+    /**
+     * Starts the stopwatch, or resumes it if it was stopped. Does nothing if it is already running.
+     *
+     * @returns This stopwatch.
+     */
+    start(): this {
+        this.#startedAt ??= this.#now();
+        return this;
+    }
+    /**
+     * Stops the stopwatch. Does nothing if it is not running.
+     *
+     * @returns The total elapsed time.
+     */
+    stop(): Duration {
+        this.#accumulated = this.#elapsedMilliseconds();
+        this.#startedAt = undefined;
+        return new Duration(this.#accumulated);
+    }
+    /**
+     * Stops the stopwatch and clears the elapsed time and laps.
+     *
+     * @returns This stopwatch.
+     */
+    reset(): this {
+        this.#startedAt = undefined;
+        this.#accumulated = 0;
+        this.#lastLap = 0;
+        this.#laps = [];
+        return this;
+    }
+    /**
+     * Clears the elapsed time and laps, and starts the stopwatch again.
+     *
+     * @returns This stopwatch.
+     */
+    restart(): this {
+        return this.reset().start();
+    }
+    /**
+     * Records a lap.
+     *
+     * @returns The elapsed time since the previous lap, or since the stopwatch was started if this is the first lap.
+     */
+    lap(): Duration {
+        const elapsed = this.#elapsedMilliseconds();
+        const lap = new Duration(elapsed - this.#lastLap);
+        this.#lastLap = elapsed;
+        this.#laps.push(lap);
+        return lap;
+    }
+    #elapsedMilliseconds(): number {
+        return this.#accumulated + (this.#startedAt === undefined ? 0 : this.#now() - this.#startedAt);
+    }
+}
@@ -0,0 +1,143 @@
+import { Duration } from "../duration/duration.js";
+import { FakeClock } from "./clock.js";
+import { TimeoutError, debounce, interval, sleep, throttle, withTimeout } from "./timers.js";
+
+const ms = (milliseconds: number): Duration => new Duration(milliseconds);
+
+test("fake clock test", () => {
+    const clock = new FakeClock(new Date(1000));
+    const fired: number[] = [];
+    clock.setTimeout(() => fired.push(clock.now()), ms(200));
+    const cancelled = clock.setTimeout(() => fired.push(-1), ms(100));
+    clock.setTimeout(() => {
+        fired.push(clock.now());
+        clock.setTimeout(() => fired.push(clock.now()), ms(50));
+    }, ms(100));
+    clock.setTimeout(() => fired.push(-1), Duration.FOREVER);
+    clock.clearTimeout(cancelled);
+    expect(clock.pendingTimers).toEqual(2);
+    clock.advance(ms(150));
+    expect(fired).toEqual([1100, 1150]);
+    expect(clock.now()).toEqual(1150);
+    clock.runAll();
+    expect(fired).toEqual([1100, 1150, 1200]);
+    expect(() => clock.advance(ms(-1))).toThrow(RangeError);
+    interval(() => undefined, ms(10), { clock });
+    expect(() => clock.runAll(5)).toThrow(Error);
+});
+
+test("sleep test", async () => {
+    const clock = new FakeClock();
+    let done = false;
+    const promise = sleep(ms(1000), { clock }).then(() => (done = true));
+    clock.advance(ms(999));
+    await Promise.resolve();
+    expect(done).toEqual(false);
+    clock.advance(ms(1));
+    await promise;
+    expect(done).toEqual(true);
+});
+
+test("sleep abort test", async () => {
+    const clock = new FakeClock();
+    const controller = new AbortController();
+    const promise = sleep(ms(1000), { clock, signal: controller.signal });
+    controller.abort(new Error("stop"));
+    await expect(promise).rejects.toThrow("stop");
+    expect(clock.pendingTimers).toEqual(0);
+    await expect(sleep(ms(1000), { clock, signal: controller.signal })).rejects.toThrow("stop");
+});
+
+test("with timeout test", async () => {
+    const clock = new FakeClock();
+    const fast = withTimeout(Promise.resolve(5), ms(1000), { clock });
+    expect((await fast).get()).toEqual(5);
+    expect(clock.pendingTimers).toEqual(0);
+
+    const slow = withTimeout(new Promise(() => undefined), Duration.fromUnit("seconds", 2), { clock });
+    clock.advance(Duration.fromUnit("seconds", 2));
+    const error = (await slow).getError();
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toEqual("Timed out after 2 seconds");
+
+    await expect(withTimeout(Promise.reject(new Error("failed")), ms(1000), { clock })).rejects.toThrow("failed");
+    expect(clock.pendingTimers).toEqual(0);
+});
+
+test("interval test", () => {
+    const clock = new FakeClock();
+    const calls: [number, number][] = [];
+    const stop = interval((count) => calls.push([count, clock.now()]), ms(100), { clock });
+    clock.advance(ms(350));
+    expect(calls).toEqual([
+        [0, 100],
+        [1, 200],
+        [2, 300],
+    ]);
+    stop();
+    clock.advance(ms(1000));
+    expect(calls.length).toEqual(3);
+    expect(() => interval(() => undefined, ms(0), { clock })).toThrow(RangeError);
+
+    const controller = new AbortController();
+    let count = 0;
+    interval(() => count++, ms(100), { clock, signal: controller.signal });
+    clock.advance(ms(100));
+    controller.abort();
+    clock.advance(ms(1000));
+    expect(count).toEqual(1);
+});
+
+test("debounce test", () => {
+    const clock = new FakeClock();
+    const calls: string[] = [];
+    const debounced = debounce((value: string) => calls.push(value), ms(100), { clock });
+    debounced("a");
+    clock.advance(ms(50));
+    debounced("b");
+    clock.advance(ms(99));
+    expect(calls).toEqual([]);
+    expect(debounced.isPending()).toEqual(true);
+    clock.advance(ms(1));
+    expect(calls).toEqual(["b"]);
+    expect(debounced.isPending()).toEqual(false);
+
+    debounced("c");
+    debounced.cancel();
+    clock.advance(ms(1000));
+    debounced("d");
+    debounced.flush();
+    expect(calls).toEqual(["b", "d"]);
+    expect(clock.pendingTimers).toEqual(0);
+});
+
+test("throttle test", () => {
+    const clock = new FakeClock();
+    const calls: [number, number][] = [];
+    const throttled = throttle((value: number) => calls.push([value, clock.now()]), ms(100), { clock });
+    throttled(1);
+    throttled(2);
+    clock.advance(ms(50));
+    throttled(3);
+    expect(calls).toEqual([[1, 0]]);
+    clock.advance(ms(50));
+    expect(calls).toEqual([
+        [1, 0],
+        [3, 100],
+    ]);
+    clock.advance(ms(100));
+    throttled(4);
+    expect(calls[2]).toEqual([4, 200]);
+    throttled(5);
+    throttled.cancel();
+    clock.advance(ms(1000));
+    expect(calls.length).toEqual(3);
+});
+
+test("system clock test", async () => {
+    const start = Date.now();
+    await sleep(ms(20));
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+    const result = await withTimeout(sleep(ms(1000)), ms(10));
+    expect(result.isError()).toEqual(true);
+});
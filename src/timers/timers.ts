@@ -0,0 +1,297 @@
+import { Duration } from "../duration/duration.js";
+import { StructuredError } from "../errors/errors.js";
+import { Result } from "../resultsAndOptionals/results.js";
+import { Clock, systemClock } from "./clock.js";
+
+/**
+ * Options shared by the timer functions.
+ *
+ * @category Timers
+ */
+export type TimerOptions = {
+    /**
+     * A signal that cancels the timer when aborted.
+     */
+    signal?: AbortSignal;
+    /**
+     * The clock to schedule the timer on. Defaults to {@link systemClock}. Pass a {@link FakeClock} in tests.
+     */
+    clock?: Clock;
+};
+
+/**
+ * An error that occurs when {@link withTimeout} runs out of time.
+ *
+ * @category Timers
+ */
+export class TimeoutError extends StructuredError<"Timeout"> {
+    constructor(
+        /**
+         * The duration that was waited before giving up.
+         */
+        public readonly duration: Duration,
+    ) {
+        super("Timeout", `Timed out after ${duration.format(true)}`);
+    }
+}
+
+/**
+ * Returns a promise that resolves after a duration has passed.
+ *
+ * @example
+ * ```ts
+ * await sleep(Duration.fromUnit("seconds", 2));
+ *
+ * const controller = new AbortController();
+ * const promise = sleep(Duration.fromUnit("minutes", 1), { signal: controller.signal });
+ * controller.abort(); // promise rejects with the abort reason
+ * ```
+ *
+ * @param duration How long to wait.
+ * @param options  Options for the timer.
+ * @returns A promise that resolves after the duration, or rejects with the signal's reason if the signal is aborted first.
+ * @category Timers
+ */
+export function sleep(duration: Duration, { signal, clock = systemClock }: TimerOptions = {}): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = (): void => {
+            clock.clearTimeout(handle);
+            reject(signal?.reason);
+        };
+        const handle = clock.setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, duration);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Waits for a promise to settle, but gives up after a duration. The original promise keeps running, but its result is ignored after the timeout.
+ *
+ * @example
+ * ```ts
+ * const result = await withTimeout(fetch(url), Duration.fromUnit("seconds", 5));
+ * if (result.isError()) {
+ *     console.log(result.getError().message); // "Timed out after 5 seconds"
+ * }
+ * ```
+ *
+ * @param promise  The promise to wait for.
+ * @param duration How long to wait before giving up.
+ * @param options  Options for the timer. Aborting the signal stops waiting and rejects with the signal's reason.
+ * @returns A promise of a Result containing the value of the promise, or a {@link TimeoutError}. If the promise rejects before the timeout, so does the returned promise.
+ * @category Timers
+ */
+export function withTimeout<T>(
+    promise: PromiseLike<T>,
+    duration: Duration,
+    { signal, clock = systemClock }: TimerOptions = {},
+): Promise<Result<T, TimeoutError>> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const cleanup = (): void => {
+            clock.clearTimeout(handle);
+            signal?.removeEventListener("abort", onAbort);
+        };
+        const onAbort = (): void => {
+            cleanup();
+            reject(signal?.reason);
+        };
+        const handle = clock.setTimeout(() => {
+            cleanup();
+            resolve(Result.error(new TimeoutError(duration)));
+        }, duration);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        Promise.resolve(promise).then(
+            (value) => {
+                cleanup();
+                resolve(Result.ok(value));
+            },
+            (error) => {
+                cleanup();
+                reject(error);
+            },
+        );
+    });
+}
+
+/**
+ * Calls a function repeatedly, waiting a duration between calls. The calls are scheduled relative to the start time,
+ * so they do not drift if the callback is slow.
+ *
+ * @example
+ * ```ts
+ * const stop = interval(() => console.log("tick"), Duration.fromUnit("seconds", 1));
+ * // later...
+ * stop();
+ * ```
+ *
+ * @param callback The function to call. It receives the number of times it has been called before, starting at 0.
+ * @param period   How long to wait between calls.
+ * @param options  Options for the timer. Aborting the signal stops the interval.
+ * @returns A function that stops the interval.
+ * @throws {RangeError} If the period is not positive.
+ * @category Timers
+ */
+export function interval(callback: (count: number) => void, period: Duration, { signal, clock = systemClock }: TimerOptions = {}): () => void {
+    if (!(period.milliseconds > 0)) {
+        throw new RangeError(`The period of an interval must be positive, got ${period.milliseconds} milliseconds.`);
+    }
+    const start = clock.now();
+    let count = 0;
+    let handle: unknown;
+    let stopped = false;
+    const stop = (): void => {
+        stopped = true;
+        clock.clearTimeout(handle);
+        signal?.removeEventListener("abort", stop);
+    };
+    const schedule = (): void => {
+        const next = start + (count + 1) * period.milliseconds;
+        handle = clock.setTimeout(() => {
+            callback(count++);
+            if (!stopped) {
+                schedule();
+            }
+        }, new Duration(Math.max(next - clock.now(), 0)));
+    };
+    if (signal?.aborted) {
+        return stop;
+    }
+    signal?.addEventListener("abort", stop, { once: true });
+    schedule();
+    return stop;
+}
+
+/**
+ * A function returned by {@link debounce} or {@link throttle} that delays calls to another function.
+ *
+ * @category Timers
+ */
+export type RateLimitedFunction<A extends unknown[]> = {
+    (...args: A): void;
+    /**
+     * Cancels the pending call, if there is one.
+     */
+    cancel(): void;
+    /**
+     * Makes the pending call immediately, if there is one.
+     */
+    flush(): void;
+    /**
+     * Returns whether a call is waiting to be made.
+     */
+    isPending(): boolean;
+};
+
+/**
+ * Creates a function that delays calling `fn` until a duration has passed without it being called again.
+ * Only the last call is made, with the arguments it was given. Useful for reacting to bursts of events, such as file changes or keystrokes.
+ *
+ * @example
+ * ```ts
+ * const save = debounce((text: string) => writeFile("draft.txt", text), Duration.fromUnit("milliseconds", 500));
+ * save("a");
+ * save("ab"); // only "ab" is saved, 500 milliseconds after this call
+ * ```
+ *
+ * @param fn      The function to debounce.
+ * @param wait    How long to wait after the last call.
+ * @param options Options for the timer. Aborting the signal cancels the pending call and ignores future calls.
+ * @category Timers
+ */
+export function debounce<A extends unknown[]>(
+    fn: (...args: A) => void,
+    wait: Duration,
+    { signal, clock = systemClock }: TimerOptions = {},
+): RateLimitedFunction<A> {
+    let handle: unknown;
+    let pendingArgs: A | undefined = undefined;
+    const cancel = (): void => {
+        clock.clearTimeout(handle);
+        pendingArgs = undefined;
+    };
+    const flush = (): void => {
+        if (pendingArgs !== undefined) {
+            const args = pendingArgs;
+            cancel();
+            fn(...args);
+        }
+    };
+    signal?.addEventListener("abort", cancel, { once: true });
+    const debounced = (...args: A): void => {
+        if (signal?.aborted) {
+            return;
+        }
+        cancel();
+        pendingArgs = args;
+        handle = clock.setTimeout(flush, wait);
+    };
+    return Object.assign(debounced, { cancel, flush, isPending: () => pendingArgs !== undefined });
+}
+
+/**
+ * Creates a function that calls `fn` at most once per duration. The first call is made immediately, and calls made while waiting are collapsed
+ * into a single call at the end of the wait, with the arguments of the last one. Useful for rate limiting, such as redrawing a progress bar.
+ *
+ * @example
+ * ```ts
+ * const render = throttle((progress: number) => draw(progress), Duration.fromUnit("milliseconds", 100));
+ * render(0.1); // drawn immediately
+ * render(0.2);
+ * render(0.3); // drawn 100 milliseconds after the first call, 0.2 is skipped
+ * ```
+ *
+ * @param fn      The function to throttle.
+ * @param wait    The minimum time between calls.
+ * @param options Options for the timer. Aborting the signal cancels the pending call and ignores future calls.
+ * @category Timers
+ */
+export function throttle<A extends unknown[]>(
+    fn: (...args: A) => void,
+    wait: Duration,
+    { signal, clock = systemClock }: TimerOptions = {},
+): RateLimitedFunction<A> {
+    let handle: unknown;
+    let pendingArgs: A | undefined = undefined;
+    let lastCall = -Infinity;
+    const invoke = (args: A): void => {
+        lastCall = clock.now();
+        fn(...args);
+    };
+    const cancel = (): void => {
+        clock.clearTimeout(handle);
+        pendingArgs = undefined;
+    };
+    const flush = (): void => {
+        if (pendingArgs !== undefined) {
+            const args = pendingArgs;
+            cancel();
+            invoke(args);
+        }
+    };
+    signal?.addEventListener("abort", cancel, { once: true });
+    const throttled = (...args: A): void => {
+        if (signal?.aborted) {
+            return;
+        }
+        const remaining = lastCall + wait.milliseconds - clock.now();
+        if (pendingArgs === undefined) {
+            if (remaining <= 0) {
+                invoke(args);
+                return;
+            }
+            handle = clock.setTimeout(flush, new Duration(remaining));
+        }
+        pendingArgs = args;
+    };
+    return Object.assign(throttled, { cancel, flush, isPending: () => pendingArgs !== undefined });
+}